@@ -1,5 +1,7 @@
 import dotenv from 'dotenv';
 
+import { customPostTypes } from './post-types.js';
+
 import type {
   DbConfig,
   RedisConfig,
@@ -37,6 +39,13 @@ export const config = {
   port: getEnvNumber('PORT', 3000),
   apiVersion: getEnv('API_VERSION', 'v1'),
 
+  // Public site, used for links in feeds
+  site: {
+    title: getEnv('SITE_TITLE', 'Node App'),
+    description: getEnv('SITE_DESCRIPTION', ''),
+    url: getEnv('SITE_URL', 'http://localhost:3000'),
+  },
+
   // Database
   database: {
     enabled: getEnvBoolean('DB_ENABLED', true),
@@ -87,6 +96,45 @@ export const config = {
     refreshExpiresIn: getEnv('JWT_REFRESH_EXPIRES_IN', '7d'),
   },
 
+  // RSS/Atom feeds
+  feed: {
+    itemCount: getEnvNumber('FEED_ITEM_COUNT', 20),
+  },
+
+  // Password-protected posts
+  postPassword: {
+    unlockTokenExpiresIn: getEnv('POST_UNLOCK_TOKEN_EXPIRES_IN', '1h'),
+  },
+
+  // Preview links: signed URLs that show a draft to readers without an account
+  preview: {
+    defaultExpiresInHours: getEnvNumber('PREVIEW_LINK_EXPIRES_IN_HOURS', 72),
+    maxExpiresInHours: getEnvNumber('PREVIEW_LINK_MAX_EXPIRES_IN_HOURS', 720), // 30 days
+  },
+
+  // Edit locks: an editor keeps a post locked by renewing the lock before it expires
+  postLock: {
+    ttlSeconds: getEnvNumber('POST_LOCK_TTL_SECONDS', 150),
+  },
+
+  // View counting: views are buffered in Redis and written to the database in batches
+  views: {
+    dedupeWindowSeconds: getEnvNumber('POST_VIEW_DEDUPE_WINDOW_SECONDS', 1800), // 30 minutes
+    flushIntervalMs: getEnvNumber('POST_VIEW_FLUSH_INTERVAL_MS', 60000), // 1 minute
+  },
+
+  // Languages posts are written in; posts without a locale are in the default one
+  locales: {
+    default: getEnv('DEFAULT_LOCALE', 'en'),
+    supported: getEnv('SUPPORTED_LOCALES', 'en')
+      .split(',')
+      .map((locale) => locale.trim())
+      .filter(Boolean),
+  },
+
+  // Post types declared on top of the built-in ones
+  postTypes: customPostTypes,
+
   // Rate Limiting
   rateLimit: {
     windowMs: getEnvNumber('RATE_LIMIT_WINDOW_MS', 900000), // 15 minutes
@@ -102,6 +150,19 @@ export const config = {
     blockDuration: getEnvNumber('DDOS_BLOCK_DURATION', 300), // 5 minutes
   },
 
+  // Scheduled publishing
+  scheduler: {
+    enabled: getEnvBoolean('SCHEDULER_ENABLED', true),
+    intervalMs: getEnvNumber('SCHEDULER_INTERVAL_MS', 60000), // 1 minute
+    batchSize: getEnvNumber('SCHEDULER_BATCH_SIZE', 50),
+  },
+
+  // Trash: posts are purged for good after retentionDays (0 keeps them forever)
+  trash: {
+    retentionDays: getEnvNumber('TRASH_RETENTION_DAYS', 30),
+    purgeIntervalMs: getEnvNumber('TRASH_PURGE_INTERVAL_MS', 3600000), // 1 hour
+  },
+
   // Logging
   logging: {
     level: getEnv('LOG_LEVEL', 'info'),
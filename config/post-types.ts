@@ -0,0 +1,19 @@
+import type { PostTypeDefinition } from '@/types';
+
+/**
+ * Post types available besides the built-in post, page and attachment
+ *
+ * Each role gets the same permissions over a type's permission prefix as it
+ * has over posts (e.g. "event:publish" for roles with "post:publish"), unless
+ * ROLE_PERMISSIONS already lists permissions with that prefix. For example:
+ *
+ * {
+ *   name: 'event',
+ *   label: 'Events',
+ *   statuses: ['draft', 'pending', 'publish', 'future'],
+ *   requiredMeta: ['starts_at'],
+ *   permissionPrefix: 'event',
+ *   hierarchical: false,
+ * }
+ */
+export const customPostTypes: PostTypeDefinition[] = [];
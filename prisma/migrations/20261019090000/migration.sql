@@ -0,0 +1,41 @@
+-- CreateTable
+CREATE TABLE `wpny_terms` (
+    `term_id` INTEGER NOT NULL AUTO_INCREMENT,
+    `name` VARCHAR(191) NOT NULL,
+    `slug` VARCHAR(191) NOT NULL,
+    `term_group` INTEGER NOT NULL DEFAULT 0,
+
+    INDEX `wpny_terms_slug_idx`(`slug`),
+    INDEX `wpny_terms_name_idx`(`name`),
+    PRIMARY KEY (`term_id`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
+
+-- CreateTable
+CREATE TABLE `wpny_term_taxonomy` (
+    `term_taxonomy_id` INTEGER NOT NULL AUTO_INCREMENT,
+    `term_id` INTEGER NOT NULL,
+    `taxonomy` VARCHAR(191) NOT NULL,
+    `description` TEXT NULL,
+    `parent` INTEGER NOT NULL DEFAULT 0,
+    `count` INTEGER NOT NULL DEFAULT 0,
+
+    INDEX `wpny_term_taxonomy_taxonomy_idx`(`taxonomy`),
+    UNIQUE INDEX `wpny_term_taxonomy_term_id_taxonomy_key`(`term_id`, `taxonomy`),
+    PRIMARY KEY (`term_taxonomy_id`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
+
+-- CreateTable
+CREATE TABLE `wpny_term_relationships` (
+    `object_id` INTEGER NOT NULL,
+    `term_taxonomy_id` INTEGER NOT NULL,
+    `term_order` INTEGER NOT NULL DEFAULT 0,
+
+    INDEX `wpny_term_relationships_term_taxonomy_id_idx`(`term_taxonomy_id`),
+    PRIMARY KEY (`object_id`, `term_taxonomy_id`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
+
+-- AddForeignKey
+ALTER TABLE `wpny_term_taxonomy` ADD CONSTRAINT `wpny_term_taxonomy_term_id_fkey` FOREIGN KEY (`term_id`) REFERENCES `wpny_terms`(`term_id`) ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE `wpny_term_relationships` ADD CONSTRAINT `wpny_term_relationships_term_taxonomy_id_fkey` FOREIGN KEY (`term_taxonomy_id`) REFERENCES `wpny_term_taxonomy`(`term_taxonomy_id`) ON DELETE CASCADE ON UPDATE CASCADE;
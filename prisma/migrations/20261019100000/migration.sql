@@ -0,0 +1,24 @@
+-- CreateTable
+CREATE TABLE `wpny_comments` (
+    `comment_ID` INTEGER NOT NULL AUTO_INCREMENT,
+    `comment_post_ID` INTEGER NOT NULL,
+    `comment_author` VARCHAR(191) NOT NULL DEFAULT '',
+    `comment_author_email` VARCHAR(191) NOT NULL DEFAULT '',
+    `comment_author_url` VARCHAR(191) NULL,
+    `comment_author_IP` VARCHAR(191) NULL,
+    `comment_content` TEXT NOT NULL,
+    `comment_approved` VARCHAR(191) NOT NULL DEFAULT 'pending',
+    `comment_agent` VARCHAR(191) NULL,
+    `comment_type` VARCHAR(191) NOT NULL DEFAULT 'comment',
+    `comment_parent` INTEGER NOT NULL DEFAULT 0,
+    `user_id` VARCHAR(191) NULL,
+    `comment_date` DATETIME(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+    `comment_date_gmt` DATETIME(3) NULL,
+    `updated_at` DATETIME(3) NOT NULL,
+
+    INDEX `wpny_comments_comment_post_ID_comment_approved_idx`(`comment_post_ID`, `comment_approved`),
+    INDEX `wpny_comments_comment_approved_idx`(`comment_approved`),
+    INDEX `wpny_comments_comment_parent_idx`(`comment_parent`),
+    INDEX `wpny_comments_comment_date_idx`(`comment_date`),
+    PRIMARY KEY (`comment_ID`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
@@ -0,0 +1,13 @@
+-- CreateTable
+CREATE TABLE `wpny_post_revisions` (
+    `id` INTEGER NOT NULL AUTO_INCREMENT,
+    `post_id` INTEGER NOT NULL,
+    `post_title` VARCHAR(191) NOT NULL,
+    `post_content` TEXT NOT NULL,
+    `post_excerpt` TEXT NULL,
+    `revised_by` VARCHAR(191) NULL,
+    `created_at` DATETIME(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+
+    INDEX `wpny_post_revisions_post_id_created_at_idx`(`post_id`, `created_at`),
+    PRIMARY KEY (`id`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
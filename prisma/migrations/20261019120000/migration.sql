@@ -0,0 +1,13 @@
+-- CreateTable
+CREATE TABLE `wpny_post_transitions` (
+    `id` INTEGER NOT NULL AUTO_INCREMENT,
+    `post_id` INTEGER NOT NULL,
+    `from_status` VARCHAR(20) NOT NULL,
+    `to_status` VARCHAR(20) NOT NULL,
+    `actor_id` VARCHAR(191) NULL,
+    `note` TEXT NULL,
+    `created_at` DATETIME(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+
+    INDEX `wpny_post_transitions_post_id_created_at_idx`(`post_id`, `created_at`),
+    PRIMARY KEY (`id`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
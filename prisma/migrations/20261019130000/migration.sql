@@ -0,0 +1,2 @@
+-- CreateIndex
+CREATE INDEX `wpny_posts_post_type_post_parent_idx` ON `wpny_posts`(`post_type`, `post_parent`);
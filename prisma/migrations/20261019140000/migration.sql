@@ -0,0 +1,11 @@
+-- CreateTable
+CREATE TABLE `wpny_post_slugs` (
+    `id` INTEGER NOT NULL AUTO_INCREMENT,
+    `post_id` INTEGER NOT NULL,
+    `slug` VARCHAR(191) NOT NULL,
+    `created_at` DATETIME(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+
+    INDEX `wpny_post_slugs_slug_idx`(`slug`),
+    UNIQUE INDEX `wpny_post_slugs_post_id_slug_key`(`post_id`, `slug`),
+    PRIMARY KEY (`id`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
@@ -0,0 +1,2 @@
+-- CreateIndex
+CREATE FULLTEXT INDEX `wpny_posts_post_title_post_content_post_excerpt_idx` ON `wpny_posts`(`post_title`, `post_content`, `post_excerpt`);
@@ -0,0 +1,13 @@
+-- CreateTable
+CREATE TABLE `wpny_postmeta` (
+    `meta_id` INTEGER NOT NULL AUTO_INCREMENT,
+    `post_id` INTEGER NOT NULL,
+    `meta_key` VARCHAR(191) NOT NULL,
+    `meta_value` TEXT NOT NULL,
+    `meta_type` VARCHAR(20) NOT NULL DEFAULT 'string',
+    `updated_at` DATETIME(3) NOT NULL,
+
+    INDEX `wpny_postmeta_meta_key_idx`(`meta_key`),
+    UNIQUE INDEX `wpny_postmeta_post_id_meta_key_key`(`post_id`, `meta_key`),
+    PRIMARY KEY (`meta_id`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
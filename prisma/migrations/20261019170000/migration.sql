@@ -0,0 +1,6 @@
+-- AlterTable
+ALTER TABLE `wpny_posts` ADD COLUMN `trashed_at` DATETIME(3) NULL,
+    ADD COLUMN `pre_trash_status` VARCHAR(20) NULL;
+
+-- CreateIndex
+CREATE INDEX `wpny_posts_trashed_at_idx` ON `wpny_posts`(`trashed_at`);
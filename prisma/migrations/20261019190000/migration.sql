@@ -0,0 +1,13 @@
+-- CreateTable
+CREATE TABLE `wpny_post_preview_links` (
+    `id` VARCHAR(191) NOT NULL,
+    `post_id` INTEGER NOT NULL,
+    `revision_id` INTEGER NOT NULL,
+    `created_by` VARCHAR(191) NOT NULL,
+    `expires_at` DATETIME(3) NOT NULL,
+    `revoked_at` DATETIME(3) NULL,
+    `created_at` DATETIME(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+
+    INDEX `wpny_post_preview_links_post_id_idx`(`post_id`),
+    PRIMARY KEY (`id`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
@@ -0,0 +1,9 @@
+-- CreateTable
+CREATE TABLE `wpny_post_locks` (
+    `post_id` INTEGER NOT NULL,
+    `user_id` VARCHAR(191) NOT NULL,
+    `acquired_at` DATETIME(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+    `expires_at` DATETIME(3) NOT NULL,
+
+    PRIMARY KEY (`post_id`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
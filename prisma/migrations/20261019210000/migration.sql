@@ -0,0 +1,15 @@
+-- AlterTable
+ALTER TABLE `wpny_posts` ADD COLUMN `view_count` INTEGER NOT NULL DEFAULT 0;
+
+-- CreateIndex
+CREATE INDEX `wpny_posts_view_count_idx` ON `wpny_posts`(`view_count`);
+
+-- CreateTable
+CREATE TABLE `wpny_post_views` (
+    `post_id` INTEGER NOT NULL,
+    `day` DATE NOT NULL,
+    `views` INTEGER NOT NULL DEFAULT 0,
+
+    INDEX `wpny_post_views_day_idx`(`day`),
+    PRIMARY KEY (`post_id`, `day`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
@@ -0,0 +1,9 @@
+-- AlterTable
+ALTER TABLE `wpny_posts` ADD COLUMN `locale` VARCHAR(20) NOT NULL DEFAULT 'en',
+    ADD COLUMN `translation_group` VARCHAR(36) NULL;
+
+-- CreateIndex
+CREATE INDEX `wpny_posts_locale_post_name_idx` ON `wpny_posts`(`locale`, `post_name`);
+
+-- CreateIndex
+CREATE INDEX `wpny_posts_translation_group_idx` ON `wpny_posts`(`translation_group`);
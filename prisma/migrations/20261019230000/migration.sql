@@ -0,0 +1,24 @@
+-- Menu items have no permalink; name them after their UUID so slugs can be unique
+UPDATE `wpny_posts` SET `post_name` = `post_uuid` WHERE `post_type` = 'nav_menu_item';
+
+-- Keep the oldest post of each (locale, slug) pair and suffix the others with
+-- their ID, trimmed so the slug still fits the column
+UPDATE `wpny_posts` AS `p`
+JOIN (
+  SELECT `locale`, `post_name`, MIN(`ID`) AS `keep_id`
+  FROM `wpny_posts`
+  GROUP BY `locale`, `post_name`
+  HAVING COUNT(*) > 1
+) AS `d` ON `d`.`locale` = `p`.`locale` AND `d`.`post_name` = `p`.`post_name`
+SET `p`.`post_name` = CONCAT(
+  LEFT(`p`.`post_name`, 191 - CHAR_LENGTH(CONCAT('-', `p`.`ID`))),
+  '-',
+  `p`.`ID`
+)
+WHERE `p`.`ID` <> `d`.`keep_id`;
+
+-- DropIndex
+DROP INDEX `wpny_posts_locale_post_name_idx` ON `wpny_posts`;
+
+-- CreateIndex
+CREATE UNIQUE INDEX `wpny_posts_locale_post_name_key` ON `wpny_posts`(`locale`, `post_name`);
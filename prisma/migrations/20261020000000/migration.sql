@@ -0,0 +1,8 @@
+-- CreateTable
+CREATE TABLE `wpny_post_view_batches` (
+    `id` VARCHAR(36) NOT NULL,
+    `applied_at` DATETIME(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+
+    INDEX `wpny_post_view_batches_applied_at_idx`(`applied_at`),
+    PRIMARY KEY (`id`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
@@ -0,0 +1,261 @@
+import express from 'express';
+import type { Response } from 'express';
+
+import { HTTP_STATUS } from '@/constants';
+import type { AuthRequest } from '@/middleware/authorization';
+import {
+  authenticateToken,
+  currentUserHasPermission,
+  optionalAuth,
+  requirePermission,
+} from '@/middleware/authorization';
+import { asyncHandler } from '@/middleware/error';
+import { getPostViewer } from '@/middleware/post-authorization';
+import { rateLimiters } from '@/middleware/rate-limiter';
+import { validateBody, validateParams, validateQuery } from '@/middleware/validation';
+import { commentService } from '@/services/comment';
+import { postService } from '@/services/post';
+import { userService } from '@/services/user';
+import type { CommentModerationStatus, CommentQueryParams } from '@/types';
+import {
+  createApiResponse,
+  createErrorResponse,
+  createPaginatedResponse,
+  parsePaginationParams,
+  calculatePaginationMeta,
+} from '@/utils/response';
+import {
+  commentQuerySchema,
+  createCommentSchema,
+  numericIdParamSchema,
+  postCommentsQuerySchema,
+  updateCommentStatusSchema,
+} from '@/utils/schemas';
+
+const router = express.Router();
+const postCommentsRouter = express.Router({ mergeParams: true });
+
+/**
+ * GET /posts/:id/comments
+ * Get approved comments of a post as threads (public)
+ * Comments of a password-protected post need the X-Post-Unlock-Token header.
+ */
+postCommentsRouter.get(
+  '/',
+  rateLimiters.read,
+  optionalAuth,
+  validateParams(numericIdParamSchema),
+  validateQuery(postCommentsQuerySchema),
+  asyncHandler(async (req: AuthRequest, res: Response) => {
+    const postId = parseInt((req.params as { id: string }).id, 10);
+    const { order } = req.query as { order?: CommentQueryParams['order'] };
+
+    const post = await postService.getPostById(postId);
+    if (!post) {
+      res
+        .status(HTTP_STATUS.NOT_FOUND)
+        .json(createErrorResponse('POST_NOT_FOUND', 'Post not found'));
+      return;
+    }
+
+    if (!(await postService.canRead(post, getPostViewer(req)))) {
+      res
+        .status(HTTP_STATUS.FORBIDDEN)
+        .json(
+          createErrorResponse('POST_PASSWORD_REQUIRED', 'Unlock the post to read its comments')
+        );
+      return;
+    }
+
+    const { page, limit } = parsePaginationParams(req.query);
+    const { comments, total } = await commentService.getPostComments(postId, {
+      page,
+      limit,
+      order,
+    });
+    const meta = calculatePaginationMeta(total, page, limit);
+
+    res.status(HTTP_STATUS.OK).json(createPaginatedResponse(comments, meta));
+  })
+);
+
+/**
+ * POST /posts/:id/comments
+ * Add a comment or reply to a post (public or authenticated)
+ * Commenting on a password-protected post needs the X-Post-Unlock-Token header.
+ */
+postCommentsRouter.post(
+  '/',
+  rateLimiters.write,
+  optionalAuth,
+  validateParams(numericIdParamSchema),
+  validateBody(createCommentSchema),
+  asyncHandler(async (req: AuthRequest, res: Response) => {
+    const postId = parseInt((req.params as { id: string }).id, 10);
+    const { content, parentId, authorUrl } = req.body as {
+      content: string;
+      parentId?: number | null;
+      authorName?: string;
+      authorEmail?: string;
+      authorUrl?: string | null;
+    };
+
+    const post = await postService.getPostById(postId);
+    if (!post || post.status !== 'publish') {
+      res
+        .status(HTTP_STATUS.NOT_FOUND)
+        .json(createErrorResponse('POST_NOT_FOUND', 'Post not found'));
+      return;
+    }
+
+    if (!(await postService.canRead(post, getPostViewer(req)))) {
+      res
+        .status(HTTP_STATUS.FORBIDDEN)
+        .json(createErrorResponse('POST_PASSWORD_REQUIRED', 'Unlock the post to comment on it'));
+      return;
+    }
+
+    if (post.commentStatus === 'closed') {
+      res
+        .status(HTTP_STATUS.FORBIDDEN)
+        .json(createErrorResponse('COMMENTS_CLOSED', 'Comments are closed for this post'));
+      return;
+    }
+
+    if (parentId) {
+      const canReply = await commentService.canReplyTo(parentId, postId);
+      if (!canReply) {
+        res
+          .status(HTTP_STATUS.BAD_REQUEST)
+          .json(createErrorResponse('INVALID_PARENT', 'Parent comment not found on this post'));
+        return;
+      }
+    }
+
+    // Authenticated users comment as themselves; guests must identify themselves
+    let { authorName, authorEmail } = req.body as { authorName?: string; authorEmail?: string };
+    if (req.user) {
+      const user = await userService.getUserById(req.user.userId);
+      authorName = user?.username ?? authorName;
+      authorEmail = user?.email ?? req.user.email;
+    }
+
+    if (!authorName || !authorEmail) {
+      res
+        .status(HTTP_STATUS.BAD_REQUEST)
+        .json(
+          createErrorResponse('AUTHOR_REQUIRED', 'Name and email are required to post a comment')
+        );
+      return;
+    }
+
+    const comment = await commentService.createComment({
+      postId,
+      content,
+      parentId,
+      authorId: req.user?.userId ?? null,
+      authorName,
+      authorEmail,
+      authorUrl,
+      authorIp: req.ip,
+      userAgent: req.headers['user-agent'],
+      status: currentUserHasPermission(req, 'comment:moderate') ? 'approved' : 'pending',
+    });
+
+    res
+      .status(HTTP_STATUS.CREATED)
+      .json(createApiResponse(commentService.toPublicComment(comment)));
+  })
+);
+
+/**
+ * GET /comments
+ * Get comments for moderation (requires authentication)
+ */
+router.get(
+  '/',
+  rateLimiters.read,
+  authenticateToken,
+  requirePermission('comment:moderate'),
+  validateQuery(commentQuerySchema),
+  asyncHandler(async (req: AuthRequest, res: Response) => {
+    const { postId, status, order } = req.query as {
+      postId?: number;
+      status?: CommentModerationStatus;
+      order?: CommentQueryParams['order'];
+    };
+
+    const { page, limit } = parsePaginationParams(req.query);
+    const { comments, total } = await commentService.getComments({
+      page,
+      limit,
+      postId,
+      status,
+      order,
+    });
+    const meta = calculatePaginationMeta(total, page, limit);
+
+    res.status(HTTP_STATUS.OK).json(createPaginatedResponse(comments, meta));
+  })
+);
+
+/**
+ * PUT /comments/:id/status
+ * Approve, hold, spam or trash a comment (requires authentication)
+ */
+router.put(
+  '/:id/status',
+  rateLimiters.write,
+  authenticateToken,
+  requirePermission('comment:moderate'),
+  validateParams(numericIdParamSchema),
+  validateBody(updateCommentStatusSchema),
+  asyncHandler(async (req: AuthRequest, res: Response) => {
+    const commentId = parseInt((req.params as { id: string }).id, 10);
+    const { status } = req.body as { status: CommentModerationStatus };
+
+    const comment = await commentService.updateCommentStatus(commentId, status);
+
+    if (!comment) {
+      res
+        .status(HTTP_STATUS.NOT_FOUND)
+        .json(createErrorResponse('COMMENT_NOT_FOUND', 'Comment not found'));
+      return;
+    }
+
+    res.status(HTTP_STATUS.OK).json(createApiResponse(comment));
+  })
+);
+
+/**
+ * DELETE /comments/:id
+ * Permanently delete a comment (requires authentication)
+ */
+router.delete(
+  '/:id',
+  rateLimiters.write,
+  authenticateToken,
+  requirePermission('comment:delete'),
+  validateParams(numericIdParamSchema),
+  asyncHandler(async (req: AuthRequest, res: Response) => {
+    const commentId = parseInt((req.params as { id: string }).id, 10);
+
+    const deleted = await commentService.deleteComment(commentId);
+
+    if (!deleted) {
+      res
+        .status(HTTP_STATUS.NOT_FOUND)
+        .json(createErrorResponse('COMMENT_NOT_FOUND', 'Comment not found'));
+      return;
+    }
+
+    res.status(HTTP_STATUS.OK).json(
+      createApiResponse({
+        message: 'Comment deleted successfully',
+        id: commentId,
+      })
+    );
+  })
+);
+
+export { router as commentsRouter, postCommentsRouter };
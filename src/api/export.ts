@@ -0,0 +1,61 @@
+import { Readable } from 'node:stream';
+import { pipeline } from 'node:stream/promises';
+
+import express from 'express';
+import type { Response } from 'express';
+
+import { HTTP_STATUS } from '@/constants';
+import type { AuthRequest } from '@/middleware/authorization';
+import { authenticateToken, requirePermission } from '@/middleware/authorization';
+import { asyncHandler } from '@/middleware/error';
+import { rateLimiters } from '@/middleware/rate-limiter';
+import { validateQuery } from '@/middleware/validation';
+import { exportService } from '@/services/export';
+import { logger } from '@/services/logger';
+import type { ExportFilters, ExportFormat } from '@/types';
+import { exportQuerySchema } from '@/utils/schemas';
+
+const router = express.Router();
+
+const CONTENT_TYPES: Record<ExportFormat, string> = {
+  wxr: 'application/rss+xml; charset=utf-8',
+  json: 'application/json; charset=utf-8',
+};
+
+const EXTENSIONS: Record<ExportFormat, string> = {
+  wxr: 'xml',
+  json: 'json',
+};
+
+/**
+ * GET /export
+ * Download posts, pages, terms and authors as a WXR file or JSON bundle (admin only)
+ * Filterable by publish date range, author and status.
+ */
+router.get(
+  '/',
+  rateLimiters.read,
+  authenticateToken,
+  requirePermission('admin:access'),
+  validateQuery(exportQuerySchema),
+  asyncHandler(async (req: AuthRequest, res: Response) => {
+    const { format, ...filters } = req.query as unknown as ExportFilters & {
+      format: ExportFormat;
+    };
+    const date = new Date().toISOString().slice(0, 10);
+
+    res.status(HTTP_STATUS.OK).set({
+      'Content-Type': CONTENT_TYPES[format],
+      'Content-Disposition': `attachment; filename="export-${date}.${EXTENSIONS[format]}"`,
+    });
+
+    try {
+      await pipeline(Readable.from(exportService.streamExport(format, filters)), res);
+    } catch (error) {
+      // The response has already started, so the download is cut short instead
+      logger.error('Export stream failed:', error);
+    }
+  })
+);
+
+export { router as exportRouter };
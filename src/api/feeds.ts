@@ -0,0 +1,110 @@
+import express from 'express';
+import type { Request, Response } from 'express';
+
+import { config } from '../../config/index.js';
+
+import { HTTP_STATUS, TAXONOMIES } from '@/constants';
+import { asyncHandler } from '@/middleware/error';
+import { rateLimiters } from '@/middleware/rate-limiter';
+import { validateParams } from '@/middleware/validation';
+import type { FeedFormat, FeedOptions } from '@/services/feed';
+import { feedService } from '@/services/feed';
+import { termService } from '@/services/term';
+import { userService } from '@/services/user';
+import { createErrorResponse } from '@/utils/response';
+import { idParamSchema } from '@/utils/schemas';
+
+const router = express.Router();
+
+const CONTENT_TYPES: Record<FeedFormat, string> = {
+  rss: 'application/rss+xml; charset=utf-8',
+  atom: 'application/atom+xml; charset=utf-8',
+};
+
+/**
+ * Render a feed, answering 304 when the client already has the current version
+ */
+async function sendFeed(
+  req: Request,
+  res: Response,
+  options: Omit<FeedOptions, 'format' | 'selfUrl'>
+): Promise<void> {
+  const format = (req.params as { format: FeedFormat }).format;
+  const selfUrl = `${config.site.url.replace(/\/$/, '')}${req.originalUrl.split('?')[0]}`;
+
+  const feed = await feedService.getFeed({ ...options, format, selfUrl });
+
+  res.set({
+    'Content-Type': CONTENT_TYPES[format],
+    'Cache-Control': 'public, max-age=300',
+    ETag: feed.etag,
+    'Last-Modified': feed.lastModified.toUTCString(),
+  });
+
+  // Checks If-None-Match / If-Modified-Since against the headers above
+  if (req.fresh) {
+    res.status(304).end();
+    return;
+  }
+
+  res.status(HTTP_STATUS.OK).send(feed.body);
+}
+
+/**
+ * GET /feed/rss, GET /feed/atom
+ * Latest published posts
+ */
+router.get(
+  '/:format(rss|atom)',
+  rateLimiters.read,
+  asyncHandler(async (req: Request, res: Response) => {
+    await sendFeed(req, res, {});
+  })
+);
+
+/**
+ * GET /feed/author/:id/rss, GET /feed/author/:id/atom
+ * Latest published posts of an author
+ */
+router.get(
+  '/author/:id/:format(rss|atom)',
+  rateLimiters.read,
+  validateParams(idParamSchema.passthrough()),
+  asyncHandler(async (req: Request, res: Response) => {
+    const { id } = req.params as { id: string };
+
+    const author = await userService.getUserById(id);
+    if (!author) {
+      res
+        .status(HTTP_STATUS.NOT_FOUND)
+        .json(createErrorResponse('AUTHOR_NOT_FOUND', 'Author not found'));
+      return;
+    }
+
+    await sendFeed(req, res, { authorId: id, title: author.username });
+  })
+);
+
+/**
+ * GET /feed/category/:slug/rss, GET /feed/category/:slug/atom
+ * Latest published posts in a category and its subcategories
+ */
+router.get(
+  '/category/:slug/:format(rss|atom)',
+  rateLimiters.read,
+  asyncHandler(async (req: Request, res: Response) => {
+    const { slug } = req.params as { slug: string };
+
+    const category = await termService.getTermBySlug(slug, TAXONOMIES.CATEGORY);
+    if (!category) {
+      res
+        .status(HTTP_STATUS.NOT_FOUND)
+        .json(createErrorResponse('TERM_NOT_FOUND', 'Category not found'));
+      return;
+    }
+
+    await sendFeed(req, res, { category: slug, title: category.name });
+  })
+);
+
+export { router as feedsRouter };
@@ -0,0 +1,66 @@
+import express from 'express';
+import type { Response } from 'express';
+
+import { HTTP_STATUS, WXR_IMPORT_MAX_SIZE } from '@/constants';
+import type { AuthRequest } from '@/middleware/authorization';
+import { authenticateToken, requirePermission } from '@/middleware/authorization';
+import { asyncHandler } from '@/middleware/error';
+import { rateLimiters } from '@/middleware/rate-limiter';
+import { validateQuery } from '@/middleware/validation';
+import { wxrImportService } from '@/services/wxr-import';
+import { createApiResponse, createErrorResponse } from '@/utils/response';
+import { wxrImportQuerySchema } from '@/utils/schemas';
+import type { WxrDocument } from '@/utils/wxr';
+import { parseWxr } from '@/utils/wxr';
+
+const router = express.Router();
+
+/**
+ * POST /import/wxr
+ * Import a WordPress WXR export sent as the raw XML body (admin only)
+ * With ?dryRun=true nothing is written and the report lists what would change.
+ */
+router.post(
+  '/wxr',
+  rateLimiters.write,
+  authenticateToken,
+  requirePermission('admin:access'),
+  express.text({ type: ['application/xml', 'text/xml'], limit: WXR_IMPORT_MAX_SIZE }),
+  validateQuery(wxrImportQuerySchema),
+  asyncHandler(async (req: AuthRequest, res: Response) => {
+    if (!req.user) {
+      res
+        .status(HTTP_STATUS.UNAUTHORIZED)
+        .json(createErrorResponse('UNAUTHORIZED', 'Authentication required'));
+      return;
+    }
+
+    const { dryRun } = req.query as unknown as { dryRun: boolean };
+
+    if (typeof req.body !== 'string' || !req.body.trim()) {
+      res
+        .status(HTTP_STATUS.BAD_REQUEST)
+        .json(createErrorResponse('INVALID_WXR', 'Send the WXR export as an XML request body'));
+      return;
+    }
+
+    let document: WxrDocument;
+    try {
+      document = parseWxr(req.body);
+    } catch (error) {
+      res
+        .status(HTTP_STATUS.BAD_REQUEST)
+        .json(createErrorResponse('INVALID_WXR', (error as Error).message));
+      return;
+    }
+
+    const report = await wxrImportService.importDocument(document, {
+      dryRun,
+      defaultAuthorId: req.user.userId,
+    });
+
+    res.status(dryRun ? HTTP_STATUS.OK : HTTP_STATUS.CREATED).json(createApiResponse(report));
+  })
+);
+
+export { router as importRouter };
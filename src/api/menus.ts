@@ -0,0 +1,388 @@
+import express from 'express';
+import type { Request, Response } from 'express';
+
+import { HTTP_STATUS } from '@/constants';
+import type { AuthRequest } from '@/middleware/authorization';
+import { authenticateToken, requirePermission } from '@/middleware/authorization';
+import { asyncHandler } from '@/middleware/error';
+import { rateLimiters } from '@/middleware/rate-limiter';
+import { validateBody, validateParams, validateQuery } from '@/middleware/validation';
+import { menuService } from '@/services/menu';
+import type { CreateNavMenuItemDto, NavMenuItemOrder, Term, UpdateNavMenuItemDto } from '@/types';
+import {
+  createApiResponse,
+  createErrorResponse,
+  createPaginatedResponse,
+  parsePaginationParams,
+  calculatePaginationMeta,
+} from '@/utils/response';
+import {
+  createMenuItemSchema,
+  createMenuSchema,
+  menuItemParamSchema,
+  menuSlugParamSchema,
+  numericIdParamSchema,
+  paginationSchema,
+  reorderMenuItemsSchema,
+  updateMenuItemSchema,
+  updateMenuSchema,
+} from '@/utils/schemas';
+
+const router = express.Router();
+
+/**
+ * Look up the menu named by the :id param, answering 404 if there is none
+ */
+async function findMenu(req: Request, res: Response): Promise<Term | null> {
+  const menu = await menuService.getMenu(parseInt((req.params as { id: string }).id, 10));
+
+  if (!menu) {
+    res.status(HTTP_STATUS.NOT_FOUND).json(createErrorResponse('MENU_NOT_FOUND', 'Menu not found'));
+  }
+
+  return menu;
+}
+
+/**
+ * GET /menus
+ * List menus with pagination (public)
+ */
+router.get(
+  '/',
+  rateLimiters.read,
+  validateQuery(paginationSchema),
+  asyncHandler(async (req: Request, res: Response) => {
+    const pagination = parsePaginationParams(req.query);
+    const { menus, total } = await menuService.getMenus(pagination.page, pagination.limit);
+
+    const meta = calculatePaginationMeta(total, pagination.page, pagination.limit);
+
+    res.status(HTTP_STATUS.OK).json(createPaginatedResponse(menus, meta));
+  })
+);
+
+/**
+ * POST /menus
+ * Create a menu (requires menu:manage)
+ */
+router.post(
+  '/',
+  rateLimiters.write,
+  authenticateToken,
+  requirePermission('menu:manage'),
+  validateBody(createMenuSchema),
+  asyncHandler(async (req: AuthRequest, res: Response) => {
+    const menu = await menuService.createMenu(req.body);
+
+    res.status(HTTP_STATUS.CREATED).json(createApiResponse(menu));
+  })
+);
+
+/**
+ * GET /menus/slug/:slug
+ * Get a menu by slug with its resolved item tree (public)
+ */
+router.get(
+  '/slug/:slug',
+  rateLimiters.read,
+  validateParams(menuSlugParamSchema),
+  asyncHandler(async (req: Request, res: Response) => {
+    const menu = await menuService.getMenuBySlug((req.params as { slug: string }).slug);
+
+    if (!menu) {
+      res
+        .status(HTTP_STATUS.NOT_FOUND)
+        .json(createErrorResponse('MENU_NOT_FOUND', 'Menu not found'));
+      return;
+    }
+
+    res.status(HTTP_STATUS.OK).json(createApiResponse(await menuService.getMenuTree(menu)));
+  })
+);
+
+/**
+ * GET /menus/:id
+ * Get a menu with its resolved item tree (public)
+ */
+router.get(
+  '/:id',
+  rateLimiters.read,
+  validateParams(numericIdParamSchema),
+  asyncHandler(async (req: Request, res: Response) => {
+    const menu = await findMenu(req, res);
+    if (!menu) return;
+
+    res.status(HTTP_STATUS.OK).json(createApiResponse(await menuService.getMenuTree(menu)));
+  })
+);
+
+/**
+ * PUT /menus/:id
+ * Rename or describe a menu (requires menu:manage)
+ */
+router.put(
+  '/:id',
+  rateLimiters.write,
+  authenticateToken,
+  requirePermission('menu:manage'),
+  validateParams(numericIdParamSchema),
+  validateBody(updateMenuSchema),
+  asyncHandler(async (req: AuthRequest, res: Response) => {
+    const menuId = parseInt((req.params as { id: string }).id, 10);
+
+    const menu = await menuService.updateMenu(menuId, req.body);
+
+    if (!menu) {
+      res
+        .status(HTTP_STATUS.NOT_FOUND)
+        .json(createErrorResponse('MENU_NOT_FOUND', 'Menu not found'));
+      return;
+    }
+
+    res.status(HTTP_STATUS.OK).json(createApiResponse(menu));
+  })
+);
+
+/**
+ * DELETE /menus/:id
+ * Delete a menu and its items (requires menu:manage)
+ */
+router.delete(
+  '/:id',
+  rateLimiters.write,
+  authenticateToken,
+  requirePermission('menu:manage'),
+  validateParams(numericIdParamSchema),
+  asyncHandler(async (req: AuthRequest, res: Response) => {
+    const menuId = parseInt((req.params as { id: string }).id, 10);
+
+    const deleted = await menuService.deleteMenu(menuId);
+
+    if (!deleted) {
+      res
+        .status(HTTP_STATUS.NOT_FOUND)
+        .json(createErrorResponse('MENU_NOT_FOUND', 'Menu not found'));
+      return;
+    }
+
+    res.status(HTTP_STATUS.OK).json(
+      createApiResponse({
+        message: 'Menu deleted successfully',
+        id: menuId,
+      })
+    );
+  })
+);
+
+/**
+ * GET /menus/:id/items
+ * List the items of a menu as stored, without resolving them (requires menu:manage)
+ */
+router.get(
+  '/:id/items',
+  rateLimiters.read,
+  authenticateToken,
+  requirePermission('menu:manage'),
+  validateParams(numericIdParamSchema),
+  asyncHandler(async (req: AuthRequest, res: Response) => {
+    const menu = await findMenu(req, res);
+    if (!menu) return;
+
+    res.status(HTTP_STATUS.OK).json(createApiResponse(await menuService.getItems(menu)));
+  })
+);
+
+/**
+ * POST /menus/:id/items
+ * Add an item linking to a post, page, term or custom URL (requires menu:manage)
+ */
+router.post(
+  '/:id/items',
+  rateLimiters.write,
+  authenticateToken,
+  requirePermission('menu:manage'),
+  validateParams(numericIdParamSchema),
+  validateBody(createMenuItemSchema),
+  asyncHandler(async (req: AuthRequest, res: Response) => {
+    if (!req.user) {
+      res
+        .status(HTTP_STATUS.UNAUTHORIZED)
+        .json(createErrorResponse('UNAUTHORIZED', 'Authentication required'));
+      return;
+    }
+
+    const menu = await findMenu(req, res);
+    if (!menu) return;
+
+    const itemData = req.body as CreateNavMenuItemDto;
+
+    const targetError = await menuService.getTargetError(itemData.type, itemData.objectId);
+    if (targetError) {
+      res
+        .status(HTTP_STATUS.NOT_FOUND)
+        .json(createErrorResponse('MENU_TARGET_NOT_FOUND', targetError));
+      return;
+    }
+
+    if (itemData.parentId) {
+      const parentError = menuService.getParentError(
+        await menuService.getItems(menu),
+        itemData.parentId
+      );
+      if (parentError) {
+        res
+          .status(HTTP_STATUS.UNPROCESSABLE_ENTITY)
+          .json(createErrorResponse('INVALID_PARENT', parentError));
+        return;
+      }
+    }
+
+    const item = await menuService.addItem(menu, itemData, req.user.userId);
+
+    res.status(HTTP_STATUS.CREATED).json(createApiResponse(item));
+  })
+);
+
+/**
+ * PUT /menus/:id/items
+ * Move and reorder several items at once (requires menu:manage)
+ */
+router.put(
+  '/:id/items',
+  rateLimiters.write,
+  authenticateToken,
+  requirePermission('menu:manage'),
+  validateParams(numericIdParamSchema),
+  validateBody(reorderMenuItemsSchema),
+  asyncHandler(async (req: AuthRequest, res: Response) => {
+    const menu = await findMenu(req, res);
+    if (!menu) return;
+
+    const { items } = req.body as { items: NavMenuItemOrder[] };
+
+    const reorderError = menuService.getReorderError(await menuService.getItems(menu), items);
+    if (reorderError) {
+      res
+        .status(HTTP_STATUS.UNPROCESSABLE_ENTITY)
+        .json(createErrorResponse('INVALID_MENU_ORDER', reorderError));
+      return;
+    }
+
+    res.status(HTTP_STATUS.OK).json(createApiResponse(await menuService.reorderItems(menu, items)));
+  })
+);
+
+/**
+ * PUT /menus/:id/items/:itemId
+ * Update the title, target or position of an item (requires menu:manage)
+ */
+router.put(
+  '/:id/items/:itemId',
+  rateLimiters.write,
+  authenticateToken,
+  requirePermission('menu:manage'),
+  validateParams(menuItemParamSchema),
+  validateBody(updateMenuItemSchema),
+  asyncHandler(async (req: AuthRequest, res: Response) => {
+    const menu = await findMenu(req, res);
+    if (!menu) return;
+
+    const itemId = parseInt((req.params as { itemId: string }).itemId, 10);
+    const itemData = req.body as UpdateNavMenuItemDto;
+
+    const items = await menuService.getItems(menu);
+    const item = items.find((candidate) => candidate.id === itemId);
+
+    if (!item) {
+      res
+        .status(HTTP_STATUS.NOT_FOUND)
+        .json(createErrorResponse('MENU_ITEM_NOT_FOUND', 'Menu item not found'));
+      return;
+    }
+
+    const isCustom = item.type === 'custom';
+    if (
+      (isCustom && itemData.objectId !== undefined) ||
+      (!isCustom && itemData.url !== undefined)
+    ) {
+      res
+        .status(HTTP_STATUS.BAD_REQUEST)
+        .json(
+          createErrorResponse(
+            'INVALID_MENU_ITEM',
+            isCustom
+              ? 'Custom items link to a url'
+              : `Items of type '${item.type}' link to an objectId`
+          )
+        );
+      return;
+    }
+
+    if (itemData.objectId !== undefined) {
+      const targetError = await menuService.getTargetError(item.type, itemData.objectId);
+      if (targetError) {
+        res
+          .status(HTTP_STATUS.NOT_FOUND)
+          .json(createErrorResponse('MENU_TARGET_NOT_FOUND', targetError));
+        return;
+      }
+    }
+
+    if (itemData.parentId) {
+      const parentError = menuService.getParentError(items, itemData.parentId, itemId);
+      if (parentError) {
+        res
+          .status(HTTP_STATUS.UNPROCESSABLE_ENTITY)
+          .json(createErrorResponse('INVALID_PARENT', parentError));
+        return;
+      }
+    }
+
+    const updated = await menuService.updateItem(menu, itemId, itemData);
+
+    if (!updated) {
+      res
+        .status(HTTP_STATUS.NOT_FOUND)
+        .json(createErrorResponse('MENU_ITEM_NOT_FOUND', 'Menu item not found'));
+      return;
+    }
+
+    res.status(HTTP_STATUS.OK).json(createApiResponse(updated));
+  })
+);
+
+/**
+ * DELETE /menus/:id/items/:itemId
+ * Remove an item; its children move up a level (requires menu:manage)
+ */
+router.delete(
+  '/:id/items/:itemId',
+  rateLimiters.write,
+  authenticateToken,
+  requirePermission('menu:manage'),
+  validateParams(menuItemParamSchema),
+  asyncHandler(async (req: AuthRequest, res: Response) => {
+    const menu = await findMenu(req, res);
+    if (!menu) return;
+
+    const itemId = parseInt((req.params as { itemId: string }).itemId, 10);
+
+    const deleted = await menuService.deleteItem(menu, itemId);
+
+    if (!deleted) {
+      res
+        .status(HTTP_STATUS.NOT_FOUND)
+        .json(createErrorResponse('MENU_ITEM_NOT_FOUND', 'Menu item not found'));
+      return;
+    }
+
+    res.status(HTTP_STATUS.OK).json(
+      createApiResponse({
+        message: 'Menu item removed successfully',
+        id: itemId,
+      })
+    );
+  })
+);
+
+export { router as menusRouter };
@@ -0,0 +1,51 @@
+import express from 'express';
+import type { Response } from 'express';
+
+import { HTTP_STATUS, POST_UNLOCK_TOKEN_HEADER } from '@/constants';
+import type { AuthRequest } from '@/middleware/authorization';
+import { getCurrentUserPermissions, optionalAuth } from '@/middleware/authorization';
+import { asyncHandler } from '@/middleware/error';
+import { rateLimiters } from '@/middleware/rate-limiter';
+import { validateQuery } from '@/middleware/validation';
+import { pageService } from '@/services/page';
+import { postService } from '@/services/post';
+import { createApiResponse, createErrorResponse } from '@/utils/response';
+import { pageQuerySchema } from '@/utils/schemas';
+
+const router = express.Router();
+
+/**
+ * GET /pages/:path
+ * Get a published page by its slug path, e.g. /pages/about/team (public)
+ * Pass ?locale= to resolve the path among that locale's pages.
+ */
+router.get(
+  '/*',
+  rateLimiters.read,
+  optionalAuth,
+  validateQuery(pageQuerySchema),
+  asyncHandler(async (req: AuthRequest, res: Response) => {
+    const path = (req.params as Record<string, string>)[0] ?? '';
+    const { locale } = req.query as { locale?: string };
+
+    const pageId = await pageService.getPageIdByPath(path, locale);
+    const page = pageId ? await postService.getPostById(pageId) : null;
+
+    if (!page) {
+      res
+        .status(HTTP_STATUS.NOT_FOUND)
+        .json(createErrorResponse('PAGE_NOT_FOUND', 'Page not found'));
+      return;
+    }
+
+    const visiblePage = await postService.presentPost(page, {
+      userId: req.user?.userId,
+      permissions: getCurrentUserPermissions(req),
+      unlockToken: req.get(POST_UNLOCK_TOKEN_HEADER),
+    });
+
+    res.status(HTTP_STATUS.OK).json(createApiResponse(visiblePage));
+  })
+);
+
+export { router as pagesRouter };
@@ -1,47 +1,406 @@
 import express from 'express';
 import type { Request, Response } from 'express';
 
-import { HTTP_STATUS } from '@/constants';
-import type {
-  AuthRequest} from '@/middleware/authorization';
+import { HTTP_STATUS, TAXONOMIES } from '@/constants';
+import type { AuthRequest } from '@/middleware/authorization';
 import {
   authenticateToken,
+  currentUserHasPermission,
+  getCurrentUserPermissions,
   requirePermission,
-  optionalAuth
+  requireResolvedPermission,
+  optionalAuth,
 } from '@/middleware/authorization';
 import { asyncHandler } from '@/middleware/error';
+import {
+  getPostTypeOf,
+  getPostViewer,
+  getPostTypePermission,
+  requirePostPermission,
+} from '@/middleware/post-authorization';
 import { rateLimiters } from '@/middleware/rate-limiter';
 import { validateBody, validateParams, validateQuery } from '@/middleware/validation';
+import { pageService } from '@/services/page';
 import { postService } from '@/services/post';
-import type { PostQueryParams, PostStatus, PostType } from '@/types';
+import { postLockService } from '@/services/post-lock';
+import { postMetaService } from '@/services/post-meta';
+import { postPreviewService } from '@/services/post-preview';
+import { postTypeRegistry } from '@/services/post-type-registry';
+import { postViewService } from '@/services/post-view';
+import { termService } from '@/services/term';
+import type {
+  BulkPostAction,
+  BulkPostResult,
+  PageOrderItem,
+  PopularPostPeriod,
+  Post,
+  PostEditLock,
+  PostMetaValue,
+  PostQueryParams,
+  PostStatus,
+  PostType,
+} from '@/types';
 import {
   createApiResponse,
   createErrorResponse,
   createPaginatedResponse,
+  parseCursorParams,
   parsePaginationParams,
+  calculateCursorPaginationMeta,
   calculatePaginationMeta,
 } from '@/utils/response';
 import {
+  acquirePostLockSchema,
+  approvePostSchema,
+  bulkPostSchema,
   createPostSchema,
+  createPreviewLinkSchema,
+  previewLinkParamSchema,
+  previewTokenParamSchema,
+  rejectPostSchema,
+  reorderPagesSchema,
+  unlockPostSchema,
   updatePostSchema,
   idParamSchema,
+  numericIdParamSchema,
+  paginationSchema,
+  popularPostsQuerySchema,
+  postMetaIncludeSchema,
+  postLockTakeoverSchema,
+  postMetaParamSchema,
   postQuerySchema,
+  postSlugQuerySchema,
+  setPostMetaSchema,
 } from '@/utils/schemas';
 
 const router = express.Router();
 
+/**
+ * Find category/tag IDs in the request body that do not exist
+ */
+async function findMissingPostTerms(body: {
+  categories?: number[];
+  tags?: number[];
+}): Promise<{ categories: number[]; tags: number[] }> {
+  const [categories, tags] = await Promise.all([
+    body.categories?.length
+      ? termService.findMissingTermIds(body.categories, TAXONOMIES.CATEGORY)
+      : [],
+    body.tags?.length ? termService.findMissingTermIds(body.tags, TAXONOMIES.POST_TAG) : [],
+  ]);
+
+  return { categories, tags };
+}
+
+/**
+ * Check that `parentId` can be the parent of a page: it must be an existing page
+ * and, when re-parenting, neither the page itself nor one of its descendants
+ * Posts of other hierarchical types are checked against posts of their own type.
+ */
+async function getPageParentError(
+  parentId: string,
+  pageUuid?: string,
+  type: PostType = 'page'
+): Promise<string | null> {
+  const parent = await pageService.getPageByUuid(parentId, type);
+  if (!parent) {
+    return type === 'page' ? 'Parent page not found' : 'Parent post not found';
+  }
+
+  if (pageUuid && (await pageService.wouldCreateCycle(pageUuid, parentId))) {
+    return 'A page cannot be nested under itself or one of its descendants';
+  }
+
+  return null;
+}
+
+/**
+ * Check that a post of `type` can be a translation of `translationOf`: it must
+ * be an existing post of the same type
+ */
+async function getTranslationError(
+  translationOf: number,
+  type: PostType
+): Promise<{ status: number; code: string; message: string } | null> {
+  const sourceType = await postService.getPostType(translationOf);
+
+  if (!sourceType) {
+    return {
+      status: HTTP_STATUS.NOT_FOUND,
+      code: 'TRANSLATION_SOURCE_NOT_FOUND',
+      message: 'Post to translate not found',
+    };
+  }
+
+  if (sourceType !== type) {
+    return {
+      status: HTTP_STATUS.BAD_REQUEST,
+      code: 'INVALID_TRANSLATION',
+      message: `A translation must be of the same type as the post it translates ('${sourceType}')`,
+    };
+  }
+
+  return null;
+}
+
+/**
+ * Permissions a caller needs for a bulk action, as for the matching single-post route
+ * The second one lets them act on posts written by others.
+ */
+const BULK_ACTION_PERMISSIONS: Record<BulkPostAction['action'], [string, string]> = {
+  publish: ['post:update', 'post:update_others'],
+  unpublish: ['post:update', 'post:update_others'],
+  set_categories: ['post:update', 'post:update_others'],
+  set_author: ['post:update', 'post:update_others'],
+  trash: ['post:delete', 'post:delete_others'],
+};
+
+/**
+ * Status a bulk action moves posts to, if it changes the status at all
+ */
+const BULK_ACTION_STATUSES: Partial<Record<BulkPostAction['action'], PostStatus>> = {
+  publish: 'publish',
+  unpublish: 'draft',
+};
+
+/**
+ * Check whether the caller may apply a bulk action to one post
+ * Returns a per-item error, or null when the action is allowed.
+ */
+function getBulkItemError(
+  req: AuthRequest,
+  post: Post,
+  action: BulkPostAction
+): BulkPostResult['error'] | null {
+  const permissions = getTypePermissions(req, post.type);
+  const [permission, othersPermission] = BULK_ACTION_PERMISSIONS[action.action];
+
+  if (
+    !permissions.includes(permission) ||
+    (post.authorId !== req.user?.userId && !permissions.includes(othersPermission))
+  ) {
+    return { code: 'FORBIDDEN', message: 'Insufficient permissions' };
+  }
+
+  // Reassigning posts to another author requires an elevated permission
+  if (action.action === 'set_author' && !permissions.includes('post:update_others')) {
+    return { code: 'FORBIDDEN', message: 'You cannot reassign the author of a post' };
+  }
+
+  if (post.status === 'trash') {
+    return { code: 'POST_TRASHED', message: 'Restore the post before editing it' };
+  }
+
+  if (action.action === 'trash') {
+    return null;
+  }
+
+  // Once live, a post can only be edited by users who can publish it
+  if (
+    post.status !== 'draft' &&
+    post.status !== 'pending' &&
+    !permissions.includes('post:publish')
+  ) {
+    return { code: 'FORBIDDEN', message: 'You cannot edit a post once it is published' };
+  }
+
+  const status = BULK_ACTION_STATUSES[action.action];
+  const statusError = status ? postTypeRegistry.getStatusError(post.type, status) : null;
+
+  if (statusError) {
+    return { code: 'INVALID_STATUS', message: statusError };
+  }
+
+  const transitionError = status
+    ? postService.getStatusTransitionError(post.status, status, permissions)
+    : null;
+
+  if (transitionError) {
+    return { code: 'INVALID_STATUS_TRANSITION', message: transitionError };
+  }
+
+  return null;
+}
+
+/**
+ * The caller's permissions over posts of a type, named as post permissions
+ */
+const getTypePermissions = (req: AuthRequest, type: PostType): string[] =>
+  postTypeRegistry.toPostPermissions(type, getCurrentUserPermissions(req));
+
+/**
+ * Trashed posts are only visible to users who could delete them
+ */
+const canViewTrashedPost = (req: AuthRequest, post: Post): boolean => {
+  const permissions = getTypePermissions(req, post.type);
+
+  return (
+    permissions.includes('post:delete_others') ||
+    (permissions.includes('post:delete') && post.authorId === req.user?.userId)
+  );
+};
+
+/**
+ * The edit lock another user holds on a post, or null when the caller may write to it
+ * With `takeover` the lock is taken over instead, as on PUT /posts/:id.
+ */
+const getBlockingLock = async (
+  postId: number,
+  userId: string | undefined,
+  takeover = false
+): Promise<PostEditLock | null> => {
+  const lock = await postLockService.getLock(postId);
+  if (!lock || lock.userId === userId) {
+    return null;
+  }
+
+  if (!takeover) {
+    return lock;
+  }
+
+  if (!userId) {
+    return lock;
+  }
+
+  await postLockService.acquireLock(postId, userId, true);
+  return null;
+};
+
+/**
+ * Why the caller may not read the custom fields of a post, or null when they may
+ * Fields follow the post: trashed posts are hidden as in GET /posts/:id and
+ * password-protected ones need an unlock token, as their content does.
+ */
+const getMetaAccessError = async (
+  req: AuthRequest,
+  postId: number
+): Promise<{ status: number; code: string; message: string } | null> => {
+  const post = await postService.getPostById(postId);
+
+  if (!post || (post.status === 'trash' && !canViewTrashedPost(req, post))) {
+    return { status: HTTP_STATUS.NOT_FOUND, code: 'POST_NOT_FOUND', message: 'Post not found' };
+  }
+
+  if (!(await postService.canRead(post, getPostViewer(req)))) {
+    return {
+      status: HTTP_STATUS.FORBIDDEN,
+      code: 'POST_PASSWORD_REQUIRED',
+      message: 'Unlock the post to read its fields',
+    };
+  }
+
+  return null;
+};
+
 /**
  * POST /posts
  * Create a new post (requires authentication)
+ * The caller is the author unless they may act on others' posts.
  */
 router.post(
   '/',
   rateLimiters.write,
   authenticateToken,
-  requirePermission('post:create'),
   validateBody(createPostSchema),
+  requireResolvedPermission((req) => postTypeRegistry.getPermission(req.body.type, 'create')),
   asyncHandler(async (req: AuthRequest, res: Response) => {
-    const { authorId } = req.body;
+    if (!req.user) {
+      res
+        .status(HTTP_STATUS.UNAUTHORIZED)
+        .json(createErrorResponse('UNAUTHORIZED', 'Authentication required'));
+      return;
+    }
+
+    const { status, publishedAt, type, locale, slug, translationOf } = req.body as {
+      status: PostStatus;
+      publishedAt?: string;
+      type: PostType;
+      locale: string;
+      slug?: string;
+      translationOf?: number;
+    };
+    const permissions = getTypePermissions(req, type);
+
+    // Posts can only be created on behalf of someone else with an elevated permission
+    const authorId: string =
+      req.body.authorId && permissions.includes('post:update_others')
+        ? req.body.authorId
+        : req.user.userId;
+
+    const statusError = postTypeRegistry.getStatusError(type, status);
+    if (statusError) {
+      res.status(HTTP_STATUS.BAD_REQUEST).json(createErrorResponse('INVALID_STATUS', statusError));
+      return;
+    }
+
+    const missingMeta = postTypeRegistry.getMissingMeta(type, Object.keys(req.body.meta ?? {}));
+    if (missingMeta.length > 0) {
+      res
+        .status(HTTP_STATUS.BAD_REQUEST)
+        .json(
+          createErrorResponse('META_REQUIRED', 'Required meta fields are missing', { missingMeta })
+        );
+      return;
+    }
+
+    // Scheduled posts need a publish date
+    if (status === 'future' && !publishedAt) {
+      res
+        .status(HTTP_STATUS.BAD_REQUEST)
+        .json(
+          createErrorResponse('PUBLISH_DATE_REQUIRED', 'Scheduled posts require a publishedAt date')
+        );
+      return;
+    }
+
+    // New posts start as drafts; contributors may only submit them for review
+    const transitionError = postService.getStatusTransitionError('draft', status, permissions);
+    if (transitionError) {
+      res
+        .status(HTTP_STATUS.FORBIDDEN)
+        .json(createErrorResponse('INVALID_STATUS_TRANSITION', transitionError));
+      return;
+    }
+
+    // Pages, like posts of any hierarchical type, may only be nested under their own kind
+    if (postTypeRegistry.isHierarchical(type) && req.body.parentId) {
+      const parentError = await getPageParentError(req.body.parentId, undefined, type);
+      if (parentError) {
+        res
+          .status(HTTP_STATUS.BAD_REQUEST)
+          .json(createErrorResponse('INVALID_PARENT', parentError));
+        return;
+      }
+    }
+
+    // A translation joins the group of the post it translates, one post per locale
+    if (translationOf) {
+      const translationError = await getTranslationError(translationOf, type);
+      if (translationError) {
+        res
+          .status(translationError.status)
+          .json(createErrorResponse(translationError.code, translationError.message));
+        return;
+      }
+
+      const translationId = await postService.findTranslationId(translationOf, locale);
+      if (translationId) {
+        res.status(HTTP_STATUS.CONFLICT).json(
+          createErrorResponse('TRANSLATION_EXISTS', `A translation in '${locale}' already exists`, {
+            translationId,
+          })
+        );
+        return;
+      }
+    }
+
+    // Slugs only need to be unique within a locale
+    if (slug && (await postService.slugExists(slug, locale))) {
+      res
+        .status(HTTP_STATUS.CONFLICT)
+        .json(createErrorResponse('SLUG_EXISTS', `Slug '${slug}' is already used in '${locale}'`));
+      return;
+    }
 
     // Check if author exists
     const authorExists = await postService.authorExists(authorId);
@@ -52,8 +411,28 @@ router.post(
       return;
     }
 
+    // Check if assigned categories and tags exist
+    const missingTerms = await findMissingPostTerms(req.body);
+    if (missingTerms.categories.length > 0 || missingTerms.tags.length > 0) {
+      res
+        .status(HTTP_STATUS.NOT_FOUND)
+        .json(createErrorResponse('TERM_NOT_FOUND', 'One or more terms not found', missingTerms));
+      return;
+    }
+
     // Create post
-    const post = await postService.createPost(req.body);
+    let post: Post;
+    try {
+      post = await postService.createPost({ ...req.body, authorId });
+    } catch (error) {
+      // Another post took the slug after it was checked
+      if ((error as { code?: string }).code !== 'P2002') throw error;
+
+      res
+        .status(HTTP_STATUS.CONFLICT)
+        .json(createErrorResponse('SLUG_EXISTS', `The slug is already used in '${locale}'`));
+      return;
+    }
 
     res.status(HTTP_STATUS.CREATED).json(createApiResponse(post));
   })
@@ -62,6 +441,8 @@ router.post(
 /**
  * GET /posts
  * Get all posts with filtering and pagination (public or authenticated)
+ * With a `cursor` parameter (empty for the first page) pages are addressed by
+ * cursor instead of number, and the total is only counted with includeTotal=true.
  */
 router.get(
   '/',
@@ -69,207 +450,1323 @@ router.get(
   optionalAuth,
   validateQuery(postQuerySchema),
   asyncHandler(async (req: AuthRequest, res: Response) => {
-    const { status, type, authorId, search, orderBy, order } = req.query as {
+    const {
+      status,
+      type,
+      authorId,
+      locale,
+      search,
+      category,
+      tag,
+      metaKey,
+      metaValue,
+      meta,
+      orderBy,
+      order,
+    } = req.query as {
       status?: PostStatus;
       type?: PostType;
       authorId?: string;
+      locale?: string;
       search?: string;
+      category?: string;
+      tag?: string;
+      metaKey?: string;
+      metaValue?: string;
+      meta?: string[];
       orderBy?: PostQueryParams['orderBy'];
       order?: PostQueryParams['order'];
     };
 
-    const pagination = parsePaginationParams(req.query);
-    const { posts, total } = await postService.getPosts({
-      page: pagination.page,
-      limit: pagination.limit,
+    const filters = {
       status,
       type,
       authorId,
+      locale,
       search,
+      category,
+      tag,
+      metaKey,
+      metaValue,
+      meta,
       orderBy,
       order,
-    });
-
-    const meta = calculatePaginationMeta(total, pagination.page, pagination.limit);
+    };
+    const viewer = getPostViewer(req);
 
-    res.status(HTTP_STATUS.OK).json(createPaginatedResponse(posts, meta));
-  })
-);
+    // Listing the trash requires the right to delete posts of that type; users
+    // who cannot delete others' posts only see their own
+    if (status === 'trash') {
+      const permissions = getTypePermissions(req, type ?? 'post');
 
-/**
- * GET /posts/:id
- * Get post by ID (public or authenticated)
- */
-router.get(
-  '/:id',
-  rateLimiters.read,
-  optionalAuth,
-  validateParams(idParamSchema),
-  asyncHandler(async (req: AuthRequest, res: Response) => {
-    const { id } = req.params as { id: string };
-    const postId = parseInt(id, 10);
+      if (!req.user || !permissions.includes('post:delete')) {
+        res
+          .status(HTTP_STATUS.FORBIDDEN)
+          .json(createErrorResponse('FORBIDDEN', 'You cannot list trashed posts'));
+        return;
+      }
 
-    if (isNaN(postId)) {
-      res
-        .status(HTTP_STATUS.BAD_REQUEST)
-        .json(createErrorResponse('INVALID_ID', 'Invalid post ID'));
-      return;
+      if (!permissions.includes('post:delete_others')) {
+        filters.authorId = req.user.userId;
+      }
     }
 
-    const post = await postService.getPostById(postId);
+    const cursorParams = parseCursorParams(req.query);
+    if (cursorParams) {
+      const page = await postService.getPostsByCursor({ ...filters, ...cursorParams });
+
+      if (!page) {
+        res
+          .status(HTTP_STATUS.BAD_REQUEST)
+          .json(createErrorResponse('INVALID_CURSOR', 'Cursor does not match this query'));
+        return;
+      }
+
+      const items = await Promise.all(
+        page.items.map((post) => postService.presentPost(post, viewer))
+      );
 
-    if (!post) {
       res
-        .status(HTTP_STATUS.NOT_FOUND)
-        .json(createErrorResponse('POST_NOT_FOUND', 'Post not found'));
+        .status(HTTP_STATUS.OK)
+        .json(
+          createPaginatedResponse(items, calculateCursorPaginationMeta(page, cursorParams.limit))
+        );
       return;
     }
 
-    res.status(HTTP_STATUS.OK).json(createApiResponse(post));
+    const pagination = parsePaginationParams(req.query);
+    const { posts, total } = await postService.getPosts({
+      page: pagination.page,
+      limit: pagination.limit,
+      ...filters,
+    });
+
+    const paginationMeta = calculatePaginationMeta(total, pagination.page, pagination.limit);
+    const items = await Promise.all(posts.map((post) => postService.presentPost(post, viewer)));
+
+    res.status(HTTP_STATUS.OK).json(createPaginatedResponse(items, paginationMeta));
   })
 );
 
 /**
- * GET /posts/slug/:slug
- * Get post by slug (public)
+ * GET /posts/review-queue
+ * Pending posts awaiting review, oldest submission first (requires post:review)
  */
 router.get(
-  '/slug/:slug',
+  '/review-queue',
   rateLimiters.read,
-  asyncHandler(async (req: Request, res: Response) => {
-    const { slug } = req.params as { slug: string };
+  authenticateToken,
+  requirePermission('post:review'),
+  validateQuery(paginationSchema),
+  asyncHandler(async (req: AuthRequest, res: Response) => {
+    const { page, limit } = parsePaginationParams(req.query);
+    const { posts, total } = await postService.getPosts({
+      page,
+      limit,
+      status: 'pending',
+      orderBy: 'modified',
+      order: 'asc',
+    });
+    const meta = calculatePaginationMeta(total, page, limit);
 
-    const post = await postService.getPostBySlug(slug);
+    res.status(HTTP_STATUS.OK).json(createPaginatedResponse(posts, meta));
+  })
+);
 
-    if (!post) {
-      res
-        .status(HTTP_STATUS.NOT_FOUND)
-        .json(createErrorResponse('POST_NOT_FOUND', 'Post not found'));
-      return;
-    }
+/**
+ * GET /posts/tree
+ * Published pages as a nested tree, siblings ordered by menuOrder (public)
+ */
+router.get(
+  '/tree',
+  rateLimiters.read,
+  asyncHandler(async (_req: Request, res: Response) => {
+    const tree = await pageService.getPageTree();
 
-    res.status(HTTP_STATUS.OK).json(createApiResponse(post));
+    res.status(HTTP_STATUS.OK).json(createApiResponse(tree));
   })
 );
 
 /**
- * PUT /posts/:id
- * Update post by ID (requires authentication)
+ * PUT /posts/reorder
+ * Set the menuOrder of several pages at once (requires post:update_others)
  */
 router.put(
-  '/:id',
+  '/reorder',
   rateLimiters.write,
   authenticateToken,
-  requirePermission('post:update'),
-  validateParams(idParamSchema),
-  validateBody(updatePostSchema),
+  requirePermission('post:update', 'post:update_others'),
+  validateBody(reorderPagesSchema),
   asyncHandler(async (req: AuthRequest, res: Response) => {
-    const { id } = req.params as { id: string };
-    const postId = parseInt(id, 10);
-
-    if (isNaN(postId)) {
-      res
-        .status(HTTP_STATUS.BAD_REQUEST)
-        .json(createErrorResponse('INVALID_ID', 'Invalid post ID'));
-      return;
-    }
+    const { items } = req.body as { items: PageOrderItem[] };
 
-    // Check if post exists
-    const existingPost = await postService.getPostById(postId);
-    if (!existingPost) {
+    const missingIds = await pageService.findMissingPageIds(items.map((item) => item.id));
+    if (missingIds.length > 0) {
       res
         .status(HTTP_STATUS.NOT_FOUND)
-        .json(createErrorResponse('POST_NOT_FOUND', 'Post not found'));
+        .json(createErrorResponse('PAGE_NOT_FOUND', 'One or more pages not found', { missingIds }));
       return;
     }
 
-    const post = await postService.updatePost(postId, req.body);
-
-    if (!post) {
-      res
-        .status(HTTP_STATUS.INTERNAL_SERVER_ERROR)
-        .json(createErrorResponse('UPDATE_FAILED', 'Failed to update post'));
-      return;
-    }
+    await pageService.reorderPages(items);
 
-    res.status(HTTP_STATUS.OK).json(createApiResponse(post));
+    res.status(HTTP_STATUS.OK).json(
+      createApiResponse({
+        message: 'Pages reordered successfully',
+        count: items.length,
+      })
+    );
   })
 );
 
 /**
- * DELETE /posts/:id
- * Delete post by ID (requires authentication)
+ * POST /posts/bulk
+ * Apply one action to several posts in a single transaction
+ * Each post is checked like on the single-post routes; posts that fail a check,
+ * or that another user holds the edit lock of, are reported in `results` and
+ * left unchanged while the others are updated.
  */
-router.delete(
-  '/:id',
+router.post(
+  '/bulk',
   rateLimiters.write,
   authenticateToken,
-  requirePermission('post:delete'),
-  validateParams(idParamSchema),
+  validateBody(bulkPostSchema),
   asyncHandler(async (req: AuthRequest, res: Response) => {
-    const { id } = req.params as { id: string };
-    const postId = parseInt(id, 10);
+    const { ids, ...action } = req.body as BulkPostAction & { ids: number[] };
 
-    if (isNaN(postId)) {
+    if (action.action === 'set_author' && !(await postService.authorExists(action.authorId))) {
       res
-        .status(HTTP_STATUS.BAD_REQUEST)
-        .json(createErrorResponse('INVALID_ID', 'Invalid post ID'));
+        .status(HTTP_STATUS.NOT_FOUND)
+        .json(createErrorResponse('AUTHOR_NOT_FOUND', 'Author not found'));
       return;
     }
 
-    const deleted = await postService.deletePost(postId);
+    if (action.action === 'set_categories') {
+      const missingTerms = await findMissingPostTerms(action);
+      if (missingTerms.categories.length > 0) {
+        res
+          .status(HTTP_STATUS.NOT_FOUND)
+          .json(createErrorResponse('TERM_NOT_FOUND', 'One or more terms not found', missingTerms));
+        return;
+      }
+    }
 
-    if (!deleted) {
-      res
-        .status(HTTP_STATUS.NOT_FOUND)
-        .json(createErrorResponse('POST_NOT_FOUND', 'Post not found'));
-      return;
+    const posts = new Map((await postService.getPostsByIds(ids)).map((post) => [post.id, post]));
+    const errors = new Map<number, NonNullable<BulkPostResult['error']>>();
+
+    for (const id of ids) {
+      const post = posts.get(id);
+      const error = post
+        ? getBulkItemError(req, post, action)
+        : { code: 'POST_NOT_FOUND', message: 'Post not found' };
+
+      if (error) {
+        errors.set(id, error);
+      } else if (await getBlockingLock(id, req.user?.userId)) {
+        errors.set(id, { code: 'POST_LOCKED', message: 'Another user is editing this post' });
+      }
     }
 
+    const allowedIds = ids.filter((id) => !errors.has(id));
+    const updated = allowedIds.length
+      ? await postService.bulkUpdate(allowedIds, action, req.user?.userId)
+      : [];
+    const updatedById = new Map(updated.map((post) => [post.id, post]));
+
+    const results: BulkPostResult[] = ids.map((id) => {
+      const post = updatedById.get(id);
+      if (post) {
+        return { id, success: true, post };
+      }
+
+      return {
+        id,
+        success: false,
+        error: errors.get(id) ?? { code: 'POST_NOT_FOUND', message: 'Post not found' },
+      };
+    });
+
     res.status(HTTP_STATUS.OK).json(
       createApiResponse({
-        message: 'Post deleted successfully',
-        id: postId,
+        action: action.action,
+        succeeded: results.filter((result) => result.success).length,
+        failed: results.filter((result) => !result.success).length,
+        results,
       })
     );
   })
 );
 
 /**
- * GET /posts/author/:authorId
- * Get posts by author
+ * GET /posts/popular
+ * Most viewed published posts over a period: 1d, 7d (default), 30d or all (public)
  */
 router.get(
-  '/author/:authorId',
+  '/popular',
   rateLimiters.read,
-  validateParams(idParamSchema),
-  validateQuery(postQuerySchema.partial()),
-  asyncHandler(async (req: Request, res: Response) => {
-    const { authorId } = req.params as { authorId: string };
-    const { page, limit } = parsePaginationParams(req.query);
+  optionalAuth,
+  validateQuery(popularPostsQuerySchema),
+  asyncHandler(async (req: AuthRequest, res: Response) => {
+    const { period, limit, type } = req.query as unknown as {
+      period: PopularPostPeriod;
+      limit: number;
+      type?: PostType;
+    };
 
-    const { posts, total } = await postService.getPostsByAuthor(authorId, page, limit);
-    const meta = calculatePaginationMeta(total, page, limit);
+    const posts = await postService.getPopularPosts(period, limit, type);
+    const viewer = getPostViewer(req);
+    const items = await Promise.all(posts.map((post) => postService.presentPost(post, viewer)));
 
-    res.status(HTTP_STATUS.OK).json(createPaginatedResponse(posts, meta));
+    res.status(HTTP_STATUS.OK).json(createApiResponse(items));
   })
 );
 
 /**
- * GET /posts/published
- * Get published posts
+ * GET /posts/types
+ * Registered post types with their statuses, required meta and permissions (public)
  */
 router.get(
-  '/published',
+  '/types',
   rateLimiters.read,
-  validateQuery(postQuerySchema.partial()),
-  asyncHandler(async (req: Request, res: Response) => {
-    const { page, limit } = parsePaginationParams(req.query);
-
-    const { posts, total } = await postService.getPublishedPosts(page, limit);
-    const meta = calculatePaginationMeta(total, page, limit);
+  asyncHandler(async (_req: Request, res: Response) => {
+    res.status(HTTP_STATUS.OK).json(createApiResponse(postTypeRegistry.list()));
+  })
+);
 
-    res.status(HTTP_STATUS.OK).json(createPaginatedResponse(posts, meta));
+/**
+ * GET /posts/:id
+ * Get post by ID (public or authenticated)
+ */
+router.get(
+  '/:id',
+  rateLimiters.read,
+  optionalAuth,
+  validateParams(numericIdParamSchema),
+  validateQuery(postMetaIncludeSchema),
+  asyncHandler(async (req: AuthRequest, res: Response) => {
+    const { id } = req.params as { id: string };
+    const { meta } = req.query as { meta?: string[] };
+    const postId = parseInt(id, 10);
+
+    if (isNaN(postId)) {
+      res
+        .status(HTTP_STATUS.BAD_REQUEST)
+        .json(createErrorResponse('INVALID_ID', 'Invalid post ID'));
+      return;
+    }
+
+    const post = await postService.getPostById(postId);
+
+    if (!post || (post.status === 'trash' && !canViewTrashedPost(req, post))) {
+      res
+        .status(HTTP_STATUS.NOT_FOUND)
+        .json(createErrorResponse('POST_NOT_FOUND', 'Post not found'));
+      return;
+    }
+
+    if (meta?.length) {
+      await postMetaService.attachMeta([post], meta);
+    }
+
+    // Signed-in users see who is editing the post
+    if (req.user) {
+      post.lock = await postLockService.getLock(postId);
+    }
+
+    // Signed-in users also see translations that are not published yet
+    post.translations = await postService.getTranslations(post, Boolean(req.user));
+
+    const visiblePost = await postService.presentPost(post, getPostViewer(req));
+
+    res.status(HTTP_STATUS.OK).json(createApiResponse(visiblePost));
+  })
+);
+
+/**
+ * GET /posts/preview/:token
+ * A post as it was when the preview link was created (public, no account needed)
+ */
+router.get(
+  '/preview/:token',
+  rateLimiters.read,
+  validateParams(previewTokenParamSchema),
+  asyncHandler(async (req: Request, res: Response) => {
+    const { token } = req.params as { token: string };
+
+    const preview = await postService.getPreview(token);
+
+    if (!preview) {
+      res
+        .status(HTTP_STATUS.NOT_FOUND)
+        .json(createErrorResponse('PREVIEW_NOT_FOUND', 'Preview link is invalid or has expired'));
+      return;
+    }
+
+    res.status(HTTP_STATUS.OK).json(createApiResponse(preview));
+  })
+);
+
+/**
+ * GET /posts/slug/:slug
+ * Get post by slug (public)
+ * Former slugs answer with a 301 pointing at the current one.
+ */
+router.get(
+  '/slug/:slug',
+  rateLimiters.read,
+  optionalAuth,
+  validateQuery(postSlugQuerySchema),
+  asyncHandler(async (req: AuthRequest, res: Response) => {
+    const { slug } = req.params as { slug: string };
+    const { meta, locale } = req.query as { meta?: string[]; locale?: string };
+
+    const post = await postService.getPostBySlug(slug, locale);
+
+    if (!post) {
+      // Redirect links that use a slug the post has since been renamed from
+      const canonicalSlug = await postService.getCanonicalSlug(slug, locale);
+      if (canonicalSlug) {
+        const localeQuery = locale ? `?locale=${encodeURIComponent(locale)}` : '';
+        res
+          .status(HTTP_STATUS.MOVED_PERMANENTLY)
+          .location(`${req.baseUrl}/slug/${encodeURIComponent(canonicalSlug)}${localeQuery}`)
+          .json(createApiResponse({ canonicalSlug }));
+        return;
+      }
+
+      res
+        .status(HTTP_STATUS.NOT_FOUND)
+        .json(createErrorResponse('POST_NOT_FOUND', 'Post not found'));
+      return;
+    }
+
+    if (post.status === 'trash' && !canViewTrashedPost(req, post)) {
+      res
+        .status(HTTP_STATUS.NOT_FOUND)
+        .json(createErrorResponse('POST_NOT_FOUND', 'Post not found'));
+      return;
+    }
+
+    if (meta?.length) {
+      await postMetaService.attachMeta([post], meta);
+    }
+
+    post.translations = await postService.getTranslations(post, Boolean(req.user));
+
+    const visiblePost = await postService.presentPost(post, getPostViewer(req));
+
+    res.status(HTTP_STATUS.OK).json(createApiResponse(visiblePost));
+  })
+);
+
+/**
+ * POST /posts/:id/unlock
+ * Exchange a post password for a short-lived unlock token
+ * Send the token back in the X-Post-Unlock-Token header to read the post.
+ */
+router.post(
+  '/:id/unlock',
+  rateLimiters.auth,
+  validateParams(numericIdParamSchema),
+  validateBody(unlockPostSchema),
+  asyncHandler(async (req: Request, res: Response) => {
+    const postId = parseInt((req.params as { id: string }).id, 10);
+    const { password } = req.body as { password: string };
+
+    const post = await postService.getPostById(postId);
+
+    // Trashed posts cannot be read, so there is nothing to unlock
+    if (!post || post.status === 'trash') {
+      res
+        .status(HTTP_STATUS.NOT_FOUND)
+        .json(createErrorResponse('POST_NOT_FOUND', 'Post not found'));
+      return;
+    }
+
+    if (!post.isProtected) {
+      res
+        .status(HTTP_STATUS.BAD_REQUEST)
+        .json(createErrorResponse('POST_NOT_PROTECTED', 'Post is not password protected'));
+      return;
+    }
+
+    const token = await postService.unlockPost(postId, password);
+
+    if (!token) {
+      res
+        .status(HTTP_STATUS.UNAUTHORIZED)
+        .json(createErrorResponse('INVALID_POST_PASSWORD', 'Incorrect post password'));
+      return;
+    }
+
+    res.status(HTTP_STATUS.OK).json(createApiResponse({ token, post }));
+  })
+);
+
+/**
+ * GET /posts/:id/ancestors
+ * Breadcrumb trail of a page, from its top-level ancestor down to its parent (public)
+ */
+router.get(
+  '/:id/ancestors',
+  rateLimiters.read,
+  validateParams(numericIdParamSchema),
+  asyncHandler(async (req: Request, res: Response) => {
+    const postId = parseInt((req.params as { id: string }).id, 10);
+
+    const ancestors = await pageService.getAncestors(postId);
+
+    if (!ancestors) {
+      res
+        .status(HTTP_STATUS.NOT_FOUND)
+        .json(createErrorResponse('PAGE_NOT_FOUND', 'Page not found'));
+      return;
+    }
+
+    res.status(HTTP_STATUS.OK).json(createApiResponse(ancestors));
+  })
+);
+
+/**
+ * PUT /posts/:id
+ * Update post by ID (author, or a user allowed to edit others' posts)
+ * While someone else holds the edit lock the update is refused, unless
+ * takeover=true is passed to take the lock over.
+ */
+router.put(
+  '/:id',
+  rateLimiters.write,
+  authenticateToken,
+  validateParams(numericIdParamSchema),
+  requirePostPermission('update'),
+  validateQuery(postLockTakeoverSchema),
+  validateBody(updatePostSchema),
+  asyncHandler(async (req: AuthRequest, res: Response) => {
+    if (!req.user) {
+      res
+        .status(HTTP_STATUS.UNAUTHORIZED)
+        .json(createErrorResponse('UNAUTHORIZED', 'Authentication required'));
+      return;
+    }
+
+    const { id } = req.params as { id: string };
+    const { takeover } = req.query as { takeover?: boolean };
+    const postId = parseInt(id, 10);
+
+    if (isNaN(postId)) {
+      res
+        .status(HTTP_STATUS.BAD_REQUEST)
+        .json(createErrorResponse('INVALID_ID', 'Invalid post ID'));
+      return;
+    }
+
+    // Check if post exists
+    const existingPost = await postService.getPostById(postId);
+    if (!existingPost) {
+      res
+        .status(HTTP_STATUS.NOT_FOUND)
+        .json(createErrorResponse('POST_NOT_FOUND', 'Post not found'));
+      return;
+    }
+
+    if (existingPost.status === 'trash') {
+      res
+        .status(HTTP_STATUS.CONFLICT)
+        .json(createErrorResponse('POST_TRASHED', 'Restore the post before editing it'));
+      return;
+    }
+
+    const type: PostType = req.body.type ?? existingPost.type;
+    const permissions = getTypePermissions(req, existingPost.type);
+
+    // Converting a post to another type requires the right to create posts of that type
+    if (type !== existingPost.type) {
+      if (!currentUserHasPermission(req, postTypeRegistry.getPermission(type, 'create'))) {
+        res
+          .status(HTTP_STATUS.FORBIDDEN)
+          .json(createErrorResponse('FORBIDDEN', `You cannot create posts of type '${type}'`));
+        return;
+      }
+
+      const missingMeta = await postMetaService.getMissingMeta(postId, type);
+      if (missingMeta.length > 0) {
+        res.status(HTTP_STATUS.BAD_REQUEST).json(
+          createErrorResponse('META_REQUIRED', 'Required meta fields are missing', {
+            missingMeta,
+          })
+        );
+        return;
+      }
+    }
+
+    const statusError = postTypeRegistry.getStatusError(
+      type,
+      req.body.status ?? existingPost.status
+    );
+    if (statusError) {
+      res.status(HTTP_STATUS.BAD_REQUEST).json(createErrorResponse('INVALID_STATUS', statusError));
+      return;
+    }
+
+    // Once live, a post can only be edited by users who can publish it
+    if (existingPost.status !== 'draft' && existingPost.status !== 'pending') {
+      if (!permissions.includes('post:publish')) {
+        res
+          .status(HTTP_STATUS.FORBIDDEN)
+          .json(createErrorResponse('FORBIDDEN', 'You cannot edit a post once it is published'));
+        return;
+      }
+    }
+
+    // Status changes must follow the editorial workflow
+    if (req.body.status !== undefined) {
+      const transitionError = postService.getStatusTransitionError(
+        existingPost.status,
+        req.body.status,
+        permissions
+      );
+      if (transitionError) {
+        res
+          .status(HTTP_STATUS.FORBIDDEN)
+          .json(createErrorResponse('INVALID_STATUS_TRANSITION', transitionError));
+        return;
+      }
+    }
+
+    // Re-parenting a page must keep the hierarchy acyclic
+    if (postTypeRegistry.isHierarchical(type) && req.body.parentId) {
+      const parentError = await getPageParentError(req.body.parentId, existingPost.uuid, type);
+      if (parentError) {
+        res
+          .status(HTTP_STATUS.BAD_REQUEST)
+          .json(createErrorResponse('INVALID_PARENT', parentError));
+        return;
+      }
+    }
+
+    const locale: string = req.body.locale ?? existingPost.locale;
+    const translationOf: number | null | undefined = req.body.translationOf;
+
+    if (translationOf) {
+      const translationError =
+        translationOf === postId
+          ? {
+              status: HTTP_STATUS.BAD_REQUEST,
+              code: 'INVALID_TRANSLATION',
+              message: 'A post cannot be a translation of itself',
+            }
+          : await getTranslationError(translationOf, type);
+      if (translationError) {
+        res
+          .status(translationError.status)
+          .json(createErrorResponse(translationError.code, translationError.message));
+        return;
+      }
+    }
+
+    // The group joined, or the current one when only the locale changes, must
+    // not have a post in that locale yet
+    const groupPostId =
+      translationOf === undefined && locale !== existingPost.locale ? postId : translationOf;
+    if (groupPostId) {
+      const translationId = await postService.findTranslationId(groupPostId, locale, postId);
+      if (translationId) {
+        res.status(HTTP_STATUS.CONFLICT).json(
+          createErrorResponse('TRANSLATION_EXISTS', `A translation in '${locale}' already exists`, {
+            translationId,
+          })
+        );
+        return;
+      }
+    }
+
+    // Slugs only need to be unique within a locale
+    const slug: string = req.body.slug ?? existingPost.slug;
+    if (
+      (slug !== existingPost.slug || locale !== existingPost.locale) &&
+      (await postService.slugExists(slug, locale, postId))
+    ) {
+      res
+        .status(HTTP_STATUS.CONFLICT)
+        .json(createErrorResponse('SLUG_EXISTS', `Slug '${slug}' is already used in '${locale}'`));
+      return;
+    }
+
+    // Check if assigned categories and tags exist
+    const missingTerms = await findMissingPostTerms(req.body);
+    if (missingTerms.categories.length > 0 || missingTerms.tags.length > 0) {
+      res
+        .status(HTTP_STATUS.NOT_FOUND)
+        .json(createErrorResponse('TERM_NOT_FOUND', 'One or more terms not found', missingTerms));
+      return;
+    }
+
+    // Someone else is editing the post
+    let lock = await postLockService.getLock(postId);
+    if (lock && lock.userId !== req.user.userId) {
+      if (!takeover) {
+        res
+          .status(HTTP_STATUS.CONFLICT)
+          .json(createErrorResponse('POST_LOCKED', 'Another user is editing this post', { lock }));
+        return;
+      }
+
+      ({ lock } = await postLockService.acquireLock(postId, req.user.userId, true));
+    }
+
+    let post: Post | null;
+    try {
+      post = await postService.updatePost(postId, req.body, req.user.userId);
+    } catch (error) {
+      // Another post took the slug after it was checked
+      if ((error as { code?: string }).code !== 'P2002') throw error;
+
+      res
+        .status(HTTP_STATUS.CONFLICT)
+        .json(createErrorResponse('SLUG_EXISTS', `Slug '${slug}' is already used in '${locale}'`));
+      return;
+    }
+
+    if (!post) {
+      res
+        .status(HTTP_STATUS.INTERNAL_SERVER_ERROR)
+        .json(createErrorResponse('UPDATE_FAILED', 'Failed to update post'));
+      return;
+    }
+
+    res.status(HTTP_STATUS.OK).json(createApiResponse({ ...post, lock }));
+  })
+);
+
+/**
+ * DELETE /posts/:id
+ * Move a post to the trash (author, or a user allowed to delete others' posts)
+ * Trashed posts can be restored until they are purged.
+ */
+router.delete(
+  '/:id',
+  rateLimiters.write,
+  authenticateToken,
+  validateParams(numericIdParamSchema),
+  requirePostPermission('delete'),
+  asyncHandler(async (req: AuthRequest, res: Response) => {
+    const postId = parseInt((req.params as { id: string }).id, 10);
+
+    const existingPost = await postService.getPostById(postId);
+    if (!existingPost) {
+      res
+        .status(HTTP_STATUS.NOT_FOUND)
+        .json(createErrorResponse('POST_NOT_FOUND', 'Post not found'));
+      return;
+    }
+
+    if (existingPost.status === 'trash') {
+      res
+        .status(HTTP_STATUS.CONFLICT)
+        .json(createErrorResponse('POST_TRASHED', 'Post is already in the trash'));
+      return;
+    }
+
+    await postService.trashPost(postId, req.user?.userId);
+
+    res.status(HTTP_STATUS.OK).json(
+      createApiResponse({
+        message: 'Post moved to trash',
+        id: postId,
+      })
+    );
+  })
+);
+
+/**
+ * POST /posts/:id/restore
+ * Take a post out of the trash with the status it had before
+ */
+router.post(
+  '/:id/restore',
+  rateLimiters.write,
+  authenticateToken,
+  validateParams(numericIdParamSchema),
+  requirePostPermission('delete'),
+  asyncHandler(async (req: AuthRequest, res: Response) => {
+    const postId = parseInt((req.params as { id: string }).id, 10);
+
+    const existingPost = await postService.getPostById(postId);
+    if (!existingPost) {
+      res
+        .status(HTTP_STATUS.NOT_FOUND)
+        .json(createErrorResponse('POST_NOT_FOUND', 'Post not found'));
+      return;
+    }
+
+    if (existingPost.status !== 'trash') {
+      res
+        .status(HTTP_STATUS.CONFLICT)
+        .json(createErrorResponse('POST_NOT_TRASHED', 'Post is not in the trash'));
+      return;
+    }
+
+    const post = await postService.restorePost(postId, req.user?.userId);
+
+    res.status(HTTP_STATUS.OK).json(createApiResponse(post));
+  })
+);
+
+/**
+ * DELETE /posts/:id/permanent
+ * Delete a post for good, trashed or not (admin only)
+ */
+router.delete(
+  '/:id/permanent',
+  rateLimiters.write,
+  authenticateToken,
+  requirePermission('admin:access'),
+  validateParams(numericIdParamSchema),
+  asyncHandler(async (req: AuthRequest, res: Response) => {
+    const postId = parseInt((req.params as { id: string }).id, 10);
+
+    const deleted = await postService.deletePost(postId);
+
+    if (!deleted) {
+      res
+        .status(HTTP_STATUS.NOT_FOUND)
+        .json(createErrorResponse('POST_NOT_FOUND', 'Post not found'));
+      return;
+    }
+
+    res.status(HTTP_STATUS.OK).json(
+      createApiResponse({
+        message: 'Post deleted permanently',
+        id: postId,
+      })
+    );
+  })
+);
+
+/**
+ * POST /posts/:id/views
+ * Count a view of a published post; repeat views by the same visitor within
+ * a short window count once (public)
+ */
+router.post(
+  '/:id/views',
+  rateLimiters.read,
+  optionalAuth,
+  validateParams(numericIdParamSchema),
+  asyncHandler(async (req: AuthRequest, res: Response) => {
+    const postId = parseInt((req.params as { id: string }).id, 10);
+
+    const post = await postService.getPostById(postId);
+    if (!post || post.status !== 'publish') {
+      res
+        .status(HTTP_STATUS.NOT_FOUND)
+        .json(createErrorResponse('POST_NOT_FOUND', 'Post not found'));
+      return;
+    }
+
+    const counted = await postViewService.recordView(postId, {
+      userId: req.user?.userId,
+      ip: req.ip,
+      userAgent: req.get('user-agent'),
+    });
+
+    res.status(HTTP_STATUS.OK).json(createApiResponse({ counted }));
+  })
+);
+
+/**
+ * GET /posts/:id/meta
+ * All custom fields of a post (public or authenticated)
+ * Protected posts need the X-Post-Unlock-Token header, as for their content.
+ */
+router.get(
+  '/:id/meta',
+  rateLimiters.read,
+  optionalAuth,
+  validateParams(numericIdParamSchema),
+  asyncHandler(async (req: AuthRequest, res: Response) => {
+    const postId = parseInt((req.params as { id: string }).id, 10);
+
+    const accessError = await getMetaAccessError(req, postId);
+    if (accessError) {
+      res
+        .status(accessError.status)
+        .json(createErrorResponse(accessError.code, accessError.message));
+      return;
+    }
+
+    const meta = await postMetaService.getMeta(postId);
+
+    res.status(HTTP_STATUS.OK).json(createApiResponse(meta));
+  })
+);
+
+/**
+ * GET /posts/:id/meta/:key
+ * A single custom field of a post (public or authenticated)
+ * Protected posts need the X-Post-Unlock-Token header, as for their content.
+ */
+router.get(
+  '/:id/meta/:key',
+  rateLimiters.read,
+  optionalAuth,
+  validateParams(postMetaParamSchema),
+  asyncHandler(async (req: AuthRequest, res: Response) => {
+    const { id, key } = req.params as { id: string; key: string };
+    const postId = parseInt(id, 10);
+
+    const accessError = await getMetaAccessError(req, postId);
+    if (accessError) {
+      res
+        .status(accessError.status)
+        .json(createErrorResponse(accessError.code, accessError.message));
+      return;
+    }
+
+    const entry = await postMetaService.getMetaEntry(postId, key);
+
+    if (!entry) {
+      res
+        .status(HTTP_STATUS.NOT_FOUND)
+        .json(createErrorResponse('META_NOT_FOUND', 'Meta key not found'));
+      return;
+    }
+
+    res.status(HTTP_STATUS.OK).json(createApiResponse(entry));
+  })
+);
+
+/**
+ * PUT /posts/:id/meta/:key
+ * Create or replace a custom field; its type follows the JSON value sent
+ * Refused while someone else holds the edit lock, unless takeover=true is passed.
+ */
+router.put(
+  '/:id/meta/:key',
+  rateLimiters.write,
+  authenticateToken,
+  validateParams(postMetaParamSchema),
+  requirePostPermission('update'),
+  validateQuery(postLockTakeoverSchema),
+  validateBody(setPostMetaSchema),
+  asyncHandler(async (req: AuthRequest, res: Response) => {
+    const { id, key } = req.params as { id: string; key: string };
+    const { takeover } = req.query as { takeover?: boolean };
+    const { value } = req.body as { value: PostMetaValue };
+    const postId = parseInt(id, 10);
+
+    const lock = await getBlockingLock(postId, req.user?.userId, takeover);
+    if (lock) {
+      res
+        .status(HTTP_STATUS.CONFLICT)
+        .json(createErrorResponse('POST_LOCKED', 'Another user is editing this post', { lock }));
+      return;
+    }
+
+    const entry = await postMetaService.setMeta(postId, key, value);
+
+    res.status(HTTP_STATUS.OK).json(createApiResponse(entry));
+  })
+);
+
+/**
+ * DELETE /posts/:id/meta/:key
+ * Remove a custom field
+ * Refused while someone else holds the edit lock, unless takeover=true is passed.
+ */
+router.delete(
+  '/:id/meta/:key',
+  rateLimiters.write,
+  authenticateToken,
+  validateParams(postMetaParamSchema),
+  requirePostPermission('update'),
+  validateQuery(postLockTakeoverSchema),
+  asyncHandler(async (req: AuthRequest, res: Response) => {
+    const { id, key } = req.params as { id: string; key: string };
+    const { takeover } = req.query as { takeover?: boolean };
+    const postId = parseInt(id, 10);
+
+    const type = await getPostTypeOf(req);
+    if (type && postTypeRegistry.getMissingMeta(type, []).includes(key)) {
+      res
+        .status(HTTP_STATUS.CONFLICT)
+        .json(
+          createErrorResponse('META_REQUIRED', `Posts of type '${type}' require the '${key}' field`)
+        );
+      return;
+    }
+
+    const lock = await getBlockingLock(postId, req.user?.userId, takeover);
+    if (lock) {
+      res
+        .status(HTTP_STATUS.CONFLICT)
+        .json(createErrorResponse('POST_LOCKED', 'Another user is editing this post', { lock }));
+      return;
+    }
+
+    const deleted = await postMetaService.deleteMeta(postId, key);
+
+    if (!deleted) {
+      res
+        .status(HTTP_STATUS.NOT_FOUND)
+        .json(createErrorResponse('META_NOT_FOUND', 'Meta key not found'));
+      return;
+    }
+
+    res.status(HTTP_STATUS.OK).json(
+      createApiResponse({
+        message: 'Meta deleted successfully',
+        key,
+      })
+    );
+  })
+);
+
+/**
+ * GET /posts/:id/transitions
+ * Status history of a post, oldest first
+ */
+router.get(
+  '/:id/transitions',
+  rateLimiters.read,
+  authenticateToken,
+  validateParams(numericIdParamSchema),
+  requirePostPermission('update'),
+  asyncHandler(async (req: AuthRequest, res: Response) => {
+    const postId = parseInt((req.params as { id: string }).id, 10);
+
+    const transitions = await postService.getTransitions(postId);
+
+    res.status(HTTP_STATUS.OK).json(createApiResponse(transitions));
+  })
+);
+
+/**
+ * POST /posts/:id/preview-link
+ * Share the current state of a post through an expiring link (author, or editors)
+ */
+router.post(
+  '/:id/preview-link',
+  rateLimiters.write,
+  authenticateToken,
+  validateParams(numericIdParamSchema),
+  requirePostPermission('update'),
+  validateBody(createPreviewLinkSchema),
+  asyncHandler(async (req: AuthRequest, res: Response) => {
+    if (!req.user) {
+      res
+        .status(HTTP_STATUS.UNAUTHORIZED)
+        .json(createErrorResponse('UNAUTHORIZED', 'Authentication required'));
+      return;
+    }
+
+    const postId = parseInt((req.params as { id: string }).id, 10);
+    const { expiresInHours } = req.body as { expiresInHours?: number };
+
+    const post = await postService.getPostById(postId);
+    if (!post) {
+      res
+        .status(HTTP_STATUS.NOT_FOUND)
+        .json(createErrorResponse('POST_NOT_FOUND', 'Post not found'));
+      return;
+    }
+
+    if (post.status === 'trash') {
+      res
+        .status(HTTP_STATUS.CONFLICT)
+        .json(createErrorResponse('POST_TRASHED', 'Restore the post before sharing it'));
+      return;
+    }
+
+    const { link, token } = await postPreviewService.createLink(
+      postId,
+      { title: post.title, content: post.content, excerpt: post.excerpt },
+      req.user.userId,
+      expiresInHours
+    );
+
+    res.status(HTTP_STATUS.CREATED).json(
+      createApiResponse({
+        ...link,
+        token,
+        url: `${req.baseUrl}/preview/${token}`,
+      })
+    );
+  })
+);
+
+/**
+ * GET /posts/:id/preview-links
+ * Preview links of a post that have not expired or been revoked
+ */
+router.get(
+  '/:id/preview-links',
+  rateLimiters.read,
+  authenticateToken,
+  validateParams(numericIdParamSchema),
+  requirePostPermission('update'),
+  asyncHandler(async (req: AuthRequest, res: Response) => {
+    const postId = parseInt((req.params as { id: string }).id, 10);
+
+    const links = await postPreviewService.getActiveLinks(postId);
+
+    res.status(HTTP_STATUS.OK).json(createApiResponse(links));
+  })
+);
+
+/**
+ * DELETE /posts/:id/preview-links/:linkId
+ * Revoke a preview link before it expires
+ */
+router.delete(
+  '/:id/preview-links/:linkId',
+  rateLimiters.write,
+  authenticateToken,
+  validateParams(previewLinkParamSchema),
+  requirePostPermission('update'),
+  asyncHandler(async (req: AuthRequest, res: Response) => {
+    const { id, linkId } = req.params as { id: string; linkId: string };
+
+    const revoked = await postPreviewService.revokeLink(parseInt(id, 10), linkId);
+
+    if (!revoked) {
+      res
+        .status(HTTP_STATUS.NOT_FOUND)
+        .json(createErrorResponse('PREVIEW_LINK_NOT_FOUND', 'Preview link not found'));
+      return;
+    }
+
+    res.status(HTTP_STATUS.OK).json(
+      createApiResponse({
+        message: 'Preview link revoked',
+        id: linkId,
+      })
+    );
+  })
+);
+
+/**
+ * POST /posts/:id/lock
+ * Acquire the edit lock of a post, or renew it as a heartbeat while editing
+ * A lock held by someone else is only taken over with takeover: true.
+ */
+router.post(
+  '/:id/lock',
+  rateLimiters.write,
+  authenticateToken,
+  validateParams(numericIdParamSchema),
+  requirePostPermission('update'),
+  validateBody(acquirePostLockSchema),
+  asyncHandler(async (req: AuthRequest, res: Response) => {
+    if (!req.user) {
+      res
+        .status(HTTP_STATUS.UNAUTHORIZED)
+        .json(createErrorResponse('UNAUTHORIZED', 'Authentication required'));
+      return;
+    }
+
+    const postId = parseInt((req.params as { id: string }).id, 10);
+    const { takeover } = req.body as { takeover?: boolean };
+
+    const { acquired, lock } = await postLockService.acquireLock(postId, req.user.userId, takeover);
+
+    if (!acquired) {
+      res
+        .status(HTTP_STATUS.CONFLICT)
+        .json(createErrorResponse('POST_LOCKED', 'Another user is editing this post', { lock }));
+      return;
+    }
+
+    res.status(HTTP_STATUS.OK).json(createApiResponse(lock));
+  })
+);
+
+/**
+ * DELETE /posts/:id/lock
+ * Release the edit lock of a post when done editing (lock holder only)
+ */
+router.delete(
+  '/:id/lock',
+  rateLimiters.write,
+  authenticateToken,
+  validateParams(numericIdParamSchema),
+  requirePostPermission('update'),
+  asyncHandler(async (req: AuthRequest, res: Response) => {
+    if (!req.user) {
+      res
+        .status(HTTP_STATUS.UNAUTHORIZED)
+        .json(createErrorResponse('UNAUTHORIZED', 'Authentication required'));
+      return;
+    }
+
+    const postId = parseInt((req.params as { id: string }).id, 10);
+
+    const released = await postLockService.releaseLock(postId, req.user.userId);
+
+    if (!released) {
+      res
+        .status(HTTP_STATUS.NOT_FOUND)
+        .json(createErrorResponse('LOCK_NOT_FOUND', 'You do not hold the lock of this post'));
+      return;
+    }
+
+    res.status(HTTP_STATUS.OK).json(
+      createApiResponse({
+        message: 'Post lock released',
+        id: postId,
+      })
+    );
+  })
+);
+
+/**
+ * POST /posts/:id/approve
+ * Approve a pending post: publish it, or schedule it when publishedAt is in the future
+ * Refused while someone else holds the edit lock, unless takeover=true is passed.
+ */
+router.post(
+  '/:id/approve',
+  rateLimiters.write,
+  authenticateToken,
+  validateParams(numericIdParamSchema),
+  requireResolvedPermission(getPostTypePermission('review')),
+  validateQuery(postLockTakeoverSchema),
+  validateBody(approvePostSchema),
+  asyncHandler(async (req: AuthRequest, res: Response) => {
+    const postId = parseInt((req.params as { id: string }).id, 10);
+    const { takeover } = req.query as { takeover?: boolean };
+    const { publishedAt, note } = req.body as { publishedAt?: Date | null; note?: string };
+
+    const existingPost = await postService.getPostById(postId);
+    if (!existingPost) {
+      res
+        .status(HTTP_STATUS.NOT_FOUND)
+        .json(createErrorResponse('POST_NOT_FOUND', 'Post not found'));
+      return;
+    }
+
+    if (existingPost.status !== 'pending') {
+      res
+        .status(HTTP_STATUS.CONFLICT)
+        .json(createErrorResponse('POST_NOT_PENDING', 'Only pending posts can be approved'));
+      return;
+    }
+
+    const status = publishedAt && publishedAt.getTime() > Date.now() ? 'future' : 'publish';
+
+    const statusError = postTypeRegistry.getStatusError(existingPost.type, status);
+    if (statusError) {
+      res.status(HTTP_STATUS.BAD_REQUEST).json(createErrorResponse('INVALID_STATUS', statusError));
+      return;
+    }
+
+    const lock = await getBlockingLock(postId, req.user?.userId, takeover);
+    if (lock) {
+      res
+        .status(HTTP_STATUS.CONFLICT)
+        .json(createErrorResponse('POST_LOCKED', 'Another user is editing this post', { lock }));
+      return;
+    }
+
+    const post = await postService.updatePost(
+      postId,
+      { status, ...(publishedAt && { publishedAt }) },
+      req.user?.userId,
+      note
+    );
+
+    res.status(HTTP_STATUS.OK).json(createApiResponse(post));
+  })
+);
+
+/**
+ * POST /posts/:id/reject
+ * Send a pending post back to draft with a note for the author
+ * Refused while someone else holds the edit lock, unless takeover=true is passed.
+ */
+router.post(
+  '/:id/reject',
+  rateLimiters.write,
+  authenticateToken,
+  validateParams(numericIdParamSchema),
+  requireResolvedPermission(getPostTypePermission('review')),
+  validateQuery(postLockTakeoverSchema),
+  validateBody(rejectPostSchema),
+  asyncHandler(async (req: AuthRequest, res: Response) => {
+    const postId = parseInt((req.params as { id: string }).id, 10);
+    const { takeover } = req.query as { takeover?: boolean };
+    const { note } = req.body as { note: string };
+
+    const existingPost = await postService.getPostById(postId);
+    if (!existingPost) {
+      res
+        .status(HTTP_STATUS.NOT_FOUND)
+        .json(createErrorResponse('POST_NOT_FOUND', 'Post not found'));
+      return;
+    }
+
+    if (existingPost.status !== 'pending') {
+      res
+        .status(HTTP_STATUS.CONFLICT)
+        .json(createErrorResponse('POST_NOT_PENDING', 'Only pending posts can be rejected'));
+      return;
+    }
+
+    const lock = await getBlockingLock(postId, req.user?.userId, takeover);
+    if (lock) {
+      res
+        .status(HTTP_STATUS.CONFLICT)
+        .json(createErrorResponse('POST_LOCKED', 'Another user is editing this post', { lock }));
+      return;
+    }
+
+    const post = await postService.updatePost(postId, { status: 'draft' }, req.user?.userId, note);
+
+    res.status(HTTP_STATUS.OK).json(createApiResponse(post));
+  })
+);
+
+/**
+ * GET /posts/author/:authorId
+ * Get posts by author
+ */
+router.get(
+  '/author/:authorId',
+  rateLimiters.read,
+  optionalAuth,
+  validateParams(idParamSchema),
+  validateQuery(postQuerySchema.partial()),
+  asyncHandler(async (req: AuthRequest, res: Response) => {
+    const { authorId } = req.params as { authorId: string };
+    const { page, limit } = parsePaginationParams(req.query);
+
+    const { posts, total } = await postService.getPostsByAuthor(authorId, page, limit);
+    const meta = calculatePaginationMeta(total, page, limit);
+    const viewer = getPostViewer(req);
+    const items = await Promise.all(posts.map((post) => postService.presentPost(post, viewer)));
+
+    res.status(HTTP_STATUS.OK).json(createPaginatedResponse(items, meta));
+  })
+);
+
+/**
+ * GET /posts/published
+ * Get published posts
+ */
+router.get(
+  '/published',
+  rateLimiters.read,
+  optionalAuth,
+  validateQuery(postQuerySchema.partial()),
+  asyncHandler(async (req: AuthRequest, res: Response) => {
+    const { page, limit } = parsePaginationParams(req.query);
+
+    const { posts, total } = await postService.getPublishedPosts(page, limit);
+    const meta = calculatePaginationMeta(total, page, limit);
+    const viewer = getPostViewer(req);
+    const items = await Promise.all(posts.map((post) => postService.presentPost(post, viewer)));
+
+    res.status(HTTP_STATUS.OK).json(createPaginatedResponse(items, meta));
   })
 );
 
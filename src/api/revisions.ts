@@ -0,0 +1,224 @@
+import express from 'express';
+import type { Response } from 'express';
+
+import { HTTP_STATUS } from '@/constants';
+import type { AuthRequest } from '@/middleware/authorization';
+import { authenticateToken, getCurrentUserPermissions } from '@/middleware/authorization';
+import { asyncHandler } from '@/middleware/error';
+import { requirePostPermission } from '@/middleware/post-authorization';
+import { rateLimiters } from '@/middleware/rate-limiter';
+import { validateParams, validateQuery } from '@/middleware/validation';
+import { postService } from '@/services/post';
+import { postLockService } from '@/services/post-lock';
+import { postTypeRegistry } from '@/services/post-type-registry';
+import { revisionService } from '@/services/revision';
+import type { RevisionSnapshot } from '@/services/revision';
+import {
+  createApiResponse,
+  createErrorResponse,
+  createPaginatedResponse,
+  parsePaginationParams,
+  calculatePaginationMeta,
+} from '@/utils/response';
+import {
+  numericIdParamSchema,
+  paginationSchema,
+  revisionDiffQuerySchema,
+  revisionParamSchema,
+} from '@/utils/schemas';
+
+const router = express.Router({ mergeParams: true });
+
+/**
+ * GET /posts/:id/revisions
+ * Get revision history of a post, newest first (author, or a user allowed to edit others' posts)
+ */
+router.get(
+  '/',
+  rateLimiters.read,
+  authenticateToken,
+  validateParams(numericIdParamSchema),
+  requirePostPermission('update'),
+  validateQuery(paginationSchema),
+  asyncHandler(async (req: AuthRequest, res: Response) => {
+    const postId = parseInt((req.params as { id: string }).id, 10);
+
+    const postExists = await postService.postExists(postId);
+    if (!postExists) {
+      res
+        .status(HTTP_STATUS.NOT_FOUND)
+        .json(createErrorResponse('POST_NOT_FOUND', 'Post not found'));
+      return;
+    }
+
+    const { page, limit } = parsePaginationParams(req.query);
+    const { revisions, total } = await revisionService.getRevisions(postId, page, limit);
+    const meta = calculatePaginationMeta(total, page, limit);
+
+    res.status(HTTP_STATUS.OK).json(createPaginatedResponse(revisions, meta));
+  })
+);
+
+/**
+ * GET /posts/:id/revisions/diff?from=:rev&to=:rev|current
+ * Field-level diff between two revisions, or a revision and the current post
+ */
+router.get(
+  '/diff',
+  rateLimiters.read,
+  authenticateToken,
+  validateParams(numericIdParamSchema),
+  requirePostPermission('update'),
+  validateQuery(revisionDiffQuerySchema),
+  asyncHandler(async (req: AuthRequest, res: Response) => {
+    const postId = parseInt((req.params as { id: string }).id, 10);
+    const query = req.query as { from: string; to: string };
+
+    const post = await postService.getPostById(postId);
+    if (!post) {
+      res
+        .status(HTTP_STATUS.NOT_FOUND)
+        .json(createErrorResponse('POST_NOT_FOUND', 'Post not found'));
+      return;
+    }
+
+    const resolve = async (value: string): Promise<RevisionSnapshot | null> => {
+      if (value === 'current') {
+        return { title: post.title, content: post.content, excerpt: post.excerpt };
+      }
+      return revisionService.getRevision(postId, parseInt(value, 10));
+    };
+
+    const [from, to] = await Promise.all([resolve(query.from), resolve(query.to)]);
+
+    if (!from || !to) {
+      res
+        .status(HTTP_STATUS.NOT_FOUND)
+        .json(createErrorResponse('REVISION_NOT_FOUND', 'Revision not found'));
+      return;
+    }
+
+    const diff = revisionService.diff(from, to, {
+      from: parseInt(query.from, 10),
+      to: query.to === 'current' ? 'current' : parseInt(query.to, 10),
+    });
+
+    res.status(HTTP_STATUS.OK).json(createApiResponse(diff));
+  })
+);
+
+/**
+ * GET /posts/:id/revisions/:rev
+ * Get a single revision (author, or a user allowed to edit others' posts)
+ */
+router.get(
+  '/:rev',
+  rateLimiters.read,
+  authenticateToken,
+  validateParams(revisionParamSchema),
+  requirePostPermission('update'),
+  asyncHandler(async (req: AuthRequest, res: Response) => {
+    const { id, rev } = req.params as { id: string; rev: string };
+
+    const revision = await revisionService.getRevision(parseInt(id, 10), parseInt(rev, 10));
+
+    if (!revision) {
+      res
+        .status(HTTP_STATUS.NOT_FOUND)
+        .json(createErrorResponse('REVISION_NOT_FOUND', 'Revision not found'));
+      return;
+    }
+
+    res.status(HTTP_STATUS.OK).json(createApiResponse(revision));
+  })
+);
+
+/**
+ * POST /posts/:id/revisions/:rev/restore
+ * Restore a revision; the content it replaces is kept as a new revision
+ * Refused like PUT /posts/:id while the post is trashed, locked by someone
+ * else, or published and the caller cannot publish.
+ */
+router.post(
+  '/:rev/restore',
+  rateLimiters.write,
+  authenticateToken,
+  validateParams(revisionParamSchema),
+  requirePostPermission('update'),
+  asyncHandler(async (req: AuthRequest, res: Response) => {
+    if (!req.user) {
+      res
+        .status(HTTP_STATUS.UNAUTHORIZED)
+        .json(createErrorResponse('UNAUTHORIZED', 'Authentication required'));
+      return;
+    }
+
+    const { id, rev } = req.params as { id: string; rev: string };
+    const postId = parseInt(id, 10);
+
+    // Restoring is an edit, so the guards of PUT /posts/:id apply
+    const existingPost = await postService.getPostById(postId);
+    if (!existingPost) {
+      res
+        .status(HTTP_STATUS.NOT_FOUND)
+        .json(createErrorResponse('POST_NOT_FOUND', 'Post not found'));
+      return;
+    }
+
+    if (existingPost.status === 'trash') {
+      res
+        .status(HTTP_STATUS.CONFLICT)
+        .json(createErrorResponse('POST_TRASHED', 'Restore the post before editing it'));
+      return;
+    }
+
+    const permissions = postTypeRegistry.toPostPermissions(
+      existingPost.type,
+      getCurrentUserPermissions(req)
+    );
+    if (
+      existingPost.status !== 'draft' &&
+      existingPost.status !== 'pending' &&
+      !permissions.includes('post:publish')
+    ) {
+      res
+        .status(HTTP_STATUS.FORBIDDEN)
+        .json(createErrorResponse('FORBIDDEN', 'You cannot edit a post once it is published'));
+      return;
+    }
+
+    const lock = await postLockService.getLock(postId);
+    if (lock && lock.userId !== req.user.userId) {
+      res
+        .status(HTTP_STATUS.CONFLICT)
+        .json(createErrorResponse('POST_LOCKED', 'Another user is editing this post', { lock }));
+      return;
+    }
+
+    const revision = await revisionService.getRevision(postId, parseInt(rev, 10));
+
+    if (!revision) {
+      res
+        .status(HTTP_STATUS.NOT_FOUND)
+        .json(createErrorResponse('REVISION_NOT_FOUND', 'Revision not found'));
+      return;
+    }
+
+    const post = await postService.updatePost(
+      postId,
+      { title: revision.title, content: revision.content, excerpt: revision.excerpt },
+      req.user.userId
+    );
+
+    if (!post) {
+      res
+        .status(HTTP_STATUS.INTERNAL_SERVER_ERROR)
+        .json(createErrorResponse('RESTORE_FAILED', 'Failed to restore revision'));
+      return;
+    }
+
+    res.status(HTTP_STATUS.OK).json(createApiResponse(post));
+  })
+);
+
+export { router as postRevisionsRouter };
@@ -0,0 +1,58 @@
+import express from 'express';
+import type { Request, Response } from 'express';
+
+import { HTTP_STATUS } from '@/constants';
+import { asyncHandler } from '@/middleware/error';
+import { rateLimiters } from '@/middleware/rate-limiter';
+import { sitemapService } from '@/services/sitemap';
+import { createErrorResponse } from '@/utils/response';
+
+const router = express.Router();
+
+/**
+ * Send an XML sitemap document
+ */
+function sendXml(res: Response, document: string): void {
+  res.set({
+    'Content-Type': 'application/xml; charset=utf-8',
+    'Cache-Control': 'public, max-age=3600',
+  });
+  res.status(HTTP_STATUS.OK).send(document);
+}
+
+/**
+ * GET /sitemap.xml
+ * Sitemap index listing every sitemap chunk
+ */
+router.get(
+  '/sitemap.xml',
+  rateLimiters.read,
+  asyncHandler(async (_req: Request, res: Response) => {
+    sendXml(res, await sitemapService.getIndex());
+  })
+);
+
+/**
+ * GET /sitemap-:chunk.xml
+ * One chunk of published posts and pages
+ */
+router.get(
+  '/sitemap-:chunk(\\d+).xml',
+  rateLimiters.read,
+  asyncHandler(async (req: Request, res: Response) => {
+    const chunk = parseInt((req.params as { chunk: string }).chunk, 10);
+
+    const document = await sitemapService.getChunk(chunk);
+
+    if (!document) {
+      res
+        .status(HTTP_STATUS.NOT_FOUND)
+        .json(createErrorResponse('SITEMAP_NOT_FOUND', 'Sitemap not found'));
+      return;
+    }
+
+    sendXml(res, document);
+  })
+);
+
+export { router as sitemapRouter };
@@ -0,0 +1,231 @@
+import express from 'express';
+import type { Request, Response } from 'express';
+
+import { HTTP_STATUS, TAXONOMIES } from '@/constants';
+import type { AuthRequest } from '@/middleware/authorization';
+import { authenticateToken, requirePermission } from '@/middleware/authorization';
+import { asyncHandler } from '@/middleware/error';
+import { rateLimiters } from '@/middleware/rate-limiter';
+import { validateBody, validateParams, validateQuery } from '@/middleware/validation';
+import { termService } from '@/services/term';
+import type { Taxonomy, TermQueryParams } from '@/types';
+import {
+  createApiResponse,
+  createErrorResponse,
+  createPaginatedResponse,
+  parsePaginationParams,
+  calculatePaginationMeta,
+} from '@/utils/response';
+import {
+  createTermSchema,
+  updateTermSchema,
+  numericIdParamSchema,
+  termQuerySchema,
+} from '@/utils/schemas';
+
+const router = express.Router();
+
+// Menus are managed through /menus; these routes only touch post taxonomies
+const POST_TAXONOMIES: readonly Taxonomy[] = [TAXONOMIES.CATEGORY, TAXONOMIES.POST_TAG];
+
+/**
+ * POST /terms
+ * Create a new category or tag (requires authentication)
+ */
+router.post(
+  '/',
+  rateLimiters.write,
+  authenticateToken,
+  requirePermission('term:create'),
+  validateBody(createTermSchema),
+  asyncHandler(async (req: AuthRequest, res: Response) => {
+    const { taxonomy, parentId } = req.body as { taxonomy: Taxonomy; parentId?: number | null };
+
+    if (parentId) {
+      if (!termService.isHierarchical(taxonomy)) {
+        res
+          .status(HTTP_STATUS.BAD_REQUEST)
+          .json(
+            createErrorResponse('TAXONOMY_NOT_HIERARCHICAL', `Taxonomy ${taxonomy} has no parents`)
+          );
+        return;
+      }
+
+      const parentExists = await termService.termExists(parentId, taxonomy);
+      if (!parentExists) {
+        res
+          .status(HTTP_STATUS.NOT_FOUND)
+          .json(createErrorResponse('PARENT_NOT_FOUND', 'Parent term not found'));
+        return;
+      }
+    }
+
+    const term = await termService.createTerm(req.body);
+
+    res.status(HTTP_STATUS.CREATED).json(createApiResponse(term));
+  })
+);
+
+/**
+ * GET /terms
+ * Get terms with filtering and pagination (public)
+ */
+router.get(
+  '/',
+  rateLimiters.read,
+  validateQuery(termQuerySchema),
+  asyncHandler(async (req: Request, res: Response) => {
+    const { taxonomy, parentId, search, hideEmpty, orderBy, order } = req.query as {
+      taxonomy?: Taxonomy;
+      parentId?: number;
+      search?: string;
+      hideEmpty?: boolean;
+      orderBy?: TermQueryParams['orderBy'];
+      order?: TermQueryParams['order'];
+    };
+
+    const pagination = parsePaginationParams(req.query);
+    const { terms, total } = await termService.getTerms({
+      page: pagination.page,
+      limit: pagination.limit,
+      taxonomy,
+      parentId,
+      search,
+      hideEmpty,
+      orderBy,
+      order,
+    });
+
+    const meta = calculatePaginationMeta(total, pagination.page, pagination.limit);
+
+    res.status(HTTP_STATUS.OK).json(createPaginatedResponse(terms, meta));
+  })
+);
+
+/**
+ * GET /terms/:id
+ * Get term by ID (public)
+ */
+router.get(
+  '/:id',
+  rateLimiters.read,
+  validateParams(numericIdParamSchema),
+  asyncHandler(async (req: Request, res: Response) => {
+    const termId = parseInt((req.params as { id: string }).id, 10);
+
+    const term = await termService.getTermById(termId, POST_TAXONOMIES);
+
+    if (!term) {
+      res
+        .status(HTTP_STATUS.NOT_FOUND)
+        .json(createErrorResponse('TERM_NOT_FOUND', 'Term not found'));
+      return;
+    }
+
+    res.status(HTTP_STATUS.OK).json(createApiResponse(term));
+  })
+);
+
+/**
+ * PUT /terms/:id
+ * Update term by ID (requires authentication)
+ */
+router.put(
+  '/:id',
+  rateLimiters.write,
+  authenticateToken,
+  requirePermission('term:update'),
+  validateParams(numericIdParamSchema),
+  validateBody(updateTermSchema),
+  asyncHandler(async (req: AuthRequest, res: Response) => {
+    const termId = parseInt((req.params as { id: string }).id, 10);
+    const { parentId } = req.body as { parentId?: number | null };
+
+    const existingTerm = await termService.getTermById(termId, POST_TAXONOMIES);
+    if (!existingTerm) {
+      res
+        .status(HTTP_STATUS.NOT_FOUND)
+        .json(createErrorResponse('TERM_NOT_FOUND', 'Term not found'));
+      return;
+    }
+
+    if (parentId) {
+      if (!termService.isHierarchical(existingTerm.taxonomy)) {
+        res
+          .status(HTTP_STATUS.BAD_REQUEST)
+          .json(
+            createErrorResponse(
+              'TAXONOMY_NOT_HIERARCHICAL',
+              `Taxonomy ${existingTerm.taxonomy} has no parents`
+            )
+          );
+        return;
+      }
+
+      const parentExists = await termService.termExists(parentId, existingTerm.taxonomy);
+      if (!parentExists) {
+        res
+          .status(HTTP_STATUS.NOT_FOUND)
+          .json(createErrorResponse('PARENT_NOT_FOUND', 'Parent term not found'));
+        return;
+      }
+
+      const createsCycle = await termService.wouldCreateCycle(termId, parentId);
+      if (createsCycle) {
+        res
+          .status(HTTP_STATUS.UNPROCESSABLE_ENTITY)
+          .json(
+            createErrorResponse(
+              'INVALID_PARENT',
+              'A term cannot be its own parent or a child of its descendants'
+            )
+          );
+        return;
+      }
+    }
+
+    const term = await termService.updateTerm(termId, req.body, POST_TAXONOMIES);
+
+    if (!term) {
+      res
+        .status(HTTP_STATUS.INTERNAL_SERVER_ERROR)
+        .json(createErrorResponse('UPDATE_FAILED', 'Failed to update term'));
+      return;
+    }
+
+    res.status(HTTP_STATUS.OK).json(createApiResponse(term));
+  })
+);
+
+/**
+ * DELETE /terms/:id
+ * Delete term by ID (requires authentication)
+ */
+router.delete(
+  '/:id',
+  rateLimiters.write,
+  authenticateToken,
+  requirePermission('term:delete'),
+  validateParams(numericIdParamSchema),
+  asyncHandler(async (req: AuthRequest, res: Response) => {
+    const termId = parseInt((req.params as { id: string }).id, 10);
+
+    const deleted = await termService.deleteTerm(termId, POST_TAXONOMIES);
+
+    if (!deleted) {
+      res
+        .status(HTTP_STATUS.NOT_FOUND)
+        .json(createErrorResponse('TERM_NOT_FOUND', 'Term not found'));
+      return;
+    }
+
+    res.status(HTTP_STATUS.OK).json(
+      createApiResponse({
+        message: 'Term deleted successfully',
+        id: termId,
+      })
+    );
+  })
+);
+
+export { router as termsRouter };
@@ -18,11 +18,14 @@ import {
   createApiResponse,
   createErrorResponse,
   createPaginatedResponse,
+  parseCursorParams,
   parsePaginationParams,
+  calculateCursorPaginationMeta,
   calculatePaginationMeta,
 } from '@/utils/response';
 import {
   createUserSchema,
+  cursorPaginationSchema,
   updateUserSchema,
   idParamSchema,
   paginationSchema,
@@ -70,14 +73,37 @@ router.post(
 /**
  * GET /users
  * Get all users with pagination (requires authentication)
+ * Accepts a `cursor` parameter for cursor pagination, as GET /posts does.
  */
 router.get(
   '/',
   rateLimiters.read,
   authenticateToken,
   requirePermission('user:list'),
-  validateQuery(paginationSchema),
+  validateQuery(paginationSchema.merge(cursorPaginationSchema)),
   asyncHandler(async (req: AuthRequest, res: Response) => {
+    const cursorParams = parseCursorParams(req.query);
+    if (cursorParams) {
+      const page = await userService.getUsersByCursor(cursorParams);
+
+      if (!page) {
+        res
+          .status(HTTP_STATUS.BAD_REQUEST)
+          .json(createErrorResponse('INVALID_CURSOR', 'Cursor does not match this query'));
+        return;
+      }
+
+      res
+        .status(HTTP_STATUS.OK)
+        .json(
+          createPaginatedResponse(
+            page.items,
+            calculateCursorPaginationMeta(page, cursorParams.limit)
+          )
+        );
+      return;
+    }
+
     const { page, limit } = parsePaginationParams(req.query);
 
     const { users, total } = await userService.getAllUsers(page, limit);
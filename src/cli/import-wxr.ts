@@ -0,0 +1,65 @@
+import { text } from 'node:stream/consumers';
+import { parseArgs } from 'node:util';
+
+import { config } from '../../config/index.js';
+import { databaseService } from '../services/database.js';
+import { logger } from '../services/logger.js';
+import { redisService } from '../services/redis.js';
+import { userService } from '../services/user.js';
+import { wxrImportService } from '../services/wxr-import.js';
+import { parseWxr } from '../utils/wxr.js';
+
+const USAGE = 'Usage: npm run import:wxr -- --author <username> [--dry-run] < export.xml';
+
+/**
+ * Import a WordPress WXR export, read from standard input, from the command line
+ * Prints the import report as JSON.
+ */
+async function main(): Promise<void> {
+  const { values } = parseArgs({
+    options: {
+      author: { type: 'string' },
+      'dry-run': { type: 'boolean', default: false },
+    },
+  });
+
+  if (!values.author || process.stdin.isTTY) {
+    console.error(USAGE);
+    process.exitCode = 1;
+    return;
+  }
+
+  await databaseService.connect();
+  // Redis is only needed to drop cached sitemaps
+  if (config.redis.enabled) {
+    await redisService.connect();
+  }
+
+  try {
+    const author = await userService.getUserByUsername(values.author);
+    if (!author) {
+      console.error(`Author '${values.author}' not found`);
+      process.exitCode = 1;
+      return;
+    }
+
+    const document = parseWxr(await text(process.stdin));
+
+    const report = await wxrImportService.importDocument(document, {
+      dryRun: values['dry-run'] ?? false,
+      defaultAuthorId: author.id,
+    });
+
+    process.stdout.write(`${JSON.stringify(report, null, 2)}\n`);
+  } finally {
+    if (config.redis.enabled) {
+      await redisService.disconnect();
+    }
+    await databaseService.disconnect();
+  }
+}
+
+main().catch((error) => {
+  logger.error('WXR import failed:', error);
+  process.exitCode = 1;
+});
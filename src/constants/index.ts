@@ -2,6 +2,7 @@ export const HTTP_STATUS = {
   OK: 200,
   CREATED: 201,
   NO_CONTENT: 204,
+  MOVED_PERMANENTLY: 301,
   BAD_REQUEST: 400,
   UNAUTHORIZED: 401,
   FORBIDDEN: 403,
@@ -14,7 +15,9 @@ export const HTTP_STATUS = {
 
 export const USER_ROLES = {
   ADMIN: 'admin',
+  EDITOR: 'editor',
   USER: 'user',
+  CONTRIBUTOR: 'contributor',
   GUEST: 'guest',
 } as const;
 
@@ -45,15 +48,59 @@ export const ROLE_PERMISSIONS = {
     PERMISSIONS.FILE_UPLOAD,
     PERMISSIONS.FILE_READ,
   ],
+  [USER_ROLES.EDITOR]: [
+    PERMISSIONS.USER_READ,
+    PERMISSIONS.USER_UPDATE,
+    PERMISSIONS.FILE_UPLOAD,
+    PERMISSIONS.FILE_READ,
+  ],
+  [USER_ROLES.CONTRIBUTOR]: [PERMISSIONS.USER_READ, PERMISSIONS.USER_UPDATE, PERMISSIONS.FILE_READ],
   [USER_ROLES.GUEST]: [PERMISSIONS.USER_READ],
 } as const;
 
+export const TAXONOMIES = {
+  CATEGORY: 'category',
+  POST_TAG: 'post_tag',
+  NAV_MENU: 'nav_menu',
+} as const;
+
+// Post type of navigation menu items, grouped into menus by the nav_menu taxonomy
+export const NAV_MENU_ITEM_POST_TYPE = 'nav_menu_item';
+
+// Header carrying the token returned by POST /posts/:id/unlock
+export const POST_UNLOCK_TOKEN_HEADER = 'x-post-unlock-token';
+
+export const HIERARCHICAL_TAXONOMIES: readonly string[] = [TAXONOMIES.CATEGORY];
+
 export const CACHE_KEYS = {
   USER: (id: string) => `user:${id}`,
   USERS_LIST: 'users:list',
   SESSION: (id: string) => `session:${id}`,
+  SITEMAP_INDEX: 'sitemap:index',
+  SITEMAP_CHUNK: (chunk: number) => `sitemap:chunk:${chunk}`,
+  SITEMAP_ALL: 'sitemap:*',
+  POST_LOCK: (postId: number) => `post:lock:${postId}`,
+  POST_VIEW_SEEN: (postId: number, visitor: string) => `post:view:${postId}:${visitor}`,
+  POST_VIEWS_PENDING: 'post:views:pending',
+  POST_VIEWS_FLUSHING: 'post:views:flushing',
+  POST_VIEWS_FLUSH_LOCK: 'post:views:flush-lock',
 } as const;
 
+// Most URLs a single sitemap may list (sitemaps.org protocol limit)
+export const SITEMAP_MAX_URLS = 50000;
+
+// Largest WXR export accepted by the import endpoint
+export const WXR_IMPORT_MAX_SIZE = '50mb';
+
+// Posts read per query while streaming an export
+export const EXPORT_BATCH_SIZE = 200;
+
+// Levels of replies returned under a top-level comment; deeper replies are left out
+export const COMMENT_REPLY_MAX_DEPTH = 10;
+
+// Most posts a single bulk operation may touch
+export const BULK_MAX_POSTS = 100;
+
 export const CACHE_TTL = {
   SHORT: 300, // 5 minutes
   MEDIUM: 1800, // 30 minutes
@@ -66,6 +113,7 @@ export const KAFKA_TOPICS = {
   USER_UPDATED: 'user.updated',
   USER_DELETED: 'user.deleted',
   FILE_UPLOADED: 'file.uploaded',
+  POST_PUBLISHED: 'post.published',
 } as const;
 
 export const FILE_UPLOAD = {
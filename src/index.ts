@@ -9,8 +9,17 @@ import helmet from 'helmet';
 import { config } from '../config/index.js';
 
 import authRouter from './api/auth.js';
+import { commentsRouter, postCommentsRouter } from './api/comments.js';
+import { exportRouter } from './api/export.js';
+import { feedsRouter } from './api/feeds.js';
 import { healthRouter } from './api/health.js';
+import { importRouter } from './api/import.js';
+import { menusRouter } from './api/menus.js';
+import { pagesRouter } from './api/pages.js';
 import { postsRouter } from './api/posts.js';
+import { postRevisionsRouter } from './api/revisions.js';
+import { sitemapRouter } from './api/sitemap.js';
+import { termsRouter } from './api/terms.js';
 import { uploadsRouter } from './api/uploads.js';
 import { usersRouter } from './api/users.js';
 import { activityLogger } from './middleware/activity-logger.js';
@@ -20,7 +29,10 @@ import { databaseService } from './services/database.js';
 import { kafkaService } from './services/kafka.js';
 import { logger } from './services/logger.js';
 import { minioService } from './services/minio.js';
+import { postSchedulerService } from './services/post-scheduler.js';
+import { postViewService } from './services/post-view.js';
 import { redisService } from './services/redis.js';
+import { trashPurgeService } from './services/trash-purge.js';
 import { vaultService } from './services/vault.js';
 
 const app = express();
@@ -64,7 +76,19 @@ app.use(`/api/${config.apiVersion}/health`, healthRouter);
 app.use(`/api/${config.apiVersion}/auth`, authRouter);
 app.use(`/api/${config.apiVersion}/users`, usersRouter);
 app.use(`/api/${config.apiVersion}/posts`, postsRouter);
+app.use(`/api/${config.apiVersion}/posts/:id/comments`, postCommentsRouter);
+app.use(`/api/${config.apiVersion}/posts/:id/revisions`, postRevisionsRouter);
+app.use(`/api/${config.apiVersion}/comments`, commentsRouter);
+app.use(`/api/${config.apiVersion}/pages`, pagesRouter);
+app.use(`/api/${config.apiVersion}/feed`, feedsRouter);
+
+// Sitemaps are served from the site root
+app.use(sitemapRouter);
+app.use(`/api/${config.apiVersion}/terms`, termsRouter);
+app.use(`/api/${config.apiVersion}/menus`, menusRouter);
 app.use(`/api/${config.apiVersion}/uploads`, uploadsRouter);
+app.use(`/api/${config.apiVersion}/import`, importRouter);
+app.use(`/api/${config.apiVersion}/export`, exportRouter);
 
 // 404 handler
 app.use(notFoundHandler);
@@ -108,6 +132,13 @@ async function initializeServices(): Promise<void> {
 
 // Cleanup services
 async function cleanupServices(): Promise<void> {
+  postSchedulerService.stop();
+  trashPurgeService.stop();
+  postViewService.stop();
+
+  // Write the views buffered since the last flush before disconnecting
+  await postViewService.flush();
+
   const services = [
     {
       name: 'Database',
@@ -166,6 +197,21 @@ async function startServer(): Promise<void> {
   try {
     await initializeServices();
 
+    // Publish scheduled posts once their date arrives
+    if (config.scheduler.enabled && config.database.enabled) {
+      postSchedulerService.start();
+    }
+
+    // Delete trashed posts once their retention period is over
+    if (config.trash.retentionDays > 0 && config.database.enabled) {
+      trashPurgeService.start();
+    }
+
+    // Write buffered post views to the database
+    if (config.redis.enabled && config.database.enabled) {
+      postViewService.start();
+    }
+
     server = app.listen(config.port, config.host, () => {
       logger.info(`Server running on port ${config.port} in ${config.env} mode`);
       logger.info(`API Version: ${config.apiVersion}`);
@@ -1,6 +1,7 @@
 import type { Request, Response, NextFunction } from 'express';
 
 import { logger } from '../services/logger';
+import { postTypeRegistry } from '../services/post-type-registry';
 import type { UserRole } from '../types';
 
 /**
@@ -22,10 +23,41 @@ export const ROLE_PERMISSIONS: Record<string, string[]> = {
     'post:update',
     'post:delete',
     'post:list',
+    'post:update_others',
+    'post:delete_others',
+    'post:publish',
+    'post:review',
+    'term:create',
+    'term:update',
+    'term:delete',
+    'comment:moderate',
+    'comment:delete',
+    'menu:manage',
     'admin:access',
     'role:manage',
     'permission:manage',
   ],
+  editor: [
+    'user:read',
+    'user:update',
+    'file:upload',
+    'file:read',
+    'post:create',
+    'post:read',
+    'post:update',
+    'post:delete',
+    'post:list',
+    'post:update_others',
+    'post:delete_others',
+    'post:publish',
+    'post:review',
+    'term:create',
+    'term:update',
+    'term:delete',
+    'comment:moderate',
+    'comment:delete',
+    'menu:manage',
+  ],
   user: [
     'user:read',
     'user:update',
@@ -36,10 +68,46 @@ export const ROLE_PERMISSIONS: Record<string, string[]> = {
     'post:update',
     'post:delete',
     'post:list',
+    'post:publish',
+  ],
+  contributor: [
+    'user:read',
+    'user:update',
+    'file:read',
+    'post:create',
+    'post:read',
+    'post:update',
+    'post:delete',
+    'post:list',
   ],
   guest: ['user:read', 'post:read', 'post:list'],
 };
 
+/**
+ * Give each role the same permissions over a custom post type's prefix as it
+ * has over posts, e.g. "event:publish" for roles with "post:publish"
+ * Roles that already list permissions with the prefix are left as they are.
+ */
+export const grantPostTypePermissions = (prefix: string): void => {
+  for (const permissions of Object.values(ROLE_PERMISSIONS)) {
+    if (permissions.some((permission) => permission.startsWith(`${prefix}:`))) {
+      continue;
+    }
+
+    permissions.push(
+      ...permissions
+        .filter((permission) => permission.startsWith('post:'))
+        .map((permission) => `${prefix}:${permission.slice('post:'.length)}`)
+    );
+  }
+};
+
+for (const { permissionPrefix } of postTypeRegistry.list()) {
+  if (permissionPrefix !== 'post') {
+    grantPostTypePermissions(permissionPrefix);
+  }
+}
+
 /**
  * Extended Request interface with user information
  */
@@ -135,6 +203,35 @@ export const requirePermission = (...permissions: string[]) => {
   };
 };
 
+/**
+ * Middleware to require a permission that depends on the request, such as
+ * one named after the type of the post being edited
+ * Resolving to null means the resource does not exist (404).
+ */
+export const requireResolvedPermission = (
+  resolvePermission: (req: Request) => string | null | Promise<string | null>
+) => {
+  return async (req: AuthRequest, res: Response, next: NextFunction): Promise<void> => {
+    let permission: string | null;
+    try {
+      permission = await resolvePermission(req);
+    } catch (error) {
+      next(error);
+      return;
+    }
+
+    if (permission === null) {
+      res.status(404).json({
+        success: false,
+        error: 'Not Found - Resource not found',
+      });
+      return;
+    }
+
+    requirePermission(permission)(req, res, next);
+  };
+};
+
 /**
  * Middleware to require ANY of the specified permissions
  * User must have at least one of the specified permissions
@@ -180,11 +277,19 @@ export const requireAdmin = requireRole('admin');
 /**
  * Middleware to check if user owns the resource or is an admin
  * Useful for routes where users can only modify their own resources
+ *
+ * The owner lookup may be async. Returning null means the resource does not
+ * exist (404). Users holding `overridePermission` (e.g. `post:update_others`,
+ * or one resolved from the request) may access resources they do not own,
+ * like admins.
  */
 export const requireOwnershipOrAdmin = (
-  getResourceOwnerId: (req: Request) => string | undefined
+  getResourceOwnerId: (
+    req: Request
+  ) => string | null | undefined | Promise<string | null | undefined>,
+  overridePermission?: string | ((req: Request) => string | Promise<string>)
 ) => {
-  return (req: AuthRequest, res: Response, next: NextFunction): void => {
+  return async (req: AuthRequest, res: Response, next: NextFunction): Promise<void> => {
     if (!req.user) {
       res.status(401).json({
         success: false,
@@ -199,7 +304,21 @@ export const requireOwnershipOrAdmin = (
       return;
     }
 
-    const resourceOwnerId = getResourceOwnerId(req);
+    let resourceOwnerId: string | null | undefined;
+    try {
+      resourceOwnerId = await getResourceOwnerId(req);
+    } catch (error) {
+      next(error);
+      return;
+    }
+
+    if (resourceOwnerId === null) {
+      res.status(404).json({
+        success: false,
+        error: 'Not Found - Resource not found',
+      });
+      return;
+    }
 
     if (!resourceOwnerId) {
       res.status(400).json({
@@ -209,20 +328,35 @@ export const requireOwnershipOrAdmin = (
       return;
     }
 
-    if (req.user.userId !== resourceOwnerId) {
-      logger.warn('Access denied - resource ownership required', {
-        userId: req.user.userId,
-        resourceOwnerId,
-      });
+    if (req.user.userId === resourceOwnerId) {
+      next();
+      return;
+    }
 
-      res.status(403).json({
-        success: false,
-        error: 'Forbidden - You can only access your own resources',
-      });
+    try {
+      const permission =
+        typeof overridePermission === 'function'
+          ? await overridePermission(req)
+          : overridePermission;
+
+      if (permission && hasPermission(req.user.role, permission)) {
+        next();
+        return;
+      }
+    } catch (error) {
+      next(error);
       return;
     }
 
-    next();
+    logger.warn('Access denied - resource ownership required', {
+      userId: req.user.userId,
+      resourceOwnerId,
+    });
+
+    res.status(403).json({
+      success: false,
+      error: 'Forbidden - You can only access your own resources',
+    });
   };
 };
 
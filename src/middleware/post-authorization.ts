@@ -0,0 +1,67 @@
+import type { Request } from 'express';
+
+import { POST_UNLOCK_TOKEN_HEADER } from '../constants';
+import { postService } from '../services/post';
+import { postTypeRegistry } from '../services/post-type-registry';
+import type { PostType, PostViewer } from '../types';
+
+import type { AuthRequest } from './authorization';
+import {
+  getCurrentUserPermissions,
+  requireOwnershipOrAdmin,
+  requireResolvedPermission,
+} from './authorization';
+
+/**
+ * Look up the author of the post addressed by `:id`
+ */
+const getPostOwnerId = (req: Request): Promise<string | null> =>
+  postService.getPostAuthorId(parseInt((req.params as { id: string }).id, 10));
+
+/**
+ * Who is reading: decides whether password-protected content is shown
+ */
+export const getPostViewer = (req: AuthRequest): PostViewer => ({
+  userId: req.user?.userId,
+  permissions: getCurrentUserPermissions(req),
+  unlockToken: req.get(POST_UNLOCK_TOKEN_HEADER),
+});
+
+const postTypeLookups = new WeakMap<Request, Promise<PostType | null>>();
+
+/**
+ * Look up the type of the post addressed by `:id`, once per request
+ */
+export function getPostTypeOf(req: Request): Promise<PostType | null> {
+  let lookup = postTypeLookups.get(req);
+
+  if (!lookup) {
+    lookup = postService.getPostType(parseInt((req.params as { id: string }).id, 10));
+    postTypeLookups.set(req, lookup);
+  }
+
+  return lookup;
+}
+
+/**
+ * Resolve the permission for an action over the type of the post addressed by `:id`
+ */
+export const getPostTypePermission =
+  (action: string) =>
+  async (req: Request): Promise<string | null> => {
+    const type = await getPostTypeOf(req);
+    return type && postTypeRegistry.getPermission(type, action);
+  };
+
+/**
+ * Checks of a route acting on the post addressed by `:id`: the permission for
+ * `action` over the post's type, and ownership of the post unless the caller
+ * may act on others' posts of that type
+ */
+export const requirePostPermission = (action: 'update' | 'delete') => [
+  requireResolvedPermission(getPostTypePermission(action)),
+  requireOwnershipOrAdmin(
+    getPostOwnerId,
+    async (req) => (await getPostTypePermission(`${action}_others`)(req)) ?? ''
+  ),
+];
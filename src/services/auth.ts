@@ -1,4 +1,4 @@
-import jwt, { type SignOptions } from 'jsonwebtoken';
+import jwt, { type JwtPayload, type SignOptions } from 'jsonwebtoken';
 
 import { config } from '../../config/index.js';
 import type { User , UserRole } from '../types/index.js';
@@ -84,7 +84,15 @@ class AuthService {
    */
   verifyAccessToken(token: string): TokenPayload | null {
     try {
-      const decoded = jwt.verify(token, this.accessTokenSecret) as TokenPayload;
+      const decoded = jwt.verify(token, this.accessTokenSecret) as TokenPayload &
+        JwtPayload & { scope?: string };
+
+      // Tokens issued for a single purpose, like unlocking a post, never authenticate a user
+      if (decoded.scope !== undefined || decoded.aud !== undefined) {
+        logger.warn('Rejected scoped token used as access token', { scope: decoded.scope });
+        return null;
+      }
+
       return decoded;
     } catch (error) {
       logger.warn('Failed to verify access token', { error: (error as Error).message });
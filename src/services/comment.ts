@@ -0,0 +1,298 @@
+import type { Prisma } from '../../generated/prisma/client.js';
+
+import { databaseService } from './database.js';
+import { logger } from './logger.js';
+import { postService } from './post.js';
+
+import { COMMENT_REPLY_MAX_DEPTH } from '@/constants';
+import type {
+  Comment,
+  CommentModerationStatus,
+  CommentQueryParams,
+  CreateCommentDto,
+  PublicComment,
+} from '@/types';
+
+const prisma = () => databaseService.getClient();
+
+const APPROVED: CommentModerationStatus = 'approved';
+
+class CommentService {
+  /**
+   * Map Prisma Comment model to domain Comment object
+   */
+  private mapPrismaCommentToComment(prismaComment: {
+    id: number;
+    comment_post_id: number;
+    comment_parent: number;
+    user_id: string | null;
+    comment_author: string;
+    comment_author_email: string;
+    comment_author_url: string | null;
+    comment_content: string;
+    comment_approved: string;
+    comment_date: Date;
+    updated_at: Date;
+  }): Comment {
+    return {
+      id: prismaComment.id,
+      postId: prismaComment.comment_post_id,
+      parentId: prismaComment.comment_parent || null,
+      authorId: prismaComment.user_id,
+      authorName: prismaComment.comment_author,
+      authorEmail: prismaComment.comment_author_email,
+      authorUrl: prismaComment.comment_author_url,
+      content: prismaComment.comment_content,
+      status: prismaComment.comment_approved as CommentModerationStatus,
+      createdAt: prismaComment.comment_date,
+      updatedAt: prismaComment.updated_at,
+    };
+  }
+
+  /**
+   * Strip the fields only moderators may see from a comment
+   */
+  toPublicComment(comment: Comment): PublicComment {
+    const { authorEmail: _authorEmail, replies: _replies, ...publicComment } = comment;
+    return publicComment;
+  }
+
+  /**
+   * Create a new comment and keep the post's comment count in sync
+   */
+  async createComment(commentData: CreateCommentDto): Promise<Comment> {
+    try {
+      const comment = await prisma().comment.create({
+        data: {
+          comment_post_id: commentData.postId,
+          comment_parent: commentData.parentId || 0,
+          user_id: commentData.authorId,
+          comment_author: commentData.authorName,
+          comment_author_email: commentData.authorEmail,
+          comment_author_url: commentData.authorUrl,
+          comment_author_ip: commentData.authorIp,
+          comment_agent: commentData.userAgent,
+          comment_content: commentData.content,
+          comment_approved: commentData.status || 'pending',
+        },
+      });
+
+      if (comment.comment_approved === APPROVED) {
+        await postService.updateCommentCount(comment.comment_post_id, true);
+      }
+
+      logger.info('Comment created successfully', {
+        commentId: comment.id,
+        postId: comment.comment_post_id,
+      });
+      return this.mapPrismaCommentToComment(comment);
+    } catch (error) {
+      logger.error('Error creating comment:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Get comment by ID
+   */
+  async getCommentById(id: number): Promise<Comment | null> {
+    try {
+      const comment = await prisma().comment.findUnique({
+        where: { id },
+      });
+
+      return comment ? this.mapPrismaCommentToComment(comment) : null;
+    } catch (error) {
+      logger.error('Error fetching comment by ID:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Get approved comments of a post as threads
+   * Pagination applies to top-level comments; each carries its nested replies.
+   */
+  async getPostComments(
+    postId: number,
+    params: Pick<CommentQueryParams, 'page' | 'limit' | 'order'>
+  ): Promise<{ comments: PublicComment[]; total: number }> {
+    try {
+      const { page = 1, limit = 10, order = 'asc' } = params;
+      const skip = (page - 1) * limit;
+      const where = { comment_post_id: postId, comment_approved: APPROVED };
+
+      const [total, topLevel] = await Promise.all([
+        prisma().comment.count({ where: { ...where, comment_parent: 0 } }),
+        prisma().comment.findMany({
+          where: { ...where, comment_parent: 0 },
+          skip,
+          take: limit,
+          orderBy: { comment_date: order === 'desc' ? 'desc' : 'asc' },
+        }),
+      ]);
+
+      if (topLevel.length === 0) {
+        return { comments: [], total };
+      }
+
+      const threads = topLevel.map((comment) => ({
+        ...this.toPublicComment(this.mapPrismaCommentToComment(comment)),
+        replies: [] as PublicComment[],
+      }));
+      const byId = new Map<number, PublicComment>(threads.map((comment) => [comment.id, comment]));
+
+      // Replies are read a level at a time, only under the threads of this page
+      let parentIds = threads.map((comment) => comment.id);
+
+      for (let depth = 0; depth < COMMENT_REPLY_MAX_DEPTH && parentIds.length > 0; depth++) {
+        const replies = await prisma().comment.findMany({
+          where: { ...where, comment_parent: { in: parentIds } },
+          orderBy: { comment_date: 'asc' },
+        });
+
+        parentIds = [];
+        for (const reply of replies) {
+          const mapped = {
+            ...this.toPublicComment(this.mapPrismaCommentToComment(reply)),
+            replies: [],
+          };
+          byId.get(reply.comment_parent)?.replies?.push(mapped);
+          byId.set(mapped.id, mapped);
+          parentIds.push(mapped.id);
+        }
+      }
+
+      return { comments: threads, total };
+    } catch (error) {
+      logger.error('Error fetching post comments:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Get comments for moderation with filtering and pagination
+   */
+  async getComments(params: CommentQueryParams): Promise<{ comments: Comment[]; total: number }> {
+    try {
+      const { page = 1, limit = 10, postId, status, order = 'desc' } = params;
+      const skip = (page - 1) * limit;
+
+      const where: Prisma.CommentWhereInput = {};
+
+      if (postId) {
+        where.comment_post_id = postId;
+      }
+
+      if (status) {
+        where.comment_approved = status;
+      }
+
+      const [total, comments] = await Promise.all([
+        prisma().comment.count({ where }),
+        prisma().comment.findMany({
+          where,
+          skip,
+          take: limit,
+          orderBy: { comment_date: order === 'asc' ? 'asc' : 'desc' },
+        }),
+      ]);
+
+      return {
+        comments: comments.map((comment) => this.mapPrismaCommentToComment(comment)),
+        total,
+      };
+    } catch (error) {
+      logger.error('Error fetching comments:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Change the moderation status of a comment
+   * The post's comment count only tracks approved comments.
+   */
+  async updateCommentStatus(id: number, status: CommentModerationStatus): Promise<Comment | null> {
+    try {
+      const existing = await prisma().comment.findUnique({
+        where: { id },
+        select: { comment_approved: true },
+      });
+
+      if (!existing) {
+        return null;
+      }
+
+      const comment = await prisma().comment.update({
+        where: { id },
+        data: { comment_approved: status },
+      });
+
+      const wasApproved = existing.comment_approved === APPROVED;
+      const isApproved = status === APPROVED;
+
+      if (wasApproved !== isApproved) {
+        await postService.updateCommentCount(comment.comment_post_id, isApproved);
+      }
+
+      logger.info('Comment status updated', { commentId: id, status });
+      return this.mapPrismaCommentToComment(comment);
+    } catch (error) {
+      logger.error('Error updating comment status:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Permanently delete a comment
+   * Replies are re-attached to the deleted comment's parent.
+   */
+  async deleteComment(id: number): Promise<boolean> {
+    try {
+      const existing = await prisma().comment.findUnique({
+        where: { id },
+        select: { comment_post_id: true, comment_parent: true, comment_approved: true },
+      });
+
+      if (!existing) {
+        return false;
+      }
+
+      await prisma().$transaction([
+        prisma().comment.updateMany({
+          where: { comment_parent: id },
+          data: { comment_parent: existing.comment_parent },
+        }),
+        prisma().comment.delete({
+          where: { id },
+        }),
+      ]);
+
+      if (existing.comment_approved === APPROVED) {
+        await postService.updateCommentCount(existing.comment_post_id, false);
+      }
+
+      logger.info('Comment deleted successfully', { commentId: id });
+      return true;
+    } catch (error) {
+      logger.error('Error deleting comment:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Check if an approved comment exists on the given post (valid reply target)
+   */
+  async canReplyTo(parentId: number, postId: number): Promise<boolean> {
+    try {
+      const count = await prisma().comment.count({
+        where: { id: parentId, comment_post_id: postId, comment_approved: APPROVED },
+      });
+      return count > 0;
+    } catch (error) {
+      logger.error('Error checking comment parent:', error);
+      throw error;
+    }
+  }
+}
+
+export const commentService = new CommentService();
@@ -0,0 +1,192 @@
+import { config } from '../../config/index.js';
+import type { Prisma } from '../../generated/prisma/client.js';
+
+import { databaseService } from './database.js';
+import { logger } from './logger.js';
+import { termService } from './term.js';
+
+import { EXPORT_BATCH_SIZE, TAXONOMIES } from '@/constants';
+import type { ExportFilters, ExportFormat } from '@/types';
+import type { WxrAuthor, WxrItem, WxrTerm } from '@/utils/wxr';
+import { buildWxrHeader, buildWxrItem, WXR_FOOTER } from '@/utils/wxr';
+
+const prisma = () => databaseService.getClient();
+
+/**
+ * Exports posts, pages, terms and authors as a WXR file or a JSON bundle
+ *
+ * Both formats carry the same records; the JSON bundle has the shape of a
+ * parsed WXR document. Posts are read in batches of EXPORT_BATCH_SIZE and
+ * yielded as text chunks, so the export never holds the whole site in memory.
+ * Post passwords are stored hashed and cannot be exported.
+ */
+class ExportService {
+  private buildWhere(filters: ExportFilters): Prisma.PostWhereInput {
+    return {
+      post_type: { in: ['post', 'page'] },
+      ...(filters.status && { post_status: filters.status }),
+      ...(filters.authorId && { post_author: filters.authorId }),
+      ...((filters.from || filters.to) && {
+        post_date: {
+          ...(filters.from && { gte: filters.from }),
+          ...(filters.to && { lte: filters.to }),
+        },
+      }),
+    };
+  }
+
+  /**
+   * Authors of the exported posts
+   */
+  private async getAuthors(where: Prisma.PostWhereInput): Promise<(WxrAuthor & { id: string })[]> {
+    const authorIds = await prisma().post.findMany({
+      where,
+      distinct: ['post_author'],
+      select: { post_author: true },
+    });
+
+    const users = await prisma().user.findMany({
+      where: { id: { in: authorIds.map((post) => post.post_author) } },
+      select: { id: true, username: true, email: true },
+      orderBy: { username: 'asc' },
+    });
+
+    return users.map((user) => ({ id: user.id, login: user.username, email: user.email }));
+  }
+
+  /**
+   * Every category and tag, parents before their children
+   */
+  private async getTerms(): Promise<WxrTerm[]> {
+    const termTaxonomies = await prisma().termTaxonomy.findMany({
+      where: { taxonomy: { in: [TAXONOMIES.CATEGORY, TAXONOMIES.POST_TAG] } },
+      include: { term: true },
+      orderBy: [{ parent: 'asc' }, { termTaxonomyId: 'asc' }],
+    });
+
+    const slugsByTermId = new Map(termTaxonomies.map((tt) => [tt.termId, tt.term.slug]));
+
+    return termTaxonomies.map((tt) => ({
+      taxonomy: tt.taxonomy as WxrTerm['taxonomy'],
+      slug: tt.term.slug,
+      name: tt.term.name,
+      description: tt.description,
+      parentSlug: (tt.parent && slugsByTermId.get(tt.parent)) || null,
+    }));
+  }
+
+  /**
+   * Yield the exported posts batch by batch
+   */
+  private async *getItems(
+    where: Prisma.PostWhereInput,
+    usernames: Map<string, string>
+  ): AsyncGenerator<WxrItem[]> {
+    let lastId = 0;
+
+    while (true) {
+      const posts = await prisma().post.findMany({
+        where: { ...where, id: { gt: lastId } },
+        orderBy: { id: 'asc' },
+        take: EXPORT_BATCH_SIZE,
+      });
+
+      if (posts.length === 0) return;
+      lastId = posts[posts.length - 1].id;
+
+      const parentUuids = posts.map((post) => post.post_parent).filter((uuid) => !!uuid);
+      const [termsByPost, parents] = await Promise.all([
+        termService.getObjectTerms(posts.map((post) => post.id)),
+        parentUuids.length > 0
+          ? prisma().post.findMany({
+              where: { uuid: { in: parentUuids as string[] } },
+              select: { id: true, uuid: true },
+            })
+          : [],
+      ]);
+      const parentIds = new Map(parents.map((parent) => [parent.uuid, parent.id]));
+
+      yield posts.map((post) => ({
+        wpId: post.id,
+        guid: `urn:uuid:${post.uuid}`,
+        title: post.post_title,
+        content: post.post_content,
+        excerpt: post.post_excerpt,
+        slug: post.post_name,
+        status: post.post_status,
+        type: post.post_type,
+        author: usernames.get(post.post_author) ?? post.post_author,
+        password: '',
+        commentStatus: post.comment_status,
+        pingStatus: post.ping_status,
+        parentWpId: (post.post_parent && parentIds.get(post.post_parent)) || 0,
+        menuOrder: post.menu_order,
+        publishedAt: post.post_date,
+        terms: (termsByPost.get(post.id) ?? []).map((term) => ({
+          taxonomy: term.taxonomy as WxrTerm['taxonomy'],
+          slug: term.slug,
+          name: term.name,
+          description: null,
+          parentSlug: null,
+        })),
+        locale: post.locale,
+        translationGroup: post.translation_group,
+      }));
+
+      if (posts.length < EXPORT_BATCH_SIZE) return;
+    }
+  }
+
+  /**
+   * Yield an export document as text chunks
+   */
+  async *streamExport(format: ExportFormat, filters: ExportFilters): AsyncGenerator<string> {
+    try {
+      const where = this.buildWhere(filters);
+      const authors = await this.getAuthors(where);
+      const terms = await this.getTerms();
+      const items = this.getItems(where, new Map(authors.map((a) => [a.id, a.login])));
+      const authorEntries = authors.map(({ login, email }) => ({ login, email }));
+
+      if (format === 'wxr') {
+        yield buildWxrHeader(
+          { title: config.site.title, link: config.site.url, description: config.site.description },
+          authorEntries,
+          terms
+        );
+
+        for await (const batch of items) {
+          yield batch.map(buildWxrItem).join('');
+        }
+
+        yield WXR_FOOTER;
+        return;
+      }
+
+      const head = JSON.stringify({
+        site: { title: config.site.title, url: config.site.url },
+        exportedAt: new Date(),
+        authors: authorEntries,
+        terms,
+      });
+      let separator = '';
+
+      // Items are streamed into the array left open at the end of the head
+      yield `${head.slice(0, -1)},"items":[`;
+
+      for await (const batch of items) {
+        for (const item of batch) {
+          yield `${separator}${JSON.stringify(item)}`;
+          separator = ',';
+        }
+      }
+
+      yield ']}\n';
+    } catch (error) {
+      logger.error('Error exporting content:', error);
+      throw error;
+    }
+  }
+}
+
+export const exportService = new ExportService();
@@ -0,0 +1,127 @@
+import { createHash } from 'node:crypto';
+
+import { config } from '../../config/index.js';
+
+import { databaseService } from './database.js';
+import { logger } from './logger.js';
+import { postService } from './post.js';
+
+import type { Post } from '@/types';
+import type { FeedItem } from '@/utils/feed';
+import { buildAtomFeed, buildRssFeed } from '@/utils/feed';
+import { localizePath } from '@/utils/permalink';
+
+const prisma = () => databaseService.getClient();
+
+export type FeedFormat = 'rss' | 'atom';
+
+/**
+ * Which published posts a feed covers and how it is labelled
+ */
+export interface FeedOptions {
+  format: FeedFormat;
+  selfUrl: string;
+  title?: string;
+  authorId?: string;
+  category?: string;
+}
+
+/**
+ * A rendered feed with its HTTP cache validators
+ */
+export interface RenderedFeed {
+  body: string;
+  etag: string;
+  lastModified: Date;
+}
+
+class FeedService {
+  /**
+   * Public URL of a post on the site
+   */
+  private getPostUrl(post: Post): string {
+    return `${config.site.url.replace(/\/$/, '')}/${localizePath(
+      encodeURIComponent(post.slug),
+      post.locale
+    )}`;
+  }
+
+  /**
+   * Plain-text summary used when a post has no excerpt
+   */
+  private summarize(content: string, words: number = 55): string {
+    const plain = content
+      .replaceAll(/<[^>]*>/g, ' ')
+      .replaceAll(/\s+/g, ' ')
+      .trim()
+      .split(' ');
+
+    return plain.length > words ? `${plain.slice(0, words).join(' ')}…` : plain.join(' ');
+  }
+
+  /**
+   * Map a post to a feed item; protected posts only expose their excerpt
+   */
+  private toFeedItem(post: Post, authorNames: Map<string, string>): FeedItem {
+    return {
+      id: `urn:uuid:${post.uuid}`,
+      title: post.title,
+      link: this.getPostUrl(post),
+      summary: post.excerpt || (post.isProtected ? '' : this.summarize(post.content)),
+      content: post.isProtected ? null : post.content,
+      author: authorNames.get(post.authorId) ?? '',
+      categories: post.categories.map((category) => category.name),
+      publishedAt: post.publishedAt ?? post.createdAt,
+      updatedAt: post.updatedAt,
+    };
+  }
+
+  /**
+   * Render the latest published posts as RSS 2.0 or Atom
+   */
+  async getFeed(options: FeedOptions): Promise<RenderedFeed> {
+    try {
+      const { posts } = await postService.getPosts({
+        page: 1,
+        limit: config.feed.itemCount,
+        status: 'publish',
+        type: 'post',
+        authorId: options.authorId,
+        category: options.category,
+        orderBy: 'date',
+        order: 'desc',
+      });
+
+      const authorIds = [...new Set(posts.map((post) => post.authorId))];
+      const authors = authorIds.length
+        ? await prisma().user.findMany({
+            where: { id: { in: authorIds } },
+            select: { id: true, username: true },
+          })
+        : [];
+      const authorNames = new Map(authors.map((author) => [author.id, author.username]));
+
+      const items = posts.map((post) => this.toFeedItem(post, authorNames));
+      const lastModified = new Date(Math.max(0, ...items.map((item) => item.updatedAt.getTime())));
+
+      const channel = {
+        title: options.title ? `${config.site.title} - ${options.title}` : config.site.title,
+        description: config.site.description,
+        siteUrl: config.site.url,
+        selfUrl: options.selfUrl,
+        updatedAt: lastModified,
+      };
+
+      const body =
+        options.format === 'atom' ? buildAtomFeed(channel, items) : buildRssFeed(channel, items);
+      const etag = `"${createHash('sha1').update(body).digest('hex')}"`;
+
+      return { body, etag, lastModified };
+    } catch (error) {
+      logger.error('Error building feed:', error);
+      throw error;
+    }
+  }
+}
+
+export const feedService = new FeedService();
@@ -62,6 +62,10 @@ class KafkaService {
     logger.info('Kafka disconnected');
   }
 
+  isEnabled(): boolean {
+    return config.kafka.enabled && this.isConnected;
+  }
+
   getProducer(): Producer {
     if (!config.kafka.enabled) {
       throw new Error('Kafka is disabled');
@@ -2,6 +2,9 @@ import type { Prisma } from '../../generated/prisma/client.js';
 
 import { databaseService } from './database.js';
 
+import type { CursorPage, CursorPaginationParams } from '@/types';
+import { buildKeysetArgs, decodeCursor, toCursorPage } from '@/utils/cursor';
+
 const prisma = () => databaseService.getClient();
 
 export interface LogEntry {
@@ -26,10 +29,10 @@ export interface LogQueryOptions {
  */
 class LogService {
   /**
-   * Query logs from the database
+   * Build the where clause of a log query
    */
-  async getLogs(options: LogQueryOptions = {}): Promise<LogEntry[]> {
-    const { level, startDate, endDate, limit = 100, offset = 0 } = options;
+  private buildWhere(options: Pick<LogQueryOptions, 'level' | 'startDate' | 'endDate'>) {
+    const { level, startDate, endDate } = options;
 
     const where: Prisma.LogWhereInput = {};
 
@@ -47,44 +50,94 @@ class LogService {
       }
     }
 
-    const logs = await prisma().log.findMany({
-      where,
-      orderBy: {
-        created_at: 'desc',
-      },
-      take: limit,
-      skip: offset,
-    });
+    return where;
+  }
 
-    return logs.map((log) => ({
+  /**
+   * Map Prisma Log model to LogEntry object
+   */
+  private mapLog(log: {
+    id: string;
+    level: string;
+    message: string;
+    meta: unknown;
+    created_at: Date;
+    updated_at: Date;
+  }): LogEntry {
+    return {
       id: log.id,
       level: log.level,
       message: log.message,
       meta: log.meta as Record<string, unknown> | null,
       createdAt: log.created_at,
       updatedAt: log.updated_at,
-    }));
+    };
   }
 
   /**
-   * Get log count by level
+   * Query logs from the database
    */
-  async getLogCountByLevel(startDate?: Date, endDate?: Date): Promise<Record<string, number>> {
-    const where: Prisma.LogWhereInput = {};
+  async getLogs(options: LogQueryOptions = {}): Promise<LogEntry[]> {
+    const { limit = 100, offset = 0 } = options;
 
-    if (startDate || endDate) {
-      where.created_at = {};
-      if (startDate) {
-        where.created_at.gte = startDate;
-      }
-      if (endDate) {
-        where.created_at.lte = endDate;
-      }
+    const logs = await prisma().log.findMany({
+      where: this.buildWhere(options),
+      orderBy: {
+        created_at: 'desc',
+      },
+      take: limit,
+      skip: offset,
+    });
+
+    return logs.map((log) => this.mapLog(log));
+  }
+
+  /**
+   * Query a page of logs after or before a cursor, newest first
+   * Takes the same filters as getLogs; the total is only counted when asked
+   * for. Returns null when the cursor was issued for another listing.
+   */
+  async getLogsByCursor(
+    options: Omit<LogQueryOptions, 'limit' | 'offset'> & CursorPaginationParams
+  ): Promise<CursorPage<LogEntry> | null> {
+    const { cursor, limit, includeTotal, ...filters } = options;
+    const sort = 'created_at:desc';
+    const position = cursor ? decodeCursor(cursor, sort) : undefined;
+
+    if (position === null) {
+      return null;
     }
 
+    const where = this.buildWhere(filters);
+    const { where: keysetWhere, ...keyset } = buildKeysetArgs(
+      { field: 'created_at', order: 'desc', limit },
+      position
+    );
+
+    const [logs, total] = await Promise.all([
+      prisma().log.findMany({
+        where: keysetWhere ? { AND: [where, keysetWhere] } : where,
+        ...keyset,
+      }),
+      includeTotal ? prisma().log.count({ where }) : undefined,
+    ]);
+
+    const page = toCursorPage(logs, { field: 'created_at', sort, limit }, position);
+
+    return {
+      ...page,
+      items: page.items.map((log) => this.mapLog(log)),
+      ...(total !== undefined && { total }),
+    };
+  }
+
+  /**
+   * Get log count by level
+   */
+  async getLogCountByLevel(startDate?: Date, endDate?: Date): Promise<Record<string, number>> {
     const result = await prisma().log.groupBy({
       by: ['level'],
-      where,
+      where: this.buildWhere({ startDate, endDate }),
       _count: {
         level: true,
       },
@@ -127,18 +180,7 @@ class LogService {
       },
     });
 
-    if (!log) {
-      return null;
-    }
-
-    return {
-      id: log.id,
-      level: log.level,
-      message: log.message,
-      meta: log.meta as Record<string, unknown> | null,
-      createdAt: log.created_at,
-      updatedAt: log.updated_at,
-    };
+    return log ? this.mapLog(log) : null;
   }
 }
 
@@ -0,0 +1,548 @@
+import { randomUUID } from 'node:crypto';
+
+import { config } from '../../config/index.js';
+
+import { databaseService } from './database.js';
+import { logger } from './logger.js';
+import { pageService } from './page.js';
+import { postMetaService } from './post-meta.js';
+import { postService } from './post.js';
+import { termService } from './term.js';
+
+import { NAV_MENU_ITEM_POST_TYPE, TAXONOMIES } from '@/constants';
+import type {
+  CreateNavMenuItemDto,
+  CreateTermDto,
+  NavMenuItem,
+  NavMenuItemNode,
+  NavMenuItemOrder,
+  NavMenuItemType,
+  NavMenuTree,
+  PostMetaMap,
+  Term,
+  UpdateNavMenuItemDto,
+  UpdateTermDto,
+} from '@/types';
+import { localizePath } from '@/utils/permalink';
+
+const prisma = () => databaseService.getClient();
+
+// Post meta holding what a menu item points to
+const MENU_ITEM_META = {
+  TYPE: 'menu_item_type',
+  OBJECT_ID: 'menu_item_object_id',
+  URL: 'menu_item_url',
+} as const;
+
+// First path segment of term archive URLs, as in WordPress
+const TERM_URL_BASES: Record<string, string> = {
+  [TAXONOMIES.CATEGORY]: 'category',
+  [TAXONOMIES.POST_TAG]: 'tag',
+};
+
+interface MenuItemRecord {
+  id: number;
+  uuid: string;
+  post_title: string;
+  post_parent: string | null;
+  menu_order: number;
+  meta?: PostMetaMap;
+}
+
+/**
+ * WordPress-style navigation menus
+ *
+ * A menu is a term of the nav_menu taxonomy; its items are nav_menu_item posts
+ * assigned to that term. Items are nested through post_parent (the parent
+ * item's UUID) and ordered among siblings by menu_order, like pages, and keep
+ * what they point to (a post, a page, a term or a custom URL) in post meta.
+ */
+class MenuService {
+  private get siteUrl(): string {
+    return config.site.url.replace(/\/$/, '');
+  }
+
+  /**
+   * Map item posts to menu items, resolving parent UUIDs to item IDs
+   */
+  private mapItems(menuId: number, records: MenuItemRecord[]): NavMenuItem[] {
+    const idsByUuid = new Map(records.map((record) => [record.uuid, record.id]));
+
+    return records
+      .map((record) => {
+        const objectId = record.meta?.[MENU_ITEM_META.OBJECT_ID];
+        const url = record.meta?.[MENU_ITEM_META.URL];
+
+        return {
+          id: record.id,
+          menuId,
+          title: record.post_title,
+          type: (record.meta?.[MENU_ITEM_META.TYPE] ?? 'custom') as NavMenuItemType,
+          objectId: typeof objectId === 'number' ? objectId : null,
+          url: typeof url === 'string' ? url : null,
+          parentId: (record.post_parent && idsByUuid.get(record.post_parent)) || null,
+          menuOrder: record.menu_order,
+        };
+      })
+      .sort((a, b) => a.menuOrder - b.menuOrder || a.id - b.id);
+  }
+
+  /**
+   * Item posts of a menu with their target meta attached
+   */
+  private async getItemRecords(menu: Term): Promise<MenuItemRecord[]> {
+    const ids = await termService.getObjectIdsByTermSlug(menu.slug, TAXONOMIES.NAV_MENU);
+
+    if (ids.length === 0) {
+      return [];
+    }
+
+    const records: MenuItemRecord[] = await prisma().post.findMany({
+      where: { id: { in: ids }, post_type: NAV_MENU_ITEM_POST_TYPE },
+      select: { id: true, uuid: true, post_title: true, post_parent: true, menu_order: true },
+    });
+
+    await postMetaService.attachMeta(records, Object.values(MENU_ITEM_META));
+
+    return records;
+  }
+
+  /**
+   * Get menus with pagination
+   */
+  async getMenus(page: number, limit: number): Promise<{ menus: Term[]; total: number }> {
+    const { terms, total } = await termService.getTerms({
+      page,
+      limit,
+      taxonomy: TAXONOMIES.NAV_MENU,
+      orderBy: 'name',
+    });
+
+    return { menus: terms, total };
+  }
+
+  /**
+   * Get a menu by its term ID, or null if there is no such menu
+   */
+  async getMenu(id: number): Promise<Term | null> {
+    const term = await termService.getTermById(id);
+    return term?.taxonomy === TAXONOMIES.NAV_MENU ? term : null;
+  }
+
+  async getMenuBySlug(slug: string): Promise<Term | null> {
+    return termService.getTermBySlug(slug, TAXONOMIES.NAV_MENU);
+  }
+
+  async createMenu(menuData: Omit<CreateTermDto, 'taxonomy' | 'parentId'>): Promise<Term> {
+    return termService.createTerm({ ...menuData, taxonomy: TAXONOMIES.NAV_MENU });
+  }
+
+  /**
+   * Rename or describe a menu
+   * Returns null if there is no such menu.
+   */
+  async updateMenu(id: number, menuData: Omit<UpdateTermDto, 'parentId'>): Promise<Term | null> {
+    if (!(await this.getMenu(id))) {
+      return null;
+    }
+
+    return termService.updateTerm(id, menuData);
+  }
+
+  /**
+   * Delete a menu along with its items
+   * Returns false if there is no such menu.
+   */
+  async deleteMenu(id: number): Promise<boolean> {
+    try {
+      const menu = await this.getMenu(id);
+      if (!menu) {
+        return false;
+      }
+
+      for (const record of await this.getItemRecords(menu)) {
+        await postService.deletePost(record.id);
+      }
+
+      await termService.deleteTerm(id);
+
+      logger.info('Menu deleted successfully', { menuId: id });
+      return true;
+    } catch (error) {
+      logger.error('Error deleting menu:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Items of a menu as a flat list, in menu order
+   */
+  async getItems(menu: Term): Promise<NavMenuItem[]> {
+    try {
+      return this.mapItems(menu.id, await this.getItemRecords(menu));
+    } catch (error) {
+      logger.error('Error fetching menu items:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Check that a menu item can point to a post, page or term
+   * Returns the reason it cannot, or null.
+   */
+  async getTargetError(type: NavMenuItemType, objectId?: number): Promise<string | null> {
+    if (type === 'custom') {
+      return null;
+    }
+
+    if (objectId === undefined) {
+      return `Items of type '${type}' need an objectId`;
+    }
+
+    if (type === 'term') {
+      const [term] = await termService.getTermsByIds([objectId]);
+      return term && TERM_URL_BASES[term.taxonomy] ? null : 'Term not found';
+    }
+
+    const post = await postService.getPostType(objectId);
+    return post === type ? null : `${type === 'page' ? 'Page' : 'Post'} not found`;
+  }
+
+  /**
+   * Check that `parentId` can be the parent of an item: it must be an item of
+   * the same menu and, when moving an item, neither the item itself nor one of
+   * its descendants
+   */
+  getParentError(items: NavMenuItem[], parentId: number, itemId?: number): string | null {
+    const itemsById = new Map(items.map((item) => [item.id, item]));
+
+    if (!itemsById.has(parentId)) {
+      return 'Parent item not found in this menu';
+    }
+
+    const visited = new Set<number>();
+    let current: number | null = parentId;
+
+    while (current !== null && !visited.has(current)) {
+      if (current === itemId) {
+        return 'An item cannot be nested under itself or one of its descendants';
+      }
+
+      visited.add(current);
+      current = itemsById.get(current)?.parentId ?? null;
+    }
+
+    return null;
+  }
+
+  /**
+   * Add an item to a menu
+   * New items go after their siblings unless a menuOrder is given.
+   */
+  async addItem(
+    menu: Term,
+    itemData: CreateNavMenuItemDto,
+    authorId: string
+  ): Promise<NavMenuItem> {
+    try {
+      const items = await this.getItemRecords(menu);
+      const parent = itemData.parentId
+        ? items.find((item) => item.id === itemData.parentId)
+        : undefined;
+      const siblings = this.mapItems(menu.id, items).filter(
+        (item) => item.parentId === (parent?.id ?? null)
+      );
+
+      const uuid = randomUUID();
+      const post = await prisma().$transaction(async (tx) => {
+        const created = await tx.post.create({
+          data: {
+            uuid,
+            post_title: itemData.title ?? '',
+            post_content: '',
+            post_type: NAV_MENU_ITEM_POST_TYPE,
+            post_status: 'publish',
+            post_author: authorId,
+            // Menu items have no permalink; the UUID keeps slugs unique per locale
+            post_name: uuid,
+            post_parent: parent?.uuid ?? '',
+            menu_order:
+              itemData.menuOrder ??
+              siblings.reduce((max, item) => Math.max(max, item.menuOrder + 1), 0),
+          },
+          select: { id: true, uuid: true, post_title: true, post_parent: true, menu_order: true },
+        });
+
+        await termService.setObjectTerms(created.id, TAXONOMIES.NAV_MENU, [menu.id], tx);
+        await postMetaService.setMeta(created.id, MENU_ITEM_META.TYPE, itemData.type, tx);
+
+        if (itemData.type === 'custom') {
+          await postMetaService.setMeta(created.id, MENU_ITEM_META.URL, itemData.url ?? '', tx);
+        } else if (itemData.objectId !== undefined) {
+          await postMetaService.setMeta(
+            created.id,
+            MENU_ITEM_META.OBJECT_ID,
+            itemData.objectId,
+            tx
+          );
+        }
+
+        return created;
+      });
+
+      logger.info('Menu item added', { menuId: menu.id, itemId: post.id });
+
+      const [item] = this.mapItems(menu.id, [
+        ...items,
+        {
+          ...post,
+          meta: {
+            [MENU_ITEM_META.TYPE]: itemData.type,
+            [MENU_ITEM_META.OBJECT_ID]: itemData.objectId ?? null,
+            [MENU_ITEM_META.URL]: itemData.url ?? null,
+          },
+        },
+      ]).filter((mapped) => mapped.id === post.id);
+
+      return item;
+    } catch (error) {
+      logger.error('Error adding menu item:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Update an item of a menu
+   * Returns null if the menu has no such item.
+   */
+  async updateItem(
+    menu: Term,
+    itemId: number,
+    itemData: UpdateNavMenuItemDto
+  ): Promise<NavMenuItem | null> {
+    try {
+      const records = await this.getItemRecords(menu);
+      const record = records.find((item) => item.id === itemId);
+
+      if (!record) {
+        return null;
+      }
+
+      const parentUuid =
+        itemData.parentId === undefined
+          ? undefined
+          : (records.find((item) => item.id === itemData.parentId)?.uuid ?? '');
+
+      const post = await prisma().post.update({
+        where: { id: itemId },
+        data: {
+          ...(itemData.title !== undefined && { post_title: itemData.title }),
+          ...(itemData.menuOrder !== undefined && { menu_order: itemData.menuOrder }),
+          ...(parentUuid !== undefined && { post_parent: parentUuid }),
+        },
+        select: { id: true, uuid: true, post_title: true, post_parent: true, menu_order: true },
+      });
+
+      const meta = { ...record.meta };
+
+      if (itemData.objectId !== undefined) {
+        await postMetaService.setMeta(itemId, MENU_ITEM_META.OBJECT_ID, itemData.objectId);
+        meta[MENU_ITEM_META.OBJECT_ID] = itemData.objectId;
+      }
+
+      if (itemData.url !== undefined) {
+        await postMetaService.setMeta(itemId, MENU_ITEM_META.URL, itemData.url);
+        meta[MENU_ITEM_META.URL] = itemData.url;
+      }
+
+      const updated = records.map((item) => (item.id === itemId ? { ...post, meta } : item));
+      return this.mapItems(menu.id, updated).find((item) => item.id === itemId) ?? null;
+    } catch (error) {
+      logger.error('Error updating menu item:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Remove an item from a menu; its children move up to its parent
+   * Returns false if the menu has no such item.
+   */
+  async deleteItem(menu: Term, itemId: number): Promise<boolean> {
+    try {
+      const record = (await this.getItemRecords(menu)).find((item) => item.id === itemId);
+
+      if (!record) {
+        return false;
+      }
+
+      await prisma().post.updateMany({
+        where: { post_type: NAV_MENU_ITEM_POST_TYPE, post_parent: record.uuid },
+        data: { post_parent: record.post_parent ?? '' },
+      });
+      await postService.deletePost(itemId);
+
+      logger.info('Menu item removed', { menuId: menu.id, itemId });
+      return true;
+    } catch (error) {
+      logger.error('Error removing menu item:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Check a reorder request: every item must belong to the menu, and the
+   * resulting structure must not nest an item under itself
+   * Returns the reason it is invalid, or null.
+   */
+  getReorderError(items: NavMenuItem[], order: NavMenuItemOrder[]): string | null {
+    const knownIds = new Set(items.map((item) => item.id));
+    const unknown = order.find(
+      (entry) =>
+        !knownIds.has(entry.id) || (entry.parentId !== null && !knownIds.has(entry.parentId))
+    );
+
+    if (unknown) {
+      return 'One or more items do not belong to this menu';
+    }
+
+    const changes = new Map(order.map((entry) => [entry.id, entry.parentId]));
+    const reordered = items.map((item) => ({
+      ...item,
+      parentId: changes.has(item.id) ? (changes.get(item.id) ?? null) : item.parentId,
+    }));
+
+    for (const item of reordered) {
+      if (item.parentId !== null && this.getParentError(reordered, item.parentId, item.id)) {
+        return 'An item cannot be nested under itself or one of its descendants';
+      }
+    }
+
+    return null;
+  }
+
+  /**
+   * Move and reorder several items of a menu at once
+   */
+  async reorderItems(menu: Term, order: NavMenuItemOrder[]): Promise<NavMenuItem[]> {
+    try {
+      const records = await this.getItemRecords(menu);
+      const uuidsById = new Map(records.map((record) => [record.id, record.uuid]));
+
+      await prisma().$transaction(
+        order.map((entry) =>
+          prisma().post.update({
+            where: { id: entry.id },
+            data: {
+              menu_order: entry.menuOrder,
+              post_parent: entry.parentId === null ? '' : (uuidsById.get(entry.parentId) ?? ''),
+            },
+          })
+        )
+      );
+
+      logger.info('Menu items reordered', { menuId: menu.id, count: order.length });
+      return this.getItems(menu);
+    } catch (error) {
+      logger.error('Error reordering menu items:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * A menu with its items as a nested tree, each with the title and URL of
+   * what it points to
+   * Items pointing to something that is gone or not published are left out,
+   * along with their children.
+   */
+  async getMenuTree(menu: Term): Promise<NavMenuTree> {
+    try {
+      const items = await this.getItems(menu);
+      const idsOf = (types: NavMenuItemType[]) =>
+        items
+          .filter((item) => types.includes(item.type) && item.objectId !== null)
+          .map((item) => item.objectId as number);
+
+      const postIds = idsOf(['post', 'page']);
+      const termIds = idsOf(['term']);
+
+      const [posts, terms, pagePaths] = await Promise.all([
+        postIds.length > 0
+          ? prisma().post.findMany({
+              where: { id: { in: postIds }, post_status: 'publish' },
+              select: {
+                id: true,
+                uuid: true,
+                post_title: true,
+                post_name: true,
+                post_type: true,
+                locale: true,
+              },
+            })
+          : [],
+        termIds.length > 0 ? termService.getTermsByIds(termIds) : [],
+        items.some((item) => item.type === 'page')
+          ? pageService.getPagePaths()
+          : new Map<string, string>(),
+      ]);
+
+      const postsById = new Map(posts.map((post) => [post.id, post]));
+      const termsById = new Map(terms.map((term) => [term.id, term]));
+
+      const resolve = (item: NavMenuItem): { title: string; url: string } | null => {
+        if (item.type === 'custom') {
+          return item.url ? { title: item.title, url: item.url } : null;
+        }
+
+        if (item.type === 'term') {
+          const term = item.objectId !== null ? termsById.get(item.objectId) : undefined;
+          const base = term && TERM_URL_BASES[term.taxonomy];
+
+          return term && base
+            ? {
+                title: item.title || term.name,
+                url: `${this.siteUrl}/${base}/${encodeURIComponent(term.slug)}`,
+              }
+            : null;
+        }
+
+        const post = item.objectId !== null ? postsById.get(item.objectId) : undefined;
+        if (!post || post.post_type !== item.type) {
+          return null;
+        }
+
+        const path =
+          (item.type === 'page' && pagePaths.get(post.uuid)) || encodeURIComponent(post.post_name);
+
+        return {
+          title: item.title || post.post_title,
+          url: `${this.siteUrl}/${localizePath(path, post.locale)}`,
+        };
+      };
+
+      const nodes = new Map<number, NavMenuItemNode>();
+      for (const item of items) {
+        const resolved = resolve(item);
+        if (resolved) {
+          nodes.set(item.id, { ...item, ...resolved, children: [] });
+        }
+      }
+
+      // Items come in menu order, so children are appended in order too
+      const roots: NavMenuItemNode[] = [];
+      for (const node of nodes.values()) {
+        if (node.parentId === null) {
+          roots.push(node);
+        } else {
+          nodes.get(node.parentId)?.children.push(node);
+        }
+      }
+
+      return { ...menu, items: roots };
+    } catch (error) {
+      logger.error('Error building menu tree:', error);
+      throw error;
+    }
+  }
+}
+
+export const menuService = new MenuService();
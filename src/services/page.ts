@@ -0,0 +1,311 @@
+import { config } from '../../config/index.js';
+
+import { databaseService } from './database.js';
+import { logger } from './logger.js';
+
+import type { PageOrderItem, PageSummary, PageTreeNode, PostStatus, PostType } from '@/types';
+
+const prisma = () => databaseService.getClient();
+
+const pageSummarySelect = {
+  id: true,
+  uuid: true,
+  post_title: true,
+  post_name: true,
+  post_status: true,
+  post_parent: true,
+  menu_order: true,
+} as const;
+
+/**
+ * Hierarchy of `page` posts, linked through post_parent (the parent's UUID)
+ * and ordered among siblings by menu_order
+ */
+class PageService {
+  /**
+   * Map a Prisma post row to a page summary
+   * An empty post_parent (the WordPress default) means a top-level page.
+   */
+  private mapPrismaPageToSummary(prismaPage: {
+    id: number;
+    uuid: string;
+    post_title: string;
+    post_name: string;
+    post_status: string;
+    post_parent: string | null;
+    menu_order: number;
+  }): PageSummary {
+    return {
+      id: prismaPage.id,
+      uuid: prismaPage.uuid,
+      title: prismaPage.post_title,
+      slug: prismaPage.post_name,
+      status: prismaPage.post_status as PostStatus,
+      parentId: prismaPage.post_parent || null,
+      menuOrder: prismaPage.menu_order,
+    };
+  }
+
+  /**
+   * Sort siblings by menu order, then title
+   */
+  private compareSiblings(a: PageSummary, b: PageSummary): number {
+    return a.menuOrder - b.menuOrder || a.title.localeCompare(b.title);
+  }
+
+  /**
+   * Get published pages as a nested tree
+   * Pages whose parent is missing or unpublished are not reachable and are left out.
+   */
+  async getPageTree(): Promise<PageTreeNode[]> {
+    try {
+      const pages = await prisma().post.findMany({
+        where: { post_type: 'page', post_status: 'publish' },
+        select: pageSummarySelect,
+      });
+
+      const nodes = pages.map((page) => ({
+        ...this.mapPrismaPageToSummary(page),
+        children: [] as PageTreeNode[],
+      }));
+      const nodesByUuid = new Map(nodes.map((node) => [node.uuid, node]));
+      const roots: PageTreeNode[] = [];
+
+      for (const node of nodes) {
+        if (!node.parentId) {
+          roots.push(node);
+          continue;
+        }
+
+        nodesByUuid.get(node.parentId)?.children.push(node);
+      }
+
+      const sortTree = (siblings: PageTreeNode[]): PageTreeNode[] => {
+        siblings.sort((a, b) => this.compareSiblings(a, b));
+        siblings.forEach((node) => sortTree(node.children));
+        return siblings;
+      };
+
+      return sortTree(roots);
+    } catch (error) {
+      logger.error('Error fetching page tree:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Get the ancestors of a page, from the top-level page down to its parent
+   * Returns null if the page does not exist.
+   */
+  async getAncestors(id: number): Promise<PageSummary[] | null> {
+    try {
+      const page = await prisma().post.findFirst({
+        where: { id, post_type: 'page' },
+        select: pageSummarySelect,
+      });
+
+      if (!page) {
+        return null;
+      }
+
+      const ancestors: PageSummary[] = [];
+      const visited = new Set<string>([page.uuid]);
+      let parentUuid = page.post_parent;
+
+      while (parentUuid && !visited.has(parentUuid)) {
+        visited.add(parentUuid);
+
+        const parent = await prisma().post.findFirst({
+          where: { uuid: parentUuid },
+          select: pageSummarySelect,
+        });
+
+        if (!parent) {
+          break;
+        }
+
+        ancestors.unshift(this.mapPrismaPageToSummary(parent));
+        parentUuid = parent.post_parent;
+      }
+
+      return ancestors;
+    } catch (error) {
+      logger.error('Error fetching page ancestors:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Resolve a path of slugs like `about/team` to a published page
+   * Each segment must be a child of the page matched by the previous one, and
+   * every segment must be in the requested locale.
+   */
+  async getPageIdByPath(
+    path: string,
+    locale: string = config.locales.default
+  ): Promise<number | null> {
+    try {
+      const segments = path.split('/').filter((segment) => segment.length > 0);
+
+      if (segments.length === 0) {
+        return null;
+      }
+
+      let parentUuid: string | null = null;
+      let pageId: number | null = null;
+
+      for (const slug of segments) {
+        const page: { id: number; uuid: string } | null = await prisma().post.findFirst({
+          where: {
+            post_type: 'page',
+            post_status: 'publish',
+            post_name: slug,
+            locale,
+            ...(parentUuid
+              ? { post_parent: parentUuid }
+              : { OR: [{ post_parent: null }, { post_parent: '' }] }),
+          },
+          select: { id: true, uuid: true },
+          orderBy: { id: 'asc' },
+        });
+
+        if (!page) {
+          return null;
+        }
+
+        parentUuid = page.uuid;
+        pageId = page.id;
+      }
+
+      return pageId;
+    } catch (error) {
+      logger.error('Error resolving page path:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Full slug paths of all published pages, keyed by page UUID
+   * Paths are URL-encoded, e.g. "about/team".
+   */
+  async getPagePaths(): Promise<Map<string, string>> {
+    try {
+      const pages = await prisma().post.findMany({
+        where: { post_type: 'page', post_status: 'publish' },
+        select: { uuid: true, post_name: true, post_parent: true },
+      });
+
+      const pagesByUuid = new Map(pages.map((page) => [page.uuid, page]));
+      const paths = new Map<string, string>();
+
+      for (const page of pages) {
+        const segments = [page.post_name];
+        const visited = new Set([page.uuid]);
+        let parent = page.post_parent ? pagesByUuid.get(page.post_parent) : undefined;
+
+        while (parent && !visited.has(parent.uuid)) {
+          visited.add(parent.uuid);
+          segments.unshift(parent.post_name);
+          parent = parent.post_parent ? pagesByUuid.get(parent.post_parent) : undefined;
+        }
+
+        paths.set(page.uuid, segments.map(encodeURIComponent).join('/'));
+      }
+
+      return paths;
+    } catch (error) {
+      logger.error('Error building page paths:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Find a page by UUID, as referenced from a child's parentId
+   * Posts of other hierarchical types are looked up by passing their type.
+   */
+  async getPageByUuid(uuid: string, type: PostType = 'page'): Promise<PageSummary | null> {
+    try {
+      const page = await prisma().post.findFirst({
+        where: { uuid, post_type: type },
+        select: pageSummarySelect,
+      });
+
+      return page ? this.mapPrismaPageToSummary(page) : null;
+    } catch (error) {
+      logger.error('Error fetching page by UUID:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Check if making `parentUuid` the parent of `pageUuid` would create a cycle
+   */
+  async wouldCreateCycle(pageUuid: string, parentUuid: string): Promise<boolean> {
+    try {
+      let currentUuid: string | null = parentUuid;
+      const visited = new Set<string>();
+
+      while (currentUuid && !visited.has(currentUuid)) {
+        if (currentUuid === pageUuid) {
+          return true;
+        }
+
+        visited.add(currentUuid);
+
+        const parent: { post_parent: string | null } | null = await prisma().post.findFirst({
+          where: { uuid: currentUuid },
+          select: { post_parent: true },
+        });
+
+        currentUuid = parent?.post_parent || null;
+      }
+
+      return false;
+    } catch (error) {
+      logger.error('Error checking page hierarchy:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Find page IDs in a reorder request that do not exist
+   */
+  async findMissingPageIds(ids: number[]): Promise<number[]> {
+    try {
+      const uniqueIds = [...new Set(ids)];
+      const pages = await prisma().post.findMany({
+        where: { id: { in: uniqueIds }, post_type: 'page' },
+        select: { id: true },
+      });
+
+      const found = new Set(pages.map((page) => page.id));
+      return uniqueIds.filter((id) => !found.has(id));
+    } catch (error) {
+      logger.error('Error checking page existence:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Set the menu order of several pages at once
+   */
+  async reorderPages(items: PageOrderItem[]): Promise<void> {
+    try {
+      await prisma().$transaction(async (tx) => {
+        for (const item of items) {
+          await tx.post.update({
+            where: { id: item.id },
+            data: { menu_order: item.menuOrder },
+          });
+        }
+      });
+
+      logger.info('Pages reordered', { count: items.length });
+    } catch (error) {
+      logger.error('Error reordering pages:', error);
+      throw error;
+    }
+  }
+}
+
+export const pageService = new PageService();
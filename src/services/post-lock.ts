@@ -0,0 +1,251 @@
+import { config } from '../../config/index.js';
+
+import { databaseService } from './database.js';
+import { logger } from './logger.js';
+import { redisService } from './redis.js';
+
+import { CACHE_KEYS } from '@/constants';
+import type { PostEditLock } from '@/types';
+
+const prisma = () => databaseService.getClient();
+
+interface StoredLock {
+  userId: string;
+  acquiredAt: string;
+  expiresAt: string;
+}
+
+/**
+ * Outcome of asking for the lock of a post
+ * When it is not acquired, `lock` is the one held by someone else.
+ */
+export interface PostLockResult {
+  acquired: boolean;
+  lock: PostEditLock;
+}
+
+/**
+ * Heartbeat-based edit locks, so two editors cannot overwrite each other
+ *
+ * An editor acquires the lock of a post when they start editing and renews it
+ * by acquiring it again before it expires; a lock that is not renewed lapses
+ * after config.postLock.ttlSeconds. Locks live in Redis when it is enabled and
+ * in the post locks table otherwise.
+ */
+class PostLockService {
+  private get ttlSeconds(): number {
+    return config.postLock.ttlSeconds;
+  }
+
+  private newLock(postId: number, userId: string, acquiredAt: Date = new Date()): PostEditLock {
+    return {
+      postId,
+      userId,
+      acquiredAt,
+      expiresAt: new Date(Date.now() + this.ttlSeconds * 1000),
+    };
+  }
+
+  private toStoredLock(lock: PostEditLock): string {
+    return JSON.stringify({
+      userId: lock.userId,
+      acquiredAt: lock.acquiredAt.toISOString(),
+      expiresAt: lock.expiresAt.toISOString(),
+    } satisfies StoredLock);
+  }
+
+  /**
+   * Map Prisma PostLock model to domain PostEditLock object
+   */
+  private mapPrismaLockToLock(prismaLock: {
+    post_id: number;
+    user_id: string;
+    acquired_at: Date;
+    expires_at: Date;
+  }): PostEditLock {
+    return {
+      postId: prismaLock.post_id,
+      userId: prismaLock.user_id,
+      acquiredAt: prismaLock.acquired_at,
+      expiresAt: prismaLock.expires_at,
+    };
+  }
+
+  /**
+   * Get the lock of a post, or null when nobody holds it
+   */
+  async getLock(postId: number): Promise<PostEditLock | null> {
+    try {
+      if (redisService.isEnabled()) {
+        const stored = await redisService.getJson<StoredLock>(CACHE_KEYS.POST_LOCK(postId));
+
+        return stored
+          ? {
+              postId,
+              userId: stored.userId,
+              acquiredAt: new Date(stored.acquiredAt),
+              expiresAt: new Date(stored.expiresAt),
+            }
+          : null;
+      }
+
+      const lock = await prisma().postLock.findUnique({
+        where: { post_id: postId },
+      });
+
+      return lock && lock.expires_at.getTime() > Date.now() ? this.mapPrismaLockToLock(lock) : null;
+    } catch (error) {
+      logger.error('Error fetching post lock:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Acquire or renew the lock of a post
+   * The lock is not acquired while someone else holds it, unless `takeover`
+   * is set, in which case it passes to the caller.
+   */
+  async acquireLock(postId: number, userId: string, takeover = false): Promise<PostLockResult> {
+    try {
+      const result = redisService.isEnabled()
+        ? await this.acquireInRedis(postId, userId, takeover)
+        : await this.acquireInDatabase(postId, userId, takeover);
+
+      if (result.acquired && takeover) {
+        logger.info('Post lock taken over', { postId, userId });
+      }
+
+      return result;
+    } catch (error) {
+      logger.error('Error acquiring post lock:', error);
+      throw error;
+    }
+  }
+
+  private async acquireInRedis(
+    postId: number,
+    userId: string,
+    takeover: boolean
+  ): Promise<PostLockResult> {
+    const key = CACHE_KEYS.POST_LOCK(postId);
+    const lock = this.newLock(postId, userId);
+
+    if (takeover) {
+      await redisService.set(key, this.toStoredLock(lock), this.ttlSeconds);
+      return { acquired: true, lock };
+    }
+
+    if (await redisService.setIfNotExists(key, this.toStoredLock(lock), this.ttlSeconds)) {
+      return { acquired: true, lock };
+    }
+
+    const current = await this.getLock(postId);
+
+    if (current && current.userId !== userId) {
+      return { acquired: false, lock: current };
+    }
+
+    // Renewing our own lock keeps the time it was first acquired
+    lock.acquiredAt = current?.acquiredAt ?? lock.acquiredAt;
+
+    await redisService.set(key, this.toStoredLock(lock), this.ttlSeconds);
+    return { acquired: true, lock };
+  }
+
+  private async acquireInDatabase(
+    postId: number,
+    userId: string,
+    takeover: boolean
+  ): Promise<PostLockResult> {
+    const current = await prisma().postLock.findUnique({
+      where: { post_id: postId },
+    });
+
+    if (!current) {
+      const lock = this.newLock(postId, userId);
+
+      try {
+        await prisma().postLock.create({
+          data: {
+            post_id: postId,
+            user_id: userId,
+            acquired_at: lock.acquiredAt,
+            expires_at: lock.expiresAt,
+          },
+        });
+        return { acquired: true, lock };
+      } catch (error) {
+        // Someone else created the lock in the meantime
+        if ((error as { code?: string }).code === 'P2002') {
+          return this.acquireInDatabase(postId, userId, takeover);
+        }
+        throw error;
+      }
+    }
+
+    const live = current.expires_at.getTime() > Date.now();
+
+    if (live && current.user_id !== userId && !takeover) {
+      return { acquired: false, lock: this.mapPrismaLockToLock(current) };
+    }
+
+    const lock = this.newLock(
+      postId,
+      userId,
+      live && current.user_id === userId ? current.acquired_at : undefined
+    );
+
+    // Only replace the row we read, so a concurrent acquisition wins over us
+    const { count } = await prisma().postLock.updateMany({
+      where: { post_id: postId, user_id: current.user_id, expires_at: current.expires_at },
+      data: { user_id: userId, acquired_at: lock.acquiredAt, expires_at: lock.expiresAt },
+    });
+
+    if (count === 0) {
+      return this.acquireInDatabase(postId, userId, takeover);
+    }
+
+    return { acquired: true, lock };
+  }
+
+  /**
+   * Release the lock of a post held by a user
+   * Returns false when the user does not hold it.
+   */
+  async releaseLock(postId: number, userId: string): Promise<boolean> {
+    try {
+      const current = await this.getLock(postId);
+
+      if (!current || current.userId !== userId) {
+        return false;
+      }
+
+      await this.deleteLock(postId);
+      return true;
+    } catch (error) {
+      logger.error('Error releasing post lock:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Drop the lock of a post, whoever holds it
+   */
+  async deleteLock(postId: number): Promise<void> {
+    try {
+      if (redisService.isEnabled()) {
+        await redisService.del(CACHE_KEYS.POST_LOCK(postId));
+        return;
+      }
+
+      await prisma().postLock.deleteMany({
+        where: { post_id: postId },
+      });
+    } catch (error) {
+      logger.error('Error deleting post lock:', error);
+      throw error;
+    }
+  }
+}
+
+export const postLockService = new PostLockService();
@@ -0,0 +1,222 @@
+import type { Prisma } from '../../generated/prisma/client.js';
+
+import { databaseService } from './database.js';
+import { logger } from './logger.js';
+import { postTypeRegistry } from './post-type-registry.js';
+
+import type { PostMeta, PostMetaMap, PostMetaType, PostMetaValue, PostType } from '@/types';
+
+const prisma = () => databaseService.getClient();
+
+type DbClient = Prisma.TransactionClient;
+
+/**
+ * Typed key/value custom fields of posts (WordPress-style postmeta)
+ *
+ * Values are stored as text next to their type. Strings, numbers and booleans
+ * are stored as plain text so they can be matched with `metaValue` filters;
+ * objects, arrays and null are stored as JSON.
+ */
+class PostMetaService {
+  /**
+   * Convert a value to its stored text and type
+   */
+  private serialize(value: PostMetaValue): { type: PostMetaType; text: string } {
+    switch (typeof value) {
+      case 'string':
+        return { type: 'string', text: value };
+      case 'number':
+        return { type: 'number', text: String(value) };
+      case 'boolean':
+        return { type: 'boolean', text: String(value) };
+      default:
+        return { type: 'json', text: JSON.stringify(value) };
+    }
+  }
+
+  /**
+   * Convert stored text back to a typed value
+   */
+  private deserialize(type: string, text: string): PostMetaValue {
+    switch (type) {
+      case 'number':
+        return Number(text);
+      case 'boolean':
+        return text === 'true';
+      case 'json':
+        return JSON.parse(text) as PostMetaValue;
+      default:
+        return text;
+    }
+  }
+
+  /**
+   * Map Prisma PostMeta model to domain PostMeta object
+   */
+  private mapPrismaMetaToMeta(prismaMeta: {
+    meta_key: string;
+    meta_value: string;
+    meta_type: string;
+    updated_at: Date;
+  }): PostMeta {
+    return {
+      key: prismaMeta.meta_key,
+      value: this.deserialize(prismaMeta.meta_type, prismaMeta.meta_value),
+      type: prismaMeta.meta_type as PostMetaType,
+      updatedAt: prismaMeta.updated_at,
+    };
+  }
+
+  /**
+   * Get every meta entry of a post, ordered by key
+   */
+  async getMeta(postId: number): Promise<PostMeta[]> {
+    try {
+      const entries = await prisma().postMeta.findMany({
+        where: { post_id: postId },
+        orderBy: { meta_key: 'asc' },
+      });
+
+      return entries.map((entry) => this.mapPrismaMetaToMeta(entry));
+    } catch (error) {
+      logger.error('Error fetching post meta:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Meta fields a type requires that a post does not have yet
+   */
+  async getMissingMeta(postId: number, type: PostType): Promise<string[]> {
+    const meta = await this.getMeta(postId);
+    return postTypeRegistry.getMissingMeta(
+      type,
+      meta.map((entry) => entry.key)
+    );
+  }
+
+  /**
+   * Get a single meta entry of a post
+   */
+  async getMetaEntry(postId: number, key: string): Promise<PostMeta | null> {
+    try {
+      const entry = await prisma().postMeta.findUnique({
+        where: { post_id_meta_key: { post_id: postId, meta_key: key } },
+      });
+
+      return entry ? this.mapPrismaMetaToMeta(entry) : null;
+    } catch (error) {
+      logger.error('Error fetching post meta entry:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Create or replace a meta entry of a post
+   */
+  async setMeta(
+    postId: number,
+    key: string,
+    value: PostMetaValue,
+    client: DbClient = prisma()
+  ): Promise<PostMeta> {
+    try {
+      const { type, text } = this.serialize(value);
+
+      const entry = await client.postMeta.upsert({
+        where: { post_id_meta_key: { post_id: postId, meta_key: key } },
+        create: { post_id: postId, meta_key: key, meta_value: text, meta_type: type },
+        update: { meta_value: text, meta_type: type },
+      });
+
+      return this.mapPrismaMetaToMeta(entry);
+    } catch (error) {
+      logger.error('Error saving post meta:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Delete a meta entry of a post
+   * Returns false when the post has no entry for the key.
+   */
+  async deleteMeta(postId: number, key: string): Promise<boolean> {
+    try {
+      const result = await prisma().postMeta.deleteMany({
+        where: { post_id: postId, meta_key: key },
+      });
+
+      return result.count > 0;
+    } catch (error) {
+      logger.error('Error deleting post meta:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Delete every meta entry of a post
+   */
+  async deleteAllMeta(postId: number, client: DbClient = prisma()): Promise<void> {
+    try {
+      await client.postMeta.deleteMany({
+        where: { post_id: postId },
+      });
+    } catch (error) {
+      logger.error('Error deleting post meta:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Attach the requested meta keys to each post as `post.meta`
+   * Keys a post has no entry for are left out.
+   */
+  async attachMeta(posts: { id: number; meta?: PostMetaMap }[], keys: string[]): Promise<void> {
+    if (posts.length === 0 || keys.length === 0) return;
+
+    try {
+      const entries = await prisma().postMeta.findMany({
+        where: { post_id: { in: posts.map((post) => post.id) }, meta_key: { in: keys } },
+      });
+
+      for (const post of posts) {
+        post.meta = {};
+      }
+
+      const postsById = new Map(posts.map((post) => [post.id, post]));
+
+      for (const entry of entries) {
+        const meta = postsById.get(entry.post_id)?.meta;
+        if (meta) {
+          meta[entry.meta_key] = this.deserialize(entry.meta_type, entry.meta_value);
+        }
+      }
+    } catch (error) {
+      logger.error('Error attaching post meta:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Get the IDs of posts that have a meta key, optionally with a given value
+   * The value is compared with the stored text, e.g. "42" or "true".
+   */
+  async getPostIdsByMeta(key: string, value?: string): Promise<number[]> {
+    try {
+      const entries = await prisma().postMeta.findMany({
+        where: {
+          meta_key: key,
+          ...(value !== undefined && { meta_value: value }),
+        },
+        select: { post_id: true },
+      });
+
+      return entries.map((entry) => entry.post_id);
+    } catch (error) {
+      logger.error('Error fetching posts by meta:', error);
+      throw error;
+    }
+  }
+}
+
+export const postMetaService = new PostMetaService();
@@ -0,0 +1,90 @@
+import { createHash } from 'node:crypto';
+
+import bcrypt from 'bcrypt';
+import jwt, { type SignOptions } from 'jsonwebtoken';
+
+import { config } from '../../config/index.js';
+
+import { logger } from './logger.js';
+
+const UNLOCK_TOKEN_AUDIENCE = 'post_unlock';
+
+interface UnlockTokenPayload {
+  postId: number;
+  scope: 'post_unlock';
+  fingerprint: string;
+}
+
+/**
+ * Hashing of post passwords and the short-lived tokens that unlock a
+ * protected post for readers who entered its password
+ */
+class PostPasswordService {
+  private readonly tokenSecret: string;
+  private readonly tokenExpiresIn: string;
+
+  constructor() {
+    this.tokenSecret = config.jwt.secret;
+    this.tokenExpiresIn = config.postPassword.unlockTokenExpiresIn;
+  }
+
+  /**
+   * Fingerprint of a stored hash, so tokens stop working once the password changes
+   */
+  private fingerprint(passwordHash: string): string {
+    return createHash('sha256').update(passwordHash).digest('hex').slice(0, 16);
+  }
+
+  /**
+   * Hash a post password for storage
+   */
+  async hashPassword(password: string): Promise<string> {
+    return bcrypt.hash(password, 10);
+  }
+
+  /**
+   * Check a password against the stored hash
+   */
+  async verifyPassword(password: string, passwordHash: string): Promise<boolean> {
+    return bcrypt.compare(password, passwordHash);
+  }
+
+  /**
+   * Issue a token that unlocks a post
+   * Its audience keeps it from being accepted anywhere else, such as an access token.
+   */
+  createUnlockToken(postId: number, passwordHash: string): string {
+    const payload: UnlockTokenPayload = {
+      postId,
+      scope: 'post_unlock',
+      fingerprint: this.fingerprint(passwordHash),
+    };
+
+    return jwt.sign(payload, this.tokenSecret, {
+      audience: UNLOCK_TOKEN_AUDIENCE,
+      expiresIn: this.tokenExpiresIn,
+    } as SignOptions);
+  }
+
+  /**
+   * Check that a token unlocks the given post with its current password
+   */
+  isUnlockTokenValid(token: string, postId: number, passwordHash: string): boolean {
+    try {
+      const decoded = jwt.verify(token, this.tokenSecret, {
+        audience: UNLOCK_TOKEN_AUDIENCE,
+      }) as UnlockTokenPayload;
+
+      return (
+        decoded.scope === 'post_unlock' &&
+        decoded.postId === postId &&
+        decoded.fingerprint === this.fingerprint(passwordHash)
+      );
+    } catch (error) {
+      logger.warn('Failed to verify post unlock token', { error: (error as Error).message });
+      return false;
+    }
+  }
+}
+
+export const postPasswordService = new PostPasswordService();
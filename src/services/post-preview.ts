@@ -0,0 +1,194 @@
+import jwt from 'jsonwebtoken';
+
+import { config } from '../../config/index.js';
+import type { Prisma } from '../../generated/prisma/client.js';
+
+import { databaseService } from './database.js';
+import { logger } from './logger.js';
+import type { RevisionSnapshot } from './revision.js';
+import { revisionService } from './revision.js';
+
+import type { PostPreviewLink, PostRevision } from '@/types';
+
+const prisma = () => databaseService.getClient();
+
+type DbClient = Prisma.TransactionClient;
+
+const HOUR_MS = 60 * 60 * 1000;
+
+const PREVIEW_TOKEN_AUDIENCE = 'post_preview';
+
+interface PreviewTokenPayload {
+  linkId: string;
+  postId: number;
+  scope: 'post_preview';
+}
+
+/**
+ * Signed, expiring links that show a post to readers without an account
+ *
+ * Each link pins a revision holding the post's title, content and excerpt at
+ * the time the link was created, so later edits do not leak through it. The
+ * token is a JWT naming the link, with an audience of its own so it is not
+ * accepted as any other token; the link row lets the author revoke it before
+ * it expires.
+ */
+class PostPreviewService {
+  /**
+   * Map Prisma PostPreviewLink model to domain PostPreviewLink object
+   */
+  private mapPrismaLinkToLink(prismaLink: {
+    id: string;
+    post_id: number;
+    revision_id: number;
+    created_by: string;
+    expires_at: Date;
+    revoked_at: Date | null;
+    created_at: Date;
+  }): PostPreviewLink {
+    return {
+      id: prismaLink.id,
+      postId: prismaLink.post_id,
+      revisionId: prismaLink.revision_id,
+      createdBy: prismaLink.created_by,
+      expiresAt: prismaLink.expires_at,
+      revokedAt: prismaLink.revoked_at,
+      createdAt: prismaLink.created_at,
+    };
+  }
+
+  /**
+   * Capture the current state of a post and issue a link to it
+   */
+  async createLink(
+    postId: number,
+    snapshot: RevisionSnapshot,
+    createdBy: string,
+    expiresInHours: number = config.preview.defaultExpiresInHours
+  ): Promise<{ link: PostPreviewLink; token: string }> {
+    try {
+      const revision = await revisionService.createRevision(postId, snapshot, createdBy);
+
+      const link = await prisma().postPreviewLink.create({
+        data: {
+          post_id: postId,
+          revision_id: revision.id,
+          created_by: createdBy,
+          expires_at: new Date(Date.now() + expiresInHours * HOUR_MS),
+        },
+      });
+
+      const payload: PreviewTokenPayload = { linkId: link.id, postId, scope: 'post_preview' };
+      const token = jwt.sign(payload, config.jwt.secret, {
+        audience: PREVIEW_TOKEN_AUDIENCE,
+        expiresIn: expiresInHours * 3600,
+      });
+
+      logger.info('Post preview link created', { postId, linkId: link.id });
+      return { link: this.mapPrismaLinkToLink(link), token };
+    } catch (error) {
+      logger.error('Error creating post preview link:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Get the links of a post that still work, newest first
+   */
+  async getActiveLinks(postId: number): Promise<PostPreviewLink[]> {
+    try {
+      const links = await prisma().postPreviewLink.findMany({
+        where: { post_id: postId, revoked_at: null, expires_at: { gt: new Date() } },
+        orderBy: { created_at: 'desc' },
+      });
+
+      return links.map((link) => this.mapPrismaLinkToLink(link));
+    } catch (error) {
+      logger.error('Error fetching post preview links:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Revoke a link of a post
+   * Returns false when the post has no such link or it is already revoked.
+   */
+  async revokeLink(postId: number, linkId: string): Promise<boolean> {
+    try {
+      const result = await prisma().postPreviewLink.updateMany({
+        where: { id: linkId, post_id: postId, revoked_at: null },
+        data: { revoked_at: new Date() },
+      });
+
+      if (result.count > 0) {
+        logger.info('Post preview link revoked', { postId, linkId });
+      }
+
+      return result.count > 0;
+    } catch (error) {
+      logger.error('Error revoking post preview link:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Delete every link of a post
+   */
+  async deleteLinks(postId: number, client: DbClient = prisma()): Promise<void> {
+    try {
+      await client.postPreviewLink.deleteMany({
+        where: { post_id: postId },
+      });
+    } catch (error) {
+      logger.error('Error deleting post preview links:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Resolve a preview token to its link and pinned revision
+   * Returns null when the token is invalid or expired, or the link was revoked.
+   */
+  async resolveToken(
+    token: string
+  ): Promise<{ link: PostPreviewLink; revision: PostRevision } | null> {
+    let payload: PreviewTokenPayload;
+
+    try {
+      payload = jwt.verify(token, config.jwt.secret, {
+        audience: PREVIEW_TOKEN_AUDIENCE,
+      }) as PreviewTokenPayload;
+    } catch (error) {
+      logger.warn('Failed to verify post preview token', { error: (error as Error).message });
+      return null;
+    }
+
+    if (payload.scope !== 'post_preview') {
+      return null;
+    }
+
+    try {
+      const link = await prisma().postPreviewLink.findUnique({
+        where: { id: payload.linkId },
+      });
+
+      if (
+        !link ||
+        link.post_id !== payload.postId ||
+        link.revoked_at ||
+        link.expires_at.getTime() <= Date.now()
+      ) {
+        return null;
+      }
+
+      const revision = await revisionService.getRevision(link.post_id, link.revision_id);
+
+      return revision ? { link: this.mapPrismaLinkToLink(link), revision } : null;
+    } catch (error) {
+      logger.error('Error resolving post preview token:', error);
+      throw error;
+    }
+  }
+}
+
+export const postPreviewService = new PostPreviewService();
@@ -0,0 +1,141 @@
+import { config } from '../../config/index.js';
+
+import { databaseService } from './database.js';
+import { kafkaService } from './kafka.js';
+import { logger } from './logger.js';
+import { sitemapService } from './sitemap.js';
+
+import { KAFKA_TOPICS } from '@/constants';
+
+const prisma = () => databaseService.getClient();
+
+/**
+ * Payload emitted when a scheduled post goes live
+ */
+export interface PostPublishedEvent {
+  id: number;
+  uuid: string;
+  title: string;
+  slug: string;
+  type: string;
+  authorId: string;
+  publishedAt: string | null;
+  scheduled: boolean;
+}
+
+/**
+ * Promotes posts in 'future' status to 'publish' once their date has passed
+ *
+ * Several instances may run the scheduler at once: each post is moved out of
+ * 'future' with a conditional update, so only the instance whose update
+ * succeeds publishes it and emits the event.
+ */
+class PostSchedulerService {
+  private timer: ReturnType<typeof setInterval> | null = null;
+  private isRunning: boolean = false;
+
+  start(): void {
+    if (this.timer) return;
+
+    this.timer = setInterval(() => {
+      void this.publishDuePosts();
+    }, config.scheduler.intervalMs);
+
+    logger.info('Post scheduler started', { intervalMs: config.scheduler.intervalMs });
+  }
+
+  stop(): void {
+    if (!this.timer) return;
+
+    clearInterval(this.timer);
+    this.timer = null;
+
+    logger.info('Post scheduler stopped');
+  }
+
+  /**
+   * Publish every scheduled post whose date is due
+   * Returns the number of posts published by this instance.
+   */
+  async publishDuePosts(now: Date = new Date()): Promise<number> {
+    // Skip the tick if the previous one is still running
+    if (this.isRunning) return 0;
+    this.isRunning = true;
+
+    try {
+      const duePosts = await prisma().post.findMany({
+        where: {
+          post_status: 'future',
+          post_date: { lte: now },
+        },
+        orderBy: { post_date: 'asc' },
+        take: config.scheduler.batchSize,
+      });
+
+      let published = 0;
+
+      for (const post of duePosts) {
+        const result = await prisma().post.updateMany({
+          where: { id: post.id, post_status: 'future' },
+          data: { post_status: 'publish' },
+        });
+
+        // Another instance got there first
+        if (result.count === 0) continue;
+
+        await prisma().postTransition.create({
+          data: {
+            post_id: post.id,
+            from_status: 'future',
+            to_status: 'publish',
+            note: 'Published on schedule',
+          },
+        });
+
+        published++;
+        logger.info('Scheduled post published', { postId: post.id });
+
+        await this.emitPublished({
+          id: post.id,
+          uuid: post.uuid,
+          title: post.post_title,
+          slug: post.post_name,
+          type: post.post_type,
+          authorId: post.post_author,
+          publishedAt: post.post_date ? post.post_date.toISOString() : null,
+          scheduled: true,
+        });
+      }
+
+      if (published > 0) {
+        await sitemapService.invalidate();
+      }
+
+      return published;
+    } catch (error) {
+      logger.error('Error publishing scheduled posts:', error);
+      return 0;
+    } finally {
+      this.isRunning = false;
+    }
+  }
+
+  /**
+   * Announce that a post went live
+   */
+  async emitPublished(event: PostPublishedEvent): Promise<void> {
+    if (!kafkaService.isEnabled()) return;
+
+    try {
+      await kafkaService.publish({
+        topic: KAFKA_TOPICS.POST_PUBLISHED,
+        key: String(event.id),
+        value: event,
+      });
+    } catch (error) {
+      logger.warn('Failed to emit post published event', { postId: event.id, error });
+    }
+  }
+}
+
+export const postSchedulerService = new PostSchedulerService();
@@ -0,0 +1,141 @@
+import { config } from '../../config/index.js';
+
+import type { PostStatus, PostType, PostTypeDefinition } from '@/types';
+
+const POST_TYPE_NAME_PATTERN = /^[a-z0-9_-]{1,20}$/;
+
+const ALL_STATUSES: PostTypeDefinition['statuses'] = [
+  'draft',
+  'pending',
+  'publish',
+  'future',
+  'private',
+];
+
+const BUILT_IN_POST_TYPES: PostTypeDefinition[] = [
+  {
+    name: 'post',
+    label: 'Posts',
+    statuses: ALL_STATUSES,
+    requiredMeta: [],
+    permissionPrefix: 'post',
+    hierarchical: false,
+  },
+  {
+    name: 'page',
+    label: 'Pages',
+    statuses: ALL_STATUSES,
+    requiredMeta: [],
+    permissionPrefix: 'post',
+    hierarchical: true,
+  },
+  {
+    name: 'attachment',
+    label: 'Media',
+    statuses: ALL_STATUSES,
+    requiredMeta: [],
+    permissionPrefix: 'post',
+    hierarchical: false,
+  },
+];
+
+/**
+ * The post types posts can have: the built-in ones and those declared in
+ * config/post-types.ts
+ *
+ * Every type is stored in the same table and served by the /posts routes;
+ * its definition decides which statuses and parents its posts accept, which
+ * meta they must carry and which permissions guard them.
+ */
+class PostTypeRegistry {
+  private readonly types = new Map<string, PostTypeDefinition>();
+
+  constructor(definitions: PostTypeDefinition[]) {
+    for (const definition of definitions) {
+      this.register(definition);
+    }
+  }
+
+  /**
+   * Add a post type
+   * Throws when the name is invalid or already taken.
+   */
+  register(definition: PostTypeDefinition): void {
+    if (!POST_TYPE_NAME_PATTERN.test(definition.name)) {
+      throw new Error(`Invalid post type name '${definition.name}'`);
+    }
+
+    if (this.types.has(definition.name)) {
+      throw new Error(`Post type '${definition.name}' is already registered`);
+    }
+
+    this.types.set(definition.name, definition);
+  }
+
+  get(type: PostType): PostTypeDefinition | undefined {
+    return this.types.get(type);
+  }
+
+  has(type: string): boolean {
+    return this.types.has(type);
+  }
+
+  list(): PostTypeDefinition[] {
+    return [...this.types.values()];
+  }
+
+  /**
+   * Name of the permission for an action on posts of a type, e.g. "event:update"
+   */
+  getPermission(type: PostType, action: string): string {
+    return `${this.get(type)?.permissionPrefix ?? 'post'}:${action}`;
+  }
+
+  /**
+   * Restate permissions over a type as permissions over posts
+   * "event:publish" becomes "post:publish" for the `event` type, so checks
+   * written against post permissions apply to every type. Permissions over
+   * plain posts are dropped unless the type uses the post prefix itself.
+   */
+  toPostPermissions(type: PostType, permissions: readonly string[]): string[] {
+    const prefix = this.get(type)?.permissionPrefix ?? 'post';
+
+    if (prefix === 'post') {
+      return [...permissions];
+    }
+
+    return permissions
+      .filter((permission) => !permission.startsWith('post:'))
+      .map((permission) =>
+        permission.startsWith(`${prefix}:`)
+          ? `post:${permission.slice(prefix.length + 1)}`
+          : permission
+      );
+  }
+
+  /**
+   * Reason a post of a type cannot have a status, or null when it can
+   */
+  getStatusError(type: PostType, status: PostStatus): string | null {
+    const definition = this.get(type);
+
+    if (status === 'trash' || !definition || definition.statuses.includes(status)) {
+      return null;
+    }
+
+    return `Posts of type '${type}' cannot have status '${status}'`;
+  }
+
+  /**
+   * Required meta keys of a type missing from the given keys
+   */
+  getMissingMeta(type: PostType, keys: readonly string[]): string[] {
+    return (this.get(type)?.requiredMeta ?? []).filter((key) => !keys.includes(key));
+  }
+
+  isHierarchical(type: PostType): boolean {
+    return this.get(type)?.hierarchical ?? false;
+  }
+}
+
+export const postTypeRegistry = new PostTypeRegistry([...BUILT_IN_POST_TYPES, ...config.postTypes]);
@@ -0,0 +1,293 @@
+import { createHash, randomUUID } from 'node:crypto';
+
+import { config } from '../../config/index.js';
+import type { Prisma } from '../../generated/prisma/client.js';
+
+import { databaseService } from './database.js';
+import { logger } from './logger.js';
+import { redisService } from './redis.js';
+
+import { CACHE_KEYS } from '@/constants';
+import type { PopularPostPeriod } from '@/types';
+
+const prisma = () => databaseService.getClient();
+
+type DbClient = Prisma.TransactionClient;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Outlives the longest flush, so a crashed instance cannot hold the lock for good
+const FLUSH_LOCK_TTL_SECONDS = 120;
+
+// Field of the buffer being flushed that names its batch; other fields are counts
+const BATCH_ID_FIELD = 'batch';
+
+// How long written batches are remembered, for flushes retried after a failure
+const APPLIED_BATCH_RETENTION_MS = 7 * DAY_MS;
+
+/**
+ * Who is viewing a post: a signed-in user, or an anonymous client told apart
+ * by IP address and user agent
+ */
+export interface PostVisitor {
+  userId?: string;
+  ip?: string;
+  userAgent?: string;
+}
+
+interface ViewCount {
+  postId: number;
+  day: Date;
+  views: number;
+}
+
+/**
+ * Counts post views for popularity rankings
+ *
+ * With Redis enabled, repeat views by the same visitor within
+ * config.views.dedupeWindowSeconds count once, and counts are buffered in a
+ * Redis hash that flush() writes to the database every
+ * config.views.flushIntervalMs. Without Redis, each view is written directly
+ * and not de-duplicated. Besides the total on the post, views are kept per day
+ * so posts can be ranked over a recent period.
+ */
+class PostViewService {
+  private timer: ReturnType<typeof setInterval> | null = null;
+
+  start(): void {
+    if (this.timer) return;
+
+    this.timer = setInterval(() => {
+      void this.flush();
+    }, config.views.flushIntervalMs);
+
+    logger.info('Post view flushing started', { intervalMs: config.views.flushIntervalMs });
+  }
+
+  stop(): void {
+    if (!this.timer) return;
+
+    clearInterval(this.timer);
+    this.timer = null;
+
+    logger.info('Post view flushing stopped');
+  }
+
+  /**
+   * Anonymous, stable key of a visitor
+   */
+  private getVisitorKey(visitor: PostVisitor): string {
+    const identity = visitor.userId
+      ? `user:${visitor.userId}`
+      : `${visitor.ip ?? ''}|${visitor.userAgent ?? ''}`;
+
+    return createHash('sha256').update(identity).digest('hex').slice(0, 32);
+  }
+
+  /**
+   * UTC day a view falls on, as stored in the daily counts
+   */
+  private getDay(date: Date): Date {
+    return new Date(date.toISOString().slice(0, 10));
+  }
+
+  /**
+   * Record a view of a post
+   * Returns false when the visitor already viewed the post within the window.
+   */
+  async recordView(postId: number, visitor: PostVisitor, now: Date = new Date()): Promise<boolean> {
+    const day = this.getDay(now);
+
+    try {
+      if (!redisService.isEnabled()) {
+        await this.applyCounts([{ postId, day, views: 1 }]);
+        return true;
+      }
+
+      const firstView = await redisService.setIfNotExists(
+        CACHE_KEYS.POST_VIEW_SEEN(postId, this.getVisitorKey(visitor)),
+        '1',
+        config.views.dedupeWindowSeconds
+      );
+
+      if (!firstView) {
+        return false;
+      }
+
+      await redisService.hIncrBy(
+        CACHE_KEYS.POST_VIEWS_PENDING,
+        `${postId}:${day.toISOString().slice(0, 10)}`,
+        1
+      );
+      return true;
+    } catch (error) {
+      logger.error('Error recording post view:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Write the views buffered in Redis to the database
+   * The buffer is renamed before it is read, so views recorded meanwhile go
+   * to a new buffer; a buffer left by a failed flush is retried first. Each
+   * buffer is written under a batch ID recorded in the database, so a buffer
+   * that was written but could not be deleted is not counted again.
+   * A lock in Redis lets one flush run at a time across all instances.
+   * Returns the number of views taken from the buffer.
+   */
+  async flush(): Promise<number> {
+    if (!redisService.isEnabled()) return 0;
+
+    const lockId = randomUUID();
+    let locked = false;
+
+    try {
+      // Skip the tick while another flush, here or on another instance, is running
+      locked = await redisService.setIfNotExists(
+        CACHE_KEYS.POST_VIEWS_FLUSH_LOCK,
+        lockId,
+        FLUSH_LOCK_TTL_SECONDS
+      );
+      if (!locked) return 0;
+
+      const retrying = await redisService.exists(CACHE_KEYS.POST_VIEWS_FLUSHING);
+
+      if (
+        !retrying &&
+        !(await redisService.rename(CACHE_KEYS.POST_VIEWS_PENDING, CACHE_KEYS.POST_VIEWS_FLUSHING))
+      ) {
+        return 0;
+      }
+
+      // A retried buffer keeps the batch ID it was given the first time
+      await redisService.hSetIfNotExists(
+        CACHE_KEYS.POST_VIEWS_FLUSHING,
+        BATCH_ID_FIELD,
+        randomUUID()
+      );
+
+      const { [BATCH_ID_FIELD]: batchId, ...buffered } = await redisService.hGetAll(
+        CACHE_KEYS.POST_VIEWS_FLUSHING
+      );
+      const counts: ViewCount[] = Object.entries(buffered).map(([field, views]) => {
+        const [postId, day] = field.split(':');
+        return { postId: parseInt(postId, 10), day: new Date(day), views: parseInt(views, 10) };
+      });
+
+      const applied = await this.applyBatch(batchId, counts);
+      await redisService.del(CACHE_KEYS.POST_VIEWS_FLUSHING);
+
+      if (!applied) return 0;
+
+      const total = counts.reduce((sum, count) => sum + count.views, 0);
+      if (total > 0) {
+        logger.info('Post views flushed', { posts: counts.length, views: total });
+      }
+
+      return total;
+    } catch (error) {
+      logger.error('Error flushing post views:', error);
+      return 0;
+    } finally {
+      if (locked) {
+        await redisService
+          .delIfEquals(CACHE_KEYS.POST_VIEWS_FLUSH_LOCK, lockId)
+          .catch((error: unknown) => logger.error('Error releasing post view flush lock:', error));
+      }
+    }
+  }
+
+  /**
+   * Write a flushed batch of counts once, recording its ID with the counts
+   * Returns false when the batch had already been written.
+   */
+  private async applyBatch(batchId: string, counts: ViewCount[]): Promise<boolean> {
+    return prisma().$transaction(
+      async (tx) => {
+        if (await tx.postViewBatch.findUnique({ where: { id: batchId } })) {
+          return false;
+        }
+
+        await tx.postViewBatch.create({ data: { id: batchId } });
+        await tx.postViewBatch.deleteMany({
+          where: { applied_at: { lt: new Date(Date.now() - APPLIED_BATCH_RETENTION_MS) } },
+        });
+        await this.applyCounts(counts, tx);
+        return true;
+      },
+      { timeout: 30000 }
+    );
+  }
+
+  /**
+   * Add views to the totals of posts and to their daily counts, all or nothing
+   * Views of posts deleted since they were recorded are dropped.
+   */
+  private async applyCounts(counts: ViewCount[], client?: DbClient): Promise<void> {
+    if (counts.length === 0) return;
+
+    const apply = async (tx: DbClient) => {
+      for (const { postId, day, views } of counts) {
+        const { count } = await tx.post.updateMany({
+          where: { id: postId },
+          data: { view_count: { increment: views } },
+        });
+
+        if (count === 0) continue;
+
+        await tx.postView.upsert({
+          where: { post_id_day: { post_id: postId, day } },
+          create: { post_id: postId, day, views },
+          update: { views: { increment: views } },
+        });
+      }
+    };
+
+    await (client ? apply(client) : prisma().$transaction(apply, { timeout: 30000 }));
+  }
+
+  /**
+   * Post IDs ranked by their views over a period, most viewed first
+   */
+  async getRankedPostIds(
+    period: Exclude<PopularPostPeriod, 'all'>,
+    skip: number,
+    take: number,
+    now: Date = new Date()
+  ): Promise<{ postId: number; views: number }[]> {
+    try {
+      const days = parseInt(period, 10);
+      const since = new Date(this.getDay(now).getTime() - (days - 1) * DAY_MS);
+
+      const rows = await prisma().postView.groupBy({
+        by: ['post_id'],
+        where: { day: { gte: since } },
+        _sum: { views: true },
+        orderBy: [{ _sum: { views: 'desc' } }, { post_id: 'desc' }],
+        skip,
+        take,
+      });
+
+      return rows.map((row) => ({ postId: row.post_id, views: row._sum.views ?? 0 }));
+    } catch (error) {
+      logger.error('Error ranking posts by views:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Delete the daily view counts of a post
+   */
+  async deleteViews(postId: number, client: DbClient = prisma()): Promise<void> {
+    try {
+      await client.postView.deleteMany({
+        where: { post_id: postId },
+      });
+    } catch (error) {
+      logger.error('Error deleting post views:', error);
+      throw error;
+    }
+  }
+}
+
+export const postViewService = new PostViewService();
@@ -1,34 +1,118 @@
+import { config } from '../../config/index.js';
+import type { Prisma } from '../../generated/prisma/client.js';
+
 import { databaseService } from './database.js';
 import { logger } from './logger.js';
+import { postLockService } from './post-lock.js';
+import { postMetaService } from './post-meta.js';
+import { postPasswordService } from './post-password.js';
+import { postPreviewService } from './post-preview.js';
+import { postSchedulerService } from './post-scheduler.js';
+import { postViewService } from './post-view.js';
+import { revisionService } from './revision.js';
+import { sitemapService } from './sitemap.js';
+import { termService } from './term.js';
 
-import type { CreatePostDto, Post, PostQueryParams, UpdatePostDto } from '@/types';
+import { NAV_MENU_ITEM_POST_TYPE, TAXONOMIES } from '@/constants';
+import type {
+  BulkPostAction,
+  CreatePostDto,
+  CursorPage,
+  CursorPaginationParams,
+  PopularPost,
+  PopularPostPeriod,
+  Post,
+  PostPreview,
+  PostQueryParams,
+  PostStatus,
+  PostTransition,
+  PostTranslation,
+  PostType,
+  PostViewer,
+  ProtectedPostPreview,
+  Term,
+  UpdatePostDto,
+} from '@/types';
+import { buildKeysetArgs, decodeCursor, toCursorPage } from '@/utils/cursor';
+import { buildSnippet, toFullTextQuery } from '@/utils/search';
 
 const prisma = () => databaseService.getClient();
 
+/**
+ * Editorial state machine: the statuses a post may move to from each status
+ */
+const POST_STATUS_TRANSITIONS: Record<PostStatus, readonly PostStatus[]> = {
+  draft: ['pending', 'publish', 'future', 'private'],
+  pending: ['draft', 'publish', 'future'],
+  future: ['draft', 'pending', 'publish', 'private'],
+  publish: ['draft', 'pending', 'private'],
+  private: ['draft', 'publish'],
+  // Trashed posts only leave the trash through restorePost()
+  trash: [],
+};
+
+const PUBLISHING_STATUSES: readonly PostStatus[] = ['publish', 'future', 'private'];
+
+// Columns posts can be sorted by, keyed by the orderBy query value
+const POST_ORDER_FIELDS: Record<
+  string,
+  'post_date' | 'post_title' | 'post_modified' | 'view_count' | 'comment_count'
+> = {
+  date: 'post_date',
+  title: 'post_title',
+  modified: 'post_modified',
+  views: 'view_count',
+  comment_count: 'comment_count',
+};
+
+/**
+ * Where clause of a post listing
+ */
+interface PostsWhere {
+  id?: { in: number[] };
+  post_status?: string | { not: string };
+  post_type?: string | { not: string };
+  post_author?: string;
+  locale?: string;
+  post_title?: { search: string };
+  post_content?: { search: string };
+  post_excerpt?: { search: string };
+}
+
+/**
+ * Raw post row as returned by Prisma
+ */
+interface PrismaPostRecord {
+  id: number;
+  uuid: string;
+  post_title: string;
+  post_content: string;
+  post_excerpt: string | null;
+  post_status: string;
+  post_type: string;
+  post_author: string;
+  post_name: string;
+  post_password: string | null;
+  comment_status: string;
+  ping_status: string;
+  guid: string | null;
+  post_parent: string | null;
+  menu_order: number;
+  comment_count: number;
+  view_count: number;
+  post_date: Date | null;
+  trashed_at: Date | null;
+  created_at: Date;
+  post_modified: Date;
+  locale: string;
+  translation_group: string | null;
+}
+
 class PostService {
   /**
    * Map Prisma Post model to domain Post object
    */
-  private mapPrismaPostToPost(prismaPost: {
-    id: number;
-    uuid: string;
-    post_title: string;
-    post_content: string;
-    post_excerpt: string | null;
-    post_status: string;
-    post_type: string;
-    post_author: string;
-    post_name: string;
-    comment_status: string;
-    ping_status: string;
-    guid: string | null;
-    post_parent: string | null;
-    menu_order: number;
-    comment_count: number;
-    post_date: Date | null;
-    created_at: Date;
-    post_modified: Date;
-  }): Post {
+  private mapPrismaPostToPost(prismaPost: PrismaPostRecord, terms: Term[] = []): Post {
     return {
       id: prismaPost.id,
       uuid: prismaPost.uuid,
@@ -39,22 +123,174 @@ class PostService {
       type: prismaPost.post_type as Post['type'],
       authorId: prismaPost.post_author,
       slug: prismaPost.post_name,
+      locale: prismaPost.locale,
+      translationGroup: prismaPost.translation_group,
       commentStatus: prismaPost.comment_status as Post['commentStatus'],
       pingStatus: prismaPost.ping_status as Post['pingStatus'],
       featuredMedia: prismaPost.guid,
       parentId: prismaPost.post_parent,
       menuOrder: prismaPost.menu_order,
       commentCount: prismaPost.comment_count,
+      viewCount: prismaPost.view_count,
+      isProtected: Boolean(prismaPost.post_password),
+      categories: terms.filter((term) => term.taxonomy === TAXONOMIES.CATEGORY),
+      tags: terms.filter((term) => term.taxonomy === TAXONOMIES.POST_TAG),
       publishedAt: prismaPost.post_date,
+      trashedAt: prismaPost.trashed_at,
       createdAt: prismaPost.created_at,
       updatedAt: prismaPost.post_modified,
     };
   }
 
   /**
-   * Generate a unique slug from title
+   * Map Prisma posts to domain posts with their categories and tags attached
+   */
+  private async mapPrismaPostsWithTerms(prismaPosts: PrismaPostRecord[]): Promise<Post[]> {
+    const termsByPost = await termService.getObjectTerms(prismaPosts.map((post) => post.id));
+
+    return prismaPosts.map((post) => this.mapPrismaPostToPost(post, termsByPost.get(post.id)));
+  }
+
+  /**
+   * Map a single Prisma post to a domain post with its terms attached
+   */
+  private async mapPrismaPostWithTerms(prismaPost: PrismaPostRecord): Promise<Post> {
+    const termsByPost = await termService.getObjectTerms([prismaPost.id]);
+    return this.mapPrismaPostToPost(prismaPost, termsByPost.get(prismaPost.id));
+  }
+
+  /**
+   * Assign categories and/or tags to a post when provided
+   * Each taxonomy is replaced in its own transaction unless a transaction client is given.
+   */
+  private async assignTerms(
+    postId: number,
+    postData: Pick<CreatePostDto, 'categories' | 'tags'>,
+    client?: Prisma.TransactionClient
+  ): Promise<void> {
+    if (postData.categories !== undefined) {
+      await termService.setObjectTerms(postId, TAXONOMIES.CATEGORY, postData.categories, client);
+    }
+
+    if (postData.tags !== undefined) {
+      await termService.setObjectTerms(postId, TAXONOMIES.POST_TAG, postData.tags, client);
+    }
+  }
+
+  /**
+   * Resolve the status to store: a 'future' post whose date has already
+   * passed is published right away, as WordPress does
+   */
+  private resolveStatus(status: string, publishedAt: Date | null | undefined): string {
+    if (status === 'future' && publishedAt && publishedAt.getTime() <= Date.now()) {
+      return 'publish';
+    }
+    return status;
+  }
+
+  /**
+   * Columns set when a post is moved to the trash
+   */
+  private getTrashData(previousStatus: string) {
+    return {
+      post_status: 'trash',
+      pre_trash_status: previousStatus,
+      trashed_at: new Date(),
+    };
+  }
+
+  /**
+   * Columns a bulk action changes on a post
+   */
+  private getBulkUpdateData(action: BulkPostAction, previousStatus: string) {
+    switch (action.action) {
+      case 'publish':
+        return { post_status: 'publish' };
+      case 'unpublish':
+        return { post_status: 'draft' };
+      case 'set_author':
+        return { post_author: action.authorId };
+      case 'trash':
+        return this.getTrashData(previousStatus);
+      default:
+        return {};
+    }
+  }
+
+  /**
+   * Announce a post that has just gone live
+   */
+  private async announcePublished(post: PrismaPostRecord): Promise<void> {
+    await postSchedulerService.emitPublished({
+      id: post.id,
+      uuid: post.uuid,
+      title: post.post_title,
+      slug: post.post_name,
+      type: post.post_type,
+      authorId: post.post_author,
+      publishedAt: post.post_date ? post.post_date.toISOString() : null,
+      scheduled: false,
+    });
+  }
+
+  /**
+   * Map Prisma PostTransition model to domain PostTransition object
+   */
+  private mapPrismaTransitionToTransition(prismaTransition: {
+    id: number;
+    post_id: number;
+    from_status: string;
+    to_status: string;
+    actor_id: string | null;
+    note: string | null;
+    created_at: Date;
+  }): PostTransition {
+    return {
+      id: prismaTransition.id,
+      postId: prismaTransition.post_id,
+      fromStatus: prismaTransition.from_status as PostStatus,
+      toStatus: prismaTransition.to_status as PostStatus,
+      actorId: prismaTransition.actor_id,
+      note: prismaTransition.note,
+      createdAt: prismaTransition.created_at,
+    };
+  }
+
+  /**
+   * Validate a status change against the editorial workflow
+   * Returns a reason when the change is not allowed, or null when it is.
+   *
+   * Only reviewers may approve pending posts, and users who cannot publish
+   * are limited to drafting and submitting for review.
    */
-  private async generateSlug(title: string, authorId: string): Promise<string> {
+  getStatusTransitionError(
+    from: PostStatus,
+    to: PostStatus,
+    permissions: readonly string[]
+  ): string | null {
+    if (from === to) {
+      return null;
+    }
+
+    if (!POST_STATUS_TRANSITIONS[from]?.includes(to)) {
+      return `A post cannot move from '${from}' to '${to}'`;
+    }
+
+    if (from === 'pending' && to !== 'draft' && !permissions.includes('post:review')) {
+      return 'Only reviewers can approve pending posts';
+    }
+
+    if (PUBLISHING_STATUSES.includes(to) && !permissions.includes('post:publish')) {
+      return 'You can only submit posts for review';
+    }
+
+    return null;
+  }
+
+  /**
+   * Generate a slug from title that is unique within a locale
+   */
+  private async generateSlug(title: string, locale: string): Promise<string> {
     const baseSlug = title
       .toLowerCase()
       .replaceAll(/[^a-z0-9]+/g, '-')
@@ -63,7 +299,7 @@ class PostService {
     let slug = baseSlug;
     let counter = 1;
 
-    while (await this.slugExists(slug, authorId)) {
+    while (await this.slugExists(slug, locale)) {
       slug = `${baseSlug}-${counter++}`;
     }
 
@@ -71,14 +307,16 @@ class PostService {
   }
 
   /**
-   * Check if slug exists for author
+   * Check if a post of the locale, other than `excludeId`, uses the slug
+   * Translations may share a slug since they are in different locales.
    */
-  private async slugExists(slug: string, authorId: string): Promise<boolean> {
+  async slugExists(slug: string, locale: string, excludeId?: number): Promise<boolean> {
     try {
       const count = await prisma().post.count({
         where: {
           post_name: slug,
-          post_author: authorId,
+          locale,
+          ...(excludeId !== undefined && { id: { not: excludeId } }),
         },
       });
       return count > 0;
@@ -88,33 +326,88 @@ class PostService {
     }
   }
 
+  /**
+   * Translation group to put a translation of `postId` in
+   * A post that had no translations yet starts a group named after its UUID.
+   */
+  private async joinTranslationGroup(
+    postId: number,
+    client: Prisma.TransactionClient = prisma()
+  ): Promise<string | null> {
+    const source = await client.post.findUnique({
+      where: { id: postId },
+      select: { uuid: true, translation_group: true },
+    });
+
+    if (!source) {
+      return null;
+    }
+
+    if (!source.translation_group) {
+      await client.post.update({
+        where: { id: postId },
+        data: { translation_group: source.uuid },
+      });
+    }
+
+    return source.translation_group ?? source.uuid;
+  }
+
   /**
    * Create a new post
    */
   async createPost(postData: CreatePostDto): Promise<Post> {
     try {
-      const slug = postData.slug || (await this.generateSlug(postData.title, postData.authorId));
+      const locale = postData.locale ?? config.locales.default;
+      const slug = postData.slug || (await this.generateSlug(postData.title, locale));
+      const password = postData.password
+        ? await postPasswordService.hashPassword(postData.password)
+        : '';
 
-      const post = await prisma().post.create({
-        data: {
-          post_title: postData.title,
-          post_content: postData.content,
-          post_excerpt: postData.excerpt,
-          post_status: postData.status || 'draft',
-          post_type: postData.type || 'post',
-          post_author: postData.authorId,
-          post_name: slug,
-          comment_status: postData.commentStatus || 'closed',
-          ping_status: postData.pingStatus || 'closed',
-          guid: postData.featuredMedia,
-          post_parent: postData.parentId,
-          menu_order: postData.menuOrder || 0,
-          post_date: postData.publishedAt,
-        },
+      // The post, its translation group, terms and meta are saved together or not at all
+      const post = await prisma().$transaction(async (tx) => {
+        const translationGroup = postData.translationOf
+          ? await this.joinTranslationGroup(postData.translationOf, tx)
+          : null;
+
+        const created = await tx.post.create({
+          data: {
+            post_title: postData.title,
+            post_content: postData.content,
+            post_excerpt: postData.excerpt,
+            post_status: this.resolveStatus(postData.status || 'draft', postData.publishedAt),
+            post_type: postData.type || 'post',
+            post_author: postData.authorId,
+            post_name: slug,
+            locale,
+            translation_group: translationGroup,
+            comment_status: postData.commentStatus || 'closed',
+            ping_status: postData.pingStatus || 'closed',
+            guid: postData.featuredMedia,
+            post_parent: postData.parentId,
+            menu_order: postData.menuOrder || 0,
+            post_date: postData.publishedAt,
+            post_password: password,
+          },
+        });
+
+        await this.assignTerms(created.id, postData, tx);
+
+        for (const [key, value] of Object.entries(postData.meta ?? {})) {
+          await postMetaService.setMeta(created.id, key, value, tx);
+        }
+
+        return created;
       });
 
+      if (post.post_status === 'publish') {
+        await this.announcePublished(post);
+        await sitemapService.invalidate();
+      }
+
       logger.info('Post created successfully', { postId: post.id });
-      return this.mapPrismaPostToPost(post);
+      const mappedPost = await this.mapPrismaPostWithTerms(post);
+      return postData.meta ? { ...mappedPost, meta: postData.meta } : mappedPost;
     } catch (error) {
       logger.error('Error creating post:', error);
       throw error;
@@ -130,7 +423,7 @@ class PostService {
         where: { id },
       });
 
-      return post ? this.mapPrismaPostToPost(post) : null;
+      return post ? this.mapPrismaPostWithTerms(post) : null;
     } catch (error) {
       logger.error('Error fetching post by ID:', error);
       throw error;
@@ -139,14 +432,22 @@ class PostService {
 
   /**
    * Get post by slug
+   * Without a locale, a post in the default locale is preferred over its
+   * namesakes in other locales.
    */
-  async getPostBySlug(slug: string): Promise<Post | null> {
+  async getPostBySlug(slug: string, locale?: string): Promise<Post | null> {
     try {
-      const post = await prisma().post.findFirst({
-        where: { post_name: slug },
-      });
+      const post =
+        (await prisma().post.findFirst({
+          where: { post_name: slug, locale: locale ?? config.locales.default },
+        })) ??
+        (locale
+          ? null
+          : await prisma().post.findFirst({
+              where: { post_name: slug },
+            }));
 
-      return post ? this.mapPrismaPostToPost(post) : null;
+      return post ? this.mapPrismaPostWithTerms(post) : null;
     } catch (error) {
       logger.error('Error fetching post by slug:', error);
       throw error;
@@ -154,67 +455,135 @@ class PostService {
   }
 
   /**
-   * Get posts with filtering and pagination
+   * Find the current slug of a post that used to be published under `oldSlug`
+   * When several posts used the slug, the one that gave it up most recently wins.
+   * Without a locale, posts in the default locale win, as in getPostBySlug().
    */
-  async getPosts(params: PostQueryParams): Promise<{ posts: Post[]; total: number }> {
+  async getCanonicalSlug(oldSlug: string, locale?: string): Promise<string | null> {
     try {
-      const {
-        page = 1,
-        limit = 10,
-        status,
-        type,
-        authorId,
-        search,
-        orderBy = 'date',
-        order = 'desc',
-      } = params;
+      const history = await prisma().postSlug.findMany({
+        where: { slug: oldSlug },
+        orderBy: [{ created_at: 'desc' }, { id: 'desc' }],
+        select: { post_id: true },
+      });
 
-      const skip = (page - 1) * limit;
+      if (history.length === 0) {
+        return null;
+      }
 
-      // Build where clause
-      const where: {
-        post_status?: string;
-        post_type?: string;
-        post_author?: string;
-        OR?: Array<{
-          post_title?: { contains: string; mode: 'insensitive' };
-          post_content?: { contains: string; mode: 'insensitive' };
-        }>;
-      } = {};
+      const posts = await prisma().post.findMany({
+        where: { id: { in: history.map((entry) => entry.post_id) }, ...(locale && { locale }) },
+        select: { id: true, post_name: true, locale: true },
+      });
 
-      if (status) {
-        where.post_status = status;
-      }
+      const candidates = history.flatMap(
+        (entry) => posts.find((post) => post.id === entry.post_id) ?? []
+      );
+      const post =
+        candidates.find((candidate) => candidate.locale === (locale ?? config.locales.default)) ??
+        candidates[0];
 
-      if (type) {
-        where.post_type = type;
-      }
+      return post ? post.post_name : null;
+    } catch (error) {
+      logger.error('Error resolving old post slug:', error);
+      throw error;
+    }
+  }
 
-      if (authorId) {
-        where.post_author = authorId;
+  /**
+   * Build the where clause of a post listing
+   * Returns null when the filters cannot match any post.
+   */
+  private async buildPostsWhere(
+    params: PostQueryParams
+  ): Promise<{ where: PostsWhere; fullTextQuery: string } | null> {
+    const { status, type, authorId, locale, search, category, tag, metaKey, metaValue } = params;
+
+    const where: PostsWhere = {};
+
+    // Trashed posts are only listed when asked for
+    where.post_status = status ?? { not: 'trash' };
+
+    // Menu items are only listed as part of their menu
+    where.post_type = type ?? { not: NAV_MENU_ITEM_POST_TYPE };
+
+    if (authorId) {
+      where.post_author = authorId;
+    }
+
+    if (locale) {
+      where.locale = locale;
+    }
+
+    // Full-text search over the FULLTEXT(post_title, post_content, post_excerpt) index;
+    // MySQL only uses the index when every column in it is searched
+    const fullTextQuery = search ? toFullTextQuery(search) : '';
+
+    if (search && !fullTextQuery) {
+      return null;
+    }
+
+    if (fullTextQuery) {
+      where.post_title = { search: fullTextQuery };
+      where.post_content = { search: fullTextQuery };
+      where.post_excerpt = { search: fullTextQuery };
+    }
+
+    // Restrict to posts assigned to the requested category and/or tag
+    // and carrying the requested meta
+    const idFilters = [
+      ...(category
+        ? [() => termService.getObjectIdsByTermSlug(category, TAXONOMIES.CATEGORY)]
+        : []),
+      ...(tag ? [() => termService.getObjectIdsByTermSlug(tag, TAXONOMIES.POST_TAG)] : []),
+      ...(metaKey ? [() => postMetaService.getPostIdsByMeta(metaKey, metaValue)] : []),
+    ];
+
+    for (const getObjectIds of idFilters) {
+      const objectIds = await getObjectIds();
+      const allowedIds = where.id ? where.id.in.filter((id) => objectIds.includes(id)) : objectIds;
+
+      if (allowedIds.length === 0) {
+        return null;
       }
 
-      if (search) {
-        where.OR = [
-          { post_title: { contains: search, mode: 'insensitive' } },
-          { post_content: { contains: search, mode: 'insensitive' } },
-        ];
+      where.id = { in: allowedIds };
+    }
+
+    return { where, fullTextQuery };
+  }
+
+  /**
+   * Get posts with filtering and pagination
+   */
+  async getPosts(params: PostQueryParams): Promise<{ posts: Post[]; total: number }> {
+    try {
+      const { page = 1, limit = 10, search, meta, orderBy = 'date', order = 'desc' } = params;
+
+      const skip = (page - 1) * limit;
+
+      const filter = await this.buildPostsWhere(params);
+      if (!filter) {
+        return { posts: [], total: 0 };
       }
 
-      // Map orderBy to Prisma field
-      const orderByMap: Record<
-        string,
-        'post_date' | 'post_title' | 'post_modified' | 'comment_count'
-      > = {
-        date: 'post_date',
-        title: 'post_title',
-        modified: 'post_modified',
-        comment_count: 'comment_count',
-      };
+      const { where, fullTextQuery } = filter;
 
-      const orderField = orderByMap[orderBy] || 'post_date';
+      const orderField = POST_ORDER_FIELDS[orderBy] || 'post_date';
       const orderDirection = order.toLowerCase() === 'asc' ? 'asc' : 'desc';
 
+      // Relevance only applies to searches; otherwise fall back to date
+      const sortOrder: Prisma.PostOrderByWithRelationInput =
+        orderBy === 'relevance' && fullTextQuery
+          ? {
+              _relevance: {
+                fields: ['post_title', 'post_content', 'post_excerpt'],
+                search: fullTextQuery,
+                sort: orderDirection,
+              },
+            }
+          : { [orderField]: orderDirection };
+
       // Get total count and posts in parallel
       const [total, posts] = await Promise.all([
         prisma().post.count({ where }),
@@ -222,11 +591,11 @@ class PostService {
           where,
           skip,
           take: limit,
-          orderBy: { [orderField]: orderDirection },
+          orderBy: sortOrder,
         }),
       ]);
 
-      const mappedPosts = posts.map((post) => this.mapPrismaPostToPost(post));
+      const mappedPosts = await this.mapPostList(posts, search, meta);
 
       return { posts: mappedPosts, total };
     } catch (error) {
@@ -235,10 +604,101 @@ class PostService {
     }
   }
 
+  /**
+   * Get a page of posts after or before a cursor, with the same filters as getPosts
+   * Sorting by relevance is not supported and falls back to date. The total is
+   * only counted when asked for. Returns null when the cursor was issued for
+   * another sort.
+   */
+  async getPostsByCursor(
+    params: Omit<PostQueryParams, 'page'> & CursorPaginationParams
+  ): Promise<CursorPage<Post> | null> {
+    try {
+      const {
+        cursor,
+        limit,
+        includeTotal,
+        search,
+        meta,
+        orderBy = 'date',
+        order = 'desc',
+      } = params;
+
+      const field = POST_ORDER_FIELDS[orderBy] || 'post_date';
+      const sort = `${field}:${order}`;
+      const position = cursor ? decodeCursor(cursor, sort) : undefined;
+
+      if (position === null) {
+        return null;
+      }
+
+      const filter = await this.buildPostsWhere(params);
+      if (!filter) {
+        return { items: [], nextCursor: null, prevCursor: null, ...(includeTotal && { total: 0 }) };
+      }
+
+      const { where: keysetWhere, ...keyset } = buildKeysetArgs(
+        { field, order, limit, nullable: field === 'post_date' },
+        position
+      );
+
+      const [total, posts] = await Promise.all([
+        includeTotal ? prisma().post.count({ where: filter.where }) : undefined,
+        prisma().post.findMany({
+          where: keysetWhere ? { AND: [filter.where, keysetWhere] } : filter.where,
+          ...keyset,
+        }),
+      ]);
+
+      const page = toCursorPage(posts, { field, sort, limit }, position);
+
+      return {
+        ...page,
+        items: await this.mapPostList(page.items, search, meta),
+        ...(total !== undefined && { total }),
+      };
+    } catch (error) {
+      logger.error('Error fetching posts by cursor:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Map a post listing, attaching the requested meta and search snippets
+   */
+  private async mapPostList(
+    posts: PrismaPostRecord[],
+    search?: string,
+    meta?: string[]
+  ): Promise<Post[]> {
+    const mappedPosts = await this.mapPrismaPostsWithTerms(posts);
+
+    if (meta?.length) {
+      await postMetaService.attachMeta(mappedPosts, meta);
+    }
+
+    // Highlighted excerpt around the first match
+    if (search) {
+      for (const post of mappedPosts) {
+        post.snippet = buildSnippet(post.content || post.excerpt || '', search);
+      }
+    }
+
+    return mappedPosts;
+  }
+
   /**
    * Update post by ID
+   * The previous title/content/excerpt are kept as a revision when any of them change,
+   * and status changes are recorded in the post's transition history.
+   * Callers validate status changes with getStatusTransitionError first.
    */
-  async updatePost(id: number, postData: UpdatePostDto): Promise<Post | null> {
+  async updatePost(
+    id: number,
+    postData: UpdatePostDto,
+    editorId?: string,
+    transitionNote?: string | null
+  ): Promise<Post | null> {
     try {
       // Build update data object
       const updateData: {
@@ -254,6 +714,9 @@ class PostService {
         post_parent?: string | null;
         menu_order?: number;
         post_date?: Date | null;
+        post_password?: string;
+        locale?: string;
+        translation_group?: string | null;
       } = {};
 
       if (postData.title !== undefined) {
@@ -269,7 +732,7 @@ class PostService {
       }
 
       if (postData.status !== undefined) {
-        updateData.post_status = postData.status;
+        updateData.post_status = this.resolveStatus(postData.status, postData.publishedAt);
       }
 
       if (postData.type !== undefined) {
@@ -280,6 +743,10 @@ class PostService {
         updateData.post_name = postData.slug;
       }
 
+      if (postData.locale !== undefined) {
+        updateData.locale = postData.locale;
+      }
+
       if (postData.commentStatus !== undefined) {
         updateData.comment_status = postData.commentStatus;
       }
@@ -304,17 +771,113 @@ class PostService {
         updateData.post_date = postData.publishedAt;
       }
 
-      if (Object.keys(updateData).length === 0) {
+      // An empty or null password removes the protection
+      if (postData.password !== undefined) {
+        updateData.post_password = postData.password
+          ? await postPasswordService.hashPassword(postData.password)
+          : '';
+      }
+
+      if (Object.keys(updateData).length === 0 && postData.translationOf === undefined) {
+        await prisma().$transaction((tx) => this.assignTerms(id, postData, tx));
         return this.getPostById(id);
       }
 
-      const post = await prisma().post.update({
-        where: { id },
-        data: updateData,
+      let wasPublished = false;
+      const post = await prisma().$transaction(async (tx) => {
+        const previous = await tx.post.findUnique({
+          where: { id },
+          select: {
+            post_title: true,
+            post_content: true,
+            post_excerpt: true,
+            post_status: true,
+            post_name: true,
+          },
+        });
+
+        if (previous) {
+          wasPublished = previous.post_status === 'publish';
+        }
+
+        const versionedFieldChanged =
+          previous &&
+          ((updateData.post_title !== undefined && updateData.post_title !== previous.post_title) ||
+            (updateData.post_content !== undefined &&
+              updateData.post_content !== previous.post_content) ||
+            (updateData.post_excerpt !== undefined &&
+              updateData.post_excerpt !== previous.post_excerpt));
+
+        if (previous && versionedFieldChanged) {
+          await revisionService.createRevision(
+            id,
+            {
+              title: previous.post_title,
+              content: previous.post_content,
+              excerpt: previous.post_excerpt,
+            },
+            editorId,
+            tx
+          );
+        }
+
+        // Keep the old slug so links to it can be redirected; a slug that
+        // becomes current again no longer needs its history entry
+        if (
+          previous &&
+          updateData.post_name !== undefined &&
+          updateData.post_name !== previous.post_name
+        ) {
+          await tx.postSlug.upsert({
+            where: { post_id_slug: { post_id: id, slug: previous.post_name } },
+            create: { post_id: id, slug: previous.post_name },
+            update: { created_at: new Date() },
+          });
+          await tx.postSlug.deleteMany({
+            where: { post_id: id, slug: updateData.post_name },
+          });
+        }
+
+        if (
+          previous &&
+          updateData.post_status !== undefined &&
+          updateData.post_status !== previous.post_status
+        ) {
+          await tx.postTransition.create({
+            data: {
+              post_id: id,
+              from_status: previous.post_status,
+              to_status: updateData.post_status,
+              actor_id: editorId,
+              note: transitionNote,
+            },
+          });
+        }
+
+        if (postData.translationOf !== undefined) {
+          updateData.translation_group = postData.translationOf
+            ? await this.joinTranslationGroup(postData.translationOf, tx)
+            : null;
+        }
+
+        await this.assignTerms(id, postData, tx);
+
+        return tx.post.update({
+          where: { id },
+          data: updateData,
+        });
       });
 
+      if (!wasPublished && post.post_status === 'publish') {
+        await this.announcePublished(post);
+      }
+
+      if (wasPublished || post.post_status === 'publish') {
+        await sitemapService.invalidate();
+      }
+
       logger.info('Post updated successfully', { postId: id });
-      return this.mapPrismaPostToPost(post);
+      return this.mapPrismaPostWithTerms(post);
     } catch (error) {
       logger.error('Error updating post:', error);
       throw error;
@@ -322,22 +885,240 @@ class PostService {
   }
 
   /**
-   * Delete post by ID
+   * Move a post to the trash, remembering its status for restorePost()
+   * Returns null when the post does not exist.
+   */
+  async trashPost(id: number, actorId?: string): Promise<Post | null> {
+    try {
+      const previous = await prisma().post.findUnique({
+        where: { id },
+        select: { post_status: true },
+      });
+
+      if (!previous) {
+        return null;
+      }
+
+      const post = await prisma().$transaction(async (tx) => {
+        await tx.postTransition.create({
+          data: {
+            post_id: id,
+            from_status: previous.post_status,
+            to_status: 'trash',
+            actor_id: actorId,
+          },
+        });
+
+        return tx.post.update({
+          where: { id },
+          data: this.getTrashData(previous.post_status),
+        });
+      });
+
+      if (previous.post_status === 'publish') {
+        await sitemapService.invalidate();
+      }
+
+      logger.info('Post moved to trash', { postId: id });
+      return this.mapPrismaPostWithTerms(post);
+    } catch (error) {
+      logger.error('Error trashing post:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Take a post out of the trash with the status it had before
+   * A scheduled post whose date passed meanwhile comes back published.
+   * Returns null when the post does not exist.
+   */
+  async restorePost(id: number, actorId?: string): Promise<Post | null> {
+    try {
+      const trashed = await prisma().post.findUnique({
+        where: { id },
+        select: { post_status: true, pre_trash_status: true, post_date: true },
+      });
+
+      if (!trashed) {
+        return null;
+      }
+
+      const status = this.resolveStatus(trashed.pre_trash_status || 'draft', trashed.post_date);
+
+      const post = await prisma().$transaction(async (tx) => {
+        await tx.postTransition.create({
+          data: {
+            post_id: id,
+            from_status: 'trash',
+            to_status: status,
+            actor_id: actorId,
+          },
+        });
+
+        return tx.post.update({
+          where: { id },
+          data: {
+            post_status: status,
+            pre_trash_status: null,
+            trashed_at: null,
+          },
+        });
+      });
+
+      if (status === 'publish') {
+        await sitemapService.invalidate();
+      }
+
+      logger.info('Post restored from trash', { postId: id, status });
+      return this.mapPrismaPostWithTerms(post);
+    } catch (error) {
+      logger.error('Error restoring post:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Apply one action to several posts in a single transaction
+   * Permission and workflow checks are up to the caller; IDs of posts that
+   * do not exist are skipped. Returns the updated posts.
+   */
+  async bulkUpdate(ids: number[], action: BulkPostAction, actorId?: string): Promise<Post[]> {
+    try {
+      const published: PrismaPostRecord[] = [];
+      let sitemapChanged = false;
+
+      const posts = await prisma().$transaction(
+        async (tx) => {
+          const updated: PrismaPostRecord[] = [];
+
+          for (const id of ids) {
+            const previous = await tx.post.findUnique({
+              where: { id },
+              select: { post_status: true },
+            });
+
+            if (!previous) continue;
+
+            if (action.action === 'set_categories') {
+              await termService.setObjectTerms(id, TAXONOMIES.CATEGORY, action.categories, tx);
+            }
+
+            const data = this.getBulkUpdateData(action, previous.post_status);
+
+            if (data.post_status && data.post_status !== previous.post_status) {
+              await tx.postTransition.create({
+                data: {
+                  post_id: id,
+                  from_status: previous.post_status,
+                  to_status: data.post_status,
+                  actor_id: actorId,
+                },
+              });
+            }
+
+            const post = await tx.post.update({ where: { id }, data });
+
+            if (previous.post_status !== 'publish' && post.post_status === 'publish') {
+              published.push(post);
+            }
+
+            if (previous.post_status === 'publish' || post.post_status === 'publish') {
+              sitemapChanged = true;
+            }
+
+            updated.push(post);
+          }
+
+          return updated;
+        },
+        // Up to BULK_MAX_POSTS posts are written one after the other
+        { timeout: 30000 }
+      );
+
+      for (const post of published) {
+        await this.announcePublished(post);
+      }
+
+      if (sitemapChanged) {
+        await sitemapService.invalidate();
+      }
+
+      logger.info('Bulk post update applied', { action: action.action, count: posts.length });
+      return this.mapPrismaPostsWithTerms(posts);
+    } catch (error) {
+      logger.error('Error applying bulk post update:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Get several posts by ID, in no particular order
+   */
+  async getPostsByIds(ids: number[]): Promise<Post[]> {
+    try {
+      const posts = await prisma().post.findMany({
+        where: { id: { in: ids } },
+      });
+
+      return this.mapPrismaPostsWithTerms(posts);
+    } catch (error) {
+      logger.error('Error fetching posts by IDs:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Delete a post and everything attached to it for good, all or nothing
    */
   async deletePost(id: number): Promise<boolean> {
     try {
       const post = await prisma().post.findUnique({
         where: { id },
-        select: { id: true },
+        select: { id: true, uuid: true, post_status: true, post_parent: true },
       });
 
       if (!post) {
         return false;
       }
 
-      await prisma().post.delete({
-        where: { id },
-      });
+      let movedChildren = 0;
+      await prisma().$transaction(
+        async (tx) => {
+          await tx.post.delete({
+            where: { id },
+          });
+
+          // Children of a deleted page move up to its parent rather than pointing nowhere
+          ({ count: movedChildren } = await tx.post.updateMany({
+            where: { post_parent: post.uuid },
+            data: { post_parent: post.post_parent },
+          }));
+
+          await termService.removeObjectTerms(id, tx);
+          await tx.comment.deleteMany({
+            where: { comment_post_id: id },
+          });
+          await revisionService.deleteRevisions(id, tx);
+          await tx.postTransition.deleteMany({
+            where: { post_id: id },
+          });
+          await tx.postSlug.deleteMany({
+            where: { post_id: id },
+          });
+          await postMetaService.deleteAllMeta(id, tx);
+          await postPreviewService.deleteLinks(id, tx);
+          await postViewService.deleteViews(id, tx);
+        },
+        { timeout: 30000 }
+      );
+
+      // Locks may be kept in Redis, which the transaction does not cover
+      await postLockService.deleteLock(id);
+
+      // Moved children change path, so their sitemap URLs change too
+      if (post.post_status === 'publish' || movedChildren > 0) {
+        await sitemapService.invalidate();
+      }
 
       logger.info('Post deleted successfully', { postId: id });
       return true;
@@ -381,6 +1162,262 @@ class PostService {
     }
   }
 
+  /**
+   * Reduce a password-protected post to what readers see before unlocking it
+   */
+  toProtectedPreview(post: Post): ProtectedPostPreview {
+    return {
+      id: post.id,
+      uuid: post.uuid,
+      title: post.title,
+      excerpt: post.excerpt,
+      status: post.status,
+      type: post.type,
+      authorId: post.authorId,
+      slug: post.slug,
+      locale: post.locale,
+      isProtected: post.isProtected,
+      publishedAt: post.publishedAt,
+      ...(post.translations && { translations: post.translations }),
+    };
+  }
+
+  /**
+   * Whether the viewer may read the content of a post: anyone when it has no
+   * password, otherwise the author, users who can edit others' posts, or readers
+   * holding an unlock token
+   */
+  async canRead(post: Post, viewer: PostViewer): Promise<boolean> {
+    if (!post.isProtected) {
+      return true;
+    }
+
+    if (viewer.userId === post.authorId || viewer.permissions.includes('post:update_others')) {
+      return true;
+    }
+
+    return Boolean(viewer.unlockToken && (await this.isUnlocked(post.id, viewer.unlockToken)));
+  }
+
+  /**
+   * Hide the content of a password-protected post unless the viewer may read it
+   */
+  async presentPost(post: Post, viewer: PostViewer): Promise<Post | ProtectedPostPreview> {
+    return (await this.canRead(post, viewer)) ? post : this.toProtectedPreview(post);
+  }
+
+  /**
+   * Get the post a preview token points to, as captured when the link was created
+   * Returns null when the token does not work or the post was trashed or deleted.
+   */
+  async getPreview(token: string): Promise<PostPreview | null> {
+    const resolved = await postPreviewService.resolveToken(token);
+    if (!resolved) {
+      return null;
+    }
+
+    const { link, revision } = resolved;
+    const post = await this.getPostById(link.postId);
+
+    if (!post || post.status === 'trash') {
+      return null;
+    }
+
+    return {
+      ...post,
+      title: revision.title,
+      content: revision.content,
+      excerpt: revision.excerpt,
+      preview: { revisionId: revision.id, expiresAt: link.expiresAt },
+    };
+  }
+
+  /**
+   * Get the stored password hash of a post, or null if it is not protected
+   */
+  private async getPasswordHash(id: number): Promise<string | null> {
+    const post = await prisma().post.findUnique({
+      where: { id },
+      select: { post_password: true },
+    });
+    return post?.post_password || null;
+  }
+
+  /**
+   * Check a post password and return an unlock token when it matches
+   */
+  async unlockPost(id: number, password: string): Promise<string | null> {
+    try {
+      const passwordHash = await this.getPasswordHash(id);
+      if (!passwordHash) {
+        return null;
+      }
+
+      const isValid = await postPasswordService.verifyPassword(password, passwordHash);
+      if (!isValid) {
+        logger.warn('Post unlock attempt with invalid password', { postId: id });
+        return null;
+      }
+
+      return postPasswordService.createUnlockToken(id, passwordHash);
+    } catch (error) {
+      logger.error('Error unlocking post:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Check whether an unlock token grants access to a protected post
+   */
+  async isUnlocked(id: number, token: string): Promise<boolean> {
+    try {
+      const passwordHash = await this.getPasswordHash(id);
+      if (!passwordHash) {
+        return true;
+      }
+
+      return postPasswordService.isUnlockTokenValid(token, id, passwordHash);
+    } catch (error) {
+      logger.error('Error checking post unlock token:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Get the status history of a post, oldest first
+   */
+  async getTransitions(postId: number): Promise<PostTransition[]> {
+    try {
+      const transitions = await prisma().postTransition.findMany({
+        where: { post_id: postId },
+        orderBy: [{ created_at: 'asc' }, { id: 'asc' }],
+      });
+
+      return transitions.map((transition) => this.mapPrismaTransitionToTransition(transition));
+    } catch (error) {
+      logger.error('Error fetching post transitions:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Get the author of a post, or null if the post does not exist
+   */
+  async getPostAuthorId(id: number): Promise<string | null> {
+    try {
+      const post = await prisma().post.findUnique({
+        where: { id },
+        select: { post_author: true },
+      });
+      return post ? post.post_author : null;
+    } catch (error) {
+      logger.error('Error fetching post author:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Other language versions of a post, by locale
+   * Only published translations are listed unless asked otherwise; trashed
+   * ones never are.
+   */
+  async getTranslations(post: Post, includeUnpublished = false): Promise<PostTranslation[]> {
+    if (!post.translationGroup) {
+      return [];
+    }
+
+    try {
+      const translations = await prisma().post.findMany({
+        where: {
+          translation_group: post.translationGroup,
+          id: { not: post.id },
+          post_status: includeUnpublished ? { not: 'trash' } : 'publish',
+        },
+        select: {
+          id: true,
+          uuid: true,
+          locale: true,
+          post_title: true,
+          post_name: true,
+          post_status: true,
+        },
+        orderBy: { locale: 'asc' },
+      });
+
+      return translations.map((translation) => ({
+        id: translation.id,
+        uuid: translation.uuid,
+        locale: translation.locale,
+        title: translation.post_title,
+        slug: translation.post_name,
+        status: translation.post_status as PostStatus,
+      }));
+    } catch (error) {
+      logger.error('Error fetching post translations:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Find the post written in `locale` among `postId` and its translations,
+   * leaving out `excludeId`
+   * Returns null when there is none, so a post in that locale may join them.
+   */
+  async findTranslationId(
+    postId: number,
+    locale: string,
+    excludeId?: number
+  ): Promise<number | null> {
+    try {
+      const source = await prisma().post.findUnique({
+        where: { id: postId },
+        select: { id: true, locale: true, translation_group: true },
+      });
+
+      if (!source) {
+        return null;
+      }
+
+      if (source.id !== excludeId && source.locale === locale) {
+        return source.id;
+      }
+
+      if (!source.translation_group) {
+        return null;
+      }
+
+      const translation = await prisma().post.findFirst({
+        where: {
+          translation_group: source.translation_group,
+          locale,
+          id: { notIn: excludeId === undefined ? [source.id] : [source.id, excludeId] },
+        },
+        select: { id: true },
+      });
+
+      return translation ? translation.id : null;
+    } catch (error) {
+      logger.error('Error finding post translation:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Get the type of a post, or null if the post does not exist
+   */
+  async getPostType(id: number): Promise<PostType | null> {
+    try {
+      const post = await prisma().post.findUnique({
+        where: { id },
+        select: { post_type: true },
+      });
+      return post ? post.post_type : null;
+    } catch (error) {
+      logger.error('Error fetching post type:', error);
+      throw error;
+    }
+  }
+
   /**
    * Check if author exists
    */
@@ -397,7 +1434,7 @@ class PostService {
   }
 
   /**
-   * Get posts by author with pagination
+   * Get posts by author with pagination, leaving out trashed posts and menu items
    */
   async getPostsByAuthor(
     authorId: string,
@@ -406,20 +1443,23 @@ class PostService {
   ): Promise<{ posts: Post[]; total: number }> {
     try {
       const skip = (page - 1) * limit;
+      const where: Prisma.PostWhereInput = {
+        post_author: authorId,
+        post_status: { not: 'trash' },
+        post_type: { not: NAV_MENU_ITEM_POST_TYPE },
+      };
 
       const [total, posts] = await Promise.all([
-        prisma().post.count({
-          where: { post_author: authorId },
-        }),
+        prisma().post.count({ where }),
         prisma().post.findMany({
-          where: { post_author: authorId },
+          where,
           skip,
           take: limit,
           orderBy: { post_date: 'desc' },
         }),
       ]);
 
-      const mappedPosts = posts.map((post) => this.mapPrismaPostToPost(post));
+      const mappedPosts = await this.mapPrismaPostsWithTerms(posts);
 
       return { posts: mappedPosts, total };
     } catch (error) {
@@ -437,17 +1477,17 @@ class PostService {
 
       const [total, posts] = await Promise.all([
         prisma().post.count({
-          where: { post_status: 'publish' },
+          where: { post_status: 'publish', post_type: { not: NAV_MENU_ITEM_POST_TYPE } },
         }),
         prisma().post.findMany({
-          where: { post_status: 'publish' },
+          where: { post_status: 'publish', post_type: { not: NAV_MENU_ITEM_POST_TYPE } },
           skip,
           take: limit,
           orderBy: { post_date: 'desc' },
         }),
       ]);
 
-      const mappedPosts = posts.map((post) => this.mapPrismaPostToPost(post));
+      const mappedPosts = await this.mapPrismaPostsWithTerms(posts);
 
       return { posts: mappedPosts, total };
     } catch (error) {
@@ -455,6 +1495,61 @@ class PostService {
       throw error;
     }
   }
+
+  /**
+   * Get the most viewed published posts of a type over a period
+   * Views recorded since the last flush are not counted yet.
+   */
+  async getPopularPosts(
+    period: PopularPostPeriod,
+    limit: number,
+    type: PostType = 'post'
+  ): Promise<PopularPost[]> {
+    try {
+      const where = { post_status: 'publish', post_type: type };
+
+      if (period === 'all') {
+        const posts = await prisma().post.findMany({
+          where,
+          orderBy: [{ view_count: 'desc' }, { id: 'desc' }],
+          take: limit,
+        });
+
+        const mappedPosts = await this.mapPrismaPostsWithTerms(posts);
+        return mappedPosts.map((post) => ({ ...post, periodViews: post.viewCount }));
+      }
+
+      // The ranking covers every post viewed in the period, so read it in
+      // batches until enough of them are published posts of the type
+      const popular: { post: PrismaPostRecord; views: number }[] = [];
+      const batchSize = limit * 2;
+      let ranked: { postId: number; views: number }[];
+      let skip = 0;
+
+      do {
+        ranked = await postViewService.getRankedPostIds(period, skip, batchSize);
+        skip += batchSize;
+
+        const posts = await prisma().post.findMany({
+          where: { ...where, id: { in: ranked.map((entry) => entry.postId) } },
+        });
+        const postsById = new Map(posts.map((post) => [post.id, post]));
+
+        for (const { postId, views } of ranked) {
+          const post = postsById.get(postId);
+          if (post && popular.length < limit) {
+            popular.push({ post, views });
+          }
+        }
+      } while (popular.length < limit && ranked.length === batchSize);
+
+      const mappedPosts = await this.mapPrismaPostsWithTerms(popular.map(({ post }) => post));
+      return mappedPosts.map((post, index) => ({ ...post, periodViews: popular[index].views }));
+    } catch (error) {
+      logger.error('Error fetching popular posts:', error);
+      throw error;
+    }
+  }
 }
 
 export const postService = new PostService();
@@ -87,6 +87,16 @@ class RedisService {
     await client.set(key, value, options);
   }
 
+  /**
+   * Set a key only if it does not exist yet
+   * Returns false when the key was already set.
+   */
+  async setIfNotExists(key: string, value: string, ttl?: number): Promise<boolean> {
+    const client = this.getClient();
+    const result = await client.set(key, value, ttl ? { NX: true, EX: ttl } : { NX: true });
+    return result === 'OK';
+  }
+
   async getJson<T>(key: string): Promise<T | null> {
     const value = await this.get(key);
     return value ? JSON.parse(value) : null;
@@ -101,6 +111,19 @@ class RedisService {
     await client.del(key);
   }
 
+  /**
+   * Delete a key only if it still holds the given value, in one atomic step
+   * Returns false when the key is gone or holds another value.
+   */
+  async delIfEquals(key: string, value: string): Promise<boolean> {
+    const client = this.getClient();
+    const result = await client.eval(
+      "if redis.call('get', KEYS[1]) == ARGV[1] then return redis.call('del', KEYS[1]) end return 0",
+      { keys: [key], arguments: [value] }
+    );
+    return result === 1;
+  }
+
   async exists(key: string): Promise<boolean> {
     const client = this.getClient();
     const result = await client.exists(key);
@@ -112,6 +135,39 @@ class RedisService {
     await client.expire(key, ttl);
   }
 
+  async hIncrBy(key: string, field: string, increment: number): Promise<number> {
+    const client = this.getClient();
+    return await client.hIncrBy(key, field, increment);
+  }
+
+  /**
+   * Set a hash field unless it already has a value
+   * Returns false when the field was already set.
+   */
+  async hSetIfNotExists(key: string, field: string, value: string): Promise<boolean> {
+    const client = this.getClient();
+    return Boolean(await client.hSetNX(key, field, value));
+  }
+
+  async hGetAll(key: string): Promise<Record<string, string>> {
+    const client = this.getClient();
+    return await client.hGetAll(key);
+  }
+
+  /**
+   * Rename a key, replacing any key with the new name
+   * Returns false when the key does not exist.
+   */
+  async rename(key: string, newKey: string): Promise<boolean> {
+    if (!(await this.exists(key))) {
+      return false;
+    }
+
+    const client = this.getClient();
+    await client.rename(key, newKey);
+    return true;
+  }
+
   async keys(pattern: string): Promise<string[]> {
     const client = this.getClient();
     return await client.keys(pattern);
@@ -0,0 +1,159 @@
+import type { Prisma } from '../../generated/prisma/client.js';
+
+import { databaseService } from './database.js';
+import { logger } from './logger.js';
+
+import type { PostRevision, RevisionDiff } from '@/types';
+import { diffField } from '@/utils/diff';
+
+const prisma = () => databaseService.getClient();
+
+type DbClient = Prisma.TransactionClient;
+
+/**
+ * Versioned fields of a post
+ */
+export interface RevisionSnapshot {
+  title: string;
+  content: string;
+  excerpt: string | null;
+}
+
+class RevisionService {
+  /**
+   * Map Prisma PostRevision model to domain PostRevision object
+   */
+  private mapPrismaRevisionToRevision(prismaRevision: {
+    id: number;
+    post_id: number;
+    post_title: string;
+    post_content: string;
+    post_excerpt: string | null;
+    revised_by: string | null;
+    created_at: Date;
+  }): PostRevision {
+    return {
+      id: prismaRevision.id,
+      postId: prismaRevision.post_id,
+      title: prismaRevision.post_title,
+      content: prismaRevision.post_content,
+      excerpt: prismaRevision.post_excerpt,
+      revisedBy: prismaRevision.revised_by,
+      createdAt: prismaRevision.created_at,
+    };
+  }
+
+  /**
+   * Store a snapshot of a post's versioned fields
+   */
+  async createRevision(
+    postId: number,
+    snapshot: RevisionSnapshot,
+    revisedBy?: string | null,
+    client: DbClient = prisma()
+  ): Promise<PostRevision> {
+    try {
+      const revision = await client.postRevision.create({
+        data: {
+          post_id: postId,
+          post_title: snapshot.title,
+          post_content: snapshot.content,
+          post_excerpt: snapshot.excerpt,
+          revised_by: revisedBy,
+        },
+      });
+
+      logger.info('Post revision created', { postId, revisionId: revision.id });
+      return this.mapPrismaRevisionToRevision(revision);
+    } catch (error) {
+      logger.error('Error creating post revision:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Get revisions of a post, newest first
+   */
+  async getRevisions(
+    postId: number,
+    page: number,
+    limit: number
+  ): Promise<{ revisions: PostRevision[]; total: number }> {
+    try {
+      const skip = (page - 1) * limit;
+
+      const [total, revisions] = await Promise.all([
+        prisma().postRevision.count({
+          where: { post_id: postId },
+        }),
+        prisma().postRevision.findMany({
+          where: { post_id: postId },
+          skip,
+          take: limit,
+          orderBy: [{ created_at: 'desc' }, { id: 'desc' }],
+        }),
+      ]);
+
+      return {
+        revisions: revisions.map((revision) => this.mapPrismaRevisionToRevision(revision)),
+        total,
+      };
+    } catch (error) {
+      logger.error('Error fetching post revisions:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Get a single revision belonging to a post
+   */
+  async getRevision(postId: number, revisionId: number): Promise<PostRevision | null> {
+    try {
+      const revision = await prisma().postRevision.findFirst({
+        where: { id: revisionId, post_id: postId },
+      });
+
+      return revision ? this.mapPrismaRevisionToRevision(revision) : null;
+    } catch (error) {
+      logger.error('Error fetching post revision:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Delete every revision of a post
+   */
+  async deleteRevisions(postId: number, client: DbClient = prisma()): Promise<number> {
+    try {
+      const result = await client.postRevision.deleteMany({
+        where: { post_id: postId },
+      });
+
+      return result.count;
+    } catch (error) {
+      logger.error('Error deleting post revisions:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Field-level diff between two versions of a post
+   * Content carries a line-based diff in addition to both values.
+   */
+  diff(
+    from: RevisionSnapshot,
+    to: RevisionSnapshot,
+    labels: Pick<RevisionDiff, 'from' | 'to'>
+  ): RevisionDiff {
+    return {
+      ...labels,
+      fields: {
+        title: diffField(from.title, to.title),
+        content: diffField(from.content, to.content, true),
+        excerpt: diffField(from.excerpt, to.excerpt),
+      },
+    };
+  }
+}
+
+export const revisionService = new RevisionService();
@@ -0,0 +1,157 @@
+import { config } from '../../config/index.js';
+
+import { databaseService } from './database.js';
+import { logger } from './logger.js';
+import { pageService } from './page.js';
+import { redisService } from './redis.js';
+
+import { CACHE_KEYS, CACHE_TTL, SITEMAP_MAX_URLS } from '@/constants';
+import { localizePath } from '@/utils/permalink';
+import { buildSitemapIndex, buildUrlSet } from '@/utils/sitemap';
+
+const prisma = () => databaseService.getClient();
+
+/**
+ * Published, non-protected posts and pages
+ */
+const sitemapWhere = {
+  post_status: 'publish',
+  post_type: { in: ['post', 'page'] },
+  OR: [{ post_password: null }, { post_password: '' }],
+};
+
+/**
+ * Sitemaps of published content, split into chunks of SITEMAP_MAX_URLS URLs
+ *
+ * Rendered documents are cached in Redis (when enabled) and dropped by
+ * invalidate() whenever published content changes, so the next request
+ * regenerates them.
+ */
+class SitemapService {
+  private get siteUrl(): string {
+    return config.site.url.replace(/\/$/, '');
+  }
+
+  /**
+   * Read a cached document or render and cache it
+   */
+  private async cached(key: string, render: () => Promise<string | null>): Promise<string | null> {
+    if (redisService.isEnabled()) {
+      const hit = await redisService.get(key);
+      if (hit) {
+        return hit;
+      }
+    }
+
+    const document = await render();
+
+    if (document && redisService.isEnabled()) {
+      await redisService.set(key, document, CACHE_TTL.DAY);
+    }
+
+    return document;
+  }
+
+  /**
+   * Number of sitemap chunks needed for the published content
+   */
+  private async getChunkCount(): Promise<number> {
+    const total = await prisma().post.count({ where: sitemapWhere });
+    return Math.max(1, Math.ceil(total / SITEMAP_MAX_URLS));
+  }
+
+  /**
+   * Render the sitemap index listing every chunk
+   */
+  async getIndex(): Promise<string> {
+    try {
+      const document = await this.cached(CACHE_KEYS.SITEMAP_INDEX, async () => {
+        const chunkCount = await this.getChunkCount();
+        const entries = [];
+
+        for (let chunk = 1; chunk <= chunkCount; chunk++) {
+          const { _max } = await prisma().post.aggregate({
+            where: sitemapWhere,
+            orderBy: { id: 'asc' },
+            skip: (chunk - 1) * SITEMAP_MAX_URLS,
+            take: SITEMAP_MAX_URLS,
+            _max: { post_modified: true },
+          });
+
+          entries.push({
+            loc: `${this.siteUrl}/sitemap-${chunk}.xml`,
+            lastmod: _max.post_modified,
+          });
+        }
+
+        return buildSitemapIndex(entries);
+      });
+
+      return document as string;
+    } catch (error) {
+      logger.error('Error building sitemap index:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Render one chunk of the sitemap (1-based)
+   * Returns null when the chunk is out of range.
+   */
+  async getChunk(chunk: number): Promise<string | null> {
+    try {
+      return await this.cached(CACHE_KEYS.SITEMAP_CHUNK(chunk), async () => {
+        if (chunk < 1 || chunk > (await this.getChunkCount())) {
+          return null;
+        }
+
+        const [posts, pagePaths] = await Promise.all([
+          prisma().post.findMany({
+            where: sitemapWhere,
+            orderBy: { id: 'asc' },
+            skip: (chunk - 1) * SITEMAP_MAX_URLS,
+            take: SITEMAP_MAX_URLS,
+            select: {
+              uuid: true,
+              post_name: true,
+              post_type: true,
+              post_modified: true,
+              locale: true,
+            },
+          }),
+          pageService.getPagePaths(),
+        ]);
+
+        return buildUrlSet(
+          posts.map((post) => ({
+            loc: `${this.siteUrl}/${localizePath(
+              post.post_type === 'page'
+                ? (pagePaths.get(post.uuid) ?? encodeURIComponent(post.post_name))
+                : encodeURIComponent(post.post_name),
+              post.locale
+            )}`,
+            lastmod: post.post_modified,
+          }))
+        );
+      });
+    } catch (error) {
+      logger.error('Error building sitemap chunk:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Drop cached sitemaps after published content changed
+   */
+  async invalidate(): Promise<void> {
+    if (!redisService.isEnabled()) return;
+
+    try {
+      await redisService.delPattern(CACHE_KEYS.SITEMAP_ALL);
+    } catch (error) {
+      logger.warn('Failed to invalidate sitemap cache', { error });
+    }
+  }
+}
+
+export const sitemapService = new SitemapService();
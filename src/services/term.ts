@@ -0,0 +1,594 @@
+import type { Prisma } from '../../generated/prisma/client.js';
+
+import { databaseService } from './database.js';
+import { logger } from './logger.js';
+
+import { HIERARCHICAL_TAXONOMIES } from '@/constants';
+import type { CreateTermDto, Taxonomy, Term, TermQueryParams, UpdateTermDto } from '@/types';
+
+const prisma = () => databaseService.getClient();
+
+type DbClient = Prisma.TransactionClient;
+
+class TermService {
+  /**
+   * Map Prisma TermTaxonomy (with its Term) to domain Term object
+   */
+  private mapPrismaTermToTerm(prismaTerm: {
+    termTaxonomyId: number;
+    taxonomy: string;
+    description: string | null;
+    parent: number;
+    count: number;
+    term: {
+      termId: number;
+      name: string;
+      slug: string;
+    };
+  }): Term {
+    return {
+      id: prismaTerm.term.termId,
+      taxonomyId: prismaTerm.termTaxonomyId,
+      name: prismaTerm.term.name,
+      slug: prismaTerm.term.slug,
+      taxonomy: prismaTerm.taxonomy as Taxonomy,
+      description: prismaTerm.description,
+      parentId: prismaTerm.parent || null,
+      count: prismaTerm.count,
+    };
+  }
+
+  /**
+   * Normalize a name or slug into a URL-safe slug
+   * Accents are dropped ("Café" becomes "cafe"); other non-ASCII letters are not
+   * kept, so the result may be empty.
+   */
+  private slugify(value: string): string {
+    return value
+      .normalize('NFKD')
+      .replaceAll(/\p{M}/gu, '')
+      .toLowerCase()
+      .replaceAll(/[^a-z0-9]+/g, '-')
+      .replaceAll(/(^-|-$)/g, '');
+  }
+
+  /**
+   * Generate a slug that is unique within the taxonomy
+   * Names with nothing to slugify, such as "日本", get one named after the
+   * taxonomy ("category-1").
+   */
+  private async generateSlug(
+    value: string,
+    taxonomy: string,
+    excludeTermId?: number
+  ): Promise<string> {
+    const baseSlug = this.slugify(value) || this.slugify(taxonomy);
+
+    let slug = baseSlug;
+    let counter = 1;
+
+    while (await this.slugExists(slug, taxonomy, excludeTermId)) {
+      slug = `${baseSlug}-${counter++}`;
+    }
+
+    return slug;
+  }
+
+  /**
+   * Check if slug exists within a taxonomy
+   */
+  private async slugExists(
+    slug: string,
+    taxonomy: string,
+    excludeTermId?: number
+  ): Promise<boolean> {
+    try {
+      const count = await prisma().termTaxonomy.count({
+        where: {
+          taxonomy,
+          term: { slug },
+          ...(excludeTermId !== undefined && { termId: { not: excludeTermId } }),
+        },
+      });
+      return count > 0;
+    } catch (error) {
+      logger.error('Error checking term slug existence:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Check if a taxonomy supports parent/child terms
+   */
+  isHierarchical(taxonomy: string): boolean {
+    return HIERARCHICAL_TAXONOMIES.includes(taxonomy);
+  }
+
+  /**
+   * Create a new term in a taxonomy
+   */
+  async createTerm(termData: CreateTermDto): Promise<Term> {
+    try {
+      const slug = await this.generateSlug(termData.slug || termData.name, termData.taxonomy);
+
+      const termTaxonomy = await prisma().termTaxonomy.create({
+        data: {
+          taxonomy: termData.taxonomy,
+          description: termData.description,
+          parent: termData.parentId || 0,
+          term: {
+            create: {
+              name: termData.name,
+              slug,
+            },
+          },
+        },
+        include: { term: true },
+      });
+
+      logger.info('Term created successfully', {
+        termId: termTaxonomy.termId,
+        taxonomy: termTaxonomy.taxonomy,
+      });
+      return this.mapPrismaTermToTerm(termTaxonomy);
+    } catch (error) {
+      logger.error('Error creating term:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Where clause matching a term by ID, optionally only in some taxonomies
+   */
+  private termWhere(id: number, taxonomies?: readonly Taxonomy[]): Prisma.TermTaxonomyWhereInput {
+    return { termId: id, ...(taxonomies && { taxonomy: { in: [...taxonomies] } }) };
+  }
+
+  /**
+   * Get term by ID
+   * With `taxonomies`, terms of other taxonomies are treated as missing.
+   */
+  async getTermById(id: number, taxonomies?: readonly Taxonomy[]): Promise<Term | null> {
+    try {
+      const termTaxonomy = await prisma().termTaxonomy.findFirst({
+        where: this.termWhere(id, taxonomies),
+        include: { term: true },
+      });
+
+      return termTaxonomy ? this.mapPrismaTermToTerm(termTaxonomy) : null;
+    } catch (error) {
+      logger.error('Error fetching term by ID:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Get several terms by ID, in no particular order
+   */
+  async getTermsByIds(ids: number[]): Promise<Term[]> {
+    try {
+      const termTaxonomies = await prisma().termTaxonomy.findMany({
+        where: { termId: { in: ids } },
+        include: { term: true },
+      });
+
+      return termTaxonomies.map((termTaxonomy) => this.mapPrismaTermToTerm(termTaxonomy));
+    } catch (error) {
+      logger.error('Error fetching terms by IDs:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Get term by slug within a taxonomy
+   */
+  async getTermBySlug(slug: string, taxonomy: Taxonomy): Promise<Term | null> {
+    try {
+      const termTaxonomy = await prisma().termTaxonomy.findFirst({
+        where: { taxonomy, term: { slug } },
+        include: { term: true },
+      });
+
+      return termTaxonomy ? this.mapPrismaTermToTerm(termTaxonomy) : null;
+    } catch (error) {
+      logger.error('Error fetching term by slug:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Get terms with filtering and pagination
+   */
+  async getTerms(params: TermQueryParams): Promise<{ terms: Term[]; total: number }> {
+    try {
+      const {
+        page = 1,
+        limit = 10,
+        taxonomy,
+        parentId,
+        search,
+        hideEmpty,
+        orderBy = 'name',
+        order = 'asc',
+      } = params;
+
+      const skip = (page - 1) * limit;
+
+      const where: Prisma.TermTaxonomyWhereInput = {};
+
+      if (taxonomy) {
+        where.taxonomy = taxonomy;
+      }
+
+      if (parentId !== undefined) {
+        where.parent = parentId;
+      }
+
+      if (hideEmpty) {
+        where.count = { gt: 0 };
+      }
+
+      if (search) {
+        where.term = {
+          OR: [{ name: { contains: search } }, { slug: { contains: search } }],
+        };
+      }
+
+      const orderDirection = order === 'desc' ? 'desc' : 'asc';
+      const orderByClause: Prisma.TermTaxonomyOrderByWithRelationInput =
+        orderBy === 'count' ? { count: orderDirection } : { term: { [orderBy]: orderDirection } };
+
+      const [total, terms] = await Promise.all([
+        prisma().termTaxonomy.count({ where }),
+        prisma().termTaxonomy.findMany({
+          where,
+          skip,
+          take: limit,
+          orderBy: orderByClause,
+          include: { term: true },
+        }),
+      ]);
+
+      return { terms: terms.map((term) => this.mapPrismaTermToTerm(term)), total };
+    } catch (error) {
+      logger.error('Error fetching terms:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Update term by ID
+   * With `taxonomies`, terms of other taxonomies are treated as missing.
+   */
+  async updateTerm(
+    id: number,
+    termData: UpdateTermDto,
+    taxonomies?: readonly Taxonomy[]
+  ): Promise<Term | null> {
+    try {
+      const existing = await prisma().termTaxonomy.findFirst({
+        where: this.termWhere(id, taxonomies),
+        include: { term: true },
+      });
+
+      if (!existing) {
+        return null;
+      }
+
+      const termUpdate: Prisma.TermUpdateInput = {};
+
+      if (termData.name !== undefined) {
+        termUpdate.name = termData.name;
+      }
+
+      if (termData.slug !== undefined && this.slugify(termData.slug) !== existing.term.slug) {
+        termUpdate.slug = await this.generateSlug(termData.slug, existing.taxonomy, id);
+      }
+
+      const termTaxonomy = await prisma().termTaxonomy.update({
+        where: { termTaxonomyId: existing.termTaxonomyId },
+        data: {
+          ...(termData.description !== undefined && { description: termData.description }),
+          ...(termData.parentId !== undefined && { parent: termData.parentId || 0 }),
+          ...(Object.keys(termUpdate).length > 0 && { term: { update: termUpdate } }),
+        },
+        include: { term: true },
+      });
+
+      logger.info('Term updated successfully', { termId: id });
+      return this.mapPrismaTermToTerm(termTaxonomy);
+    } catch (error) {
+      logger.error('Error updating term:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Delete term by ID
+   * Children are re-attached to the deleted term's parent, and the term's
+   * relationships are removed along with it. With `taxonomies`, terms of
+   * other taxonomies are treated as missing.
+   */
+  async deleteTerm(id: number, taxonomies?: readonly Taxonomy[]): Promise<boolean> {
+    try {
+      const existing = await prisma().termTaxonomy.findFirst({
+        where: this.termWhere(id, taxonomies),
+        select: { termTaxonomyId: true, taxonomy: true, parent: true },
+      });
+
+      if (!existing) {
+        return false;
+      }
+
+      await prisma().$transaction([
+        prisma().termTaxonomy.updateMany({
+          where: { taxonomy: existing.taxonomy, parent: id },
+          data: { parent: existing.parent },
+        }),
+        prisma().term.delete({
+          where: { termId: id },
+        }),
+      ]);
+
+      logger.info('Term deleted successfully', { termId: id });
+      return true;
+    } catch (error) {
+      logger.error('Error deleting term:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Check if term exists, optionally within a specific taxonomy
+   */
+  async termExists(id: number, taxonomy?: Taxonomy): Promise<boolean> {
+    try {
+      const count = await prisma().termTaxonomy.count({
+        where: {
+          termId: id,
+          ...(taxonomy && { taxonomy }),
+        },
+      });
+      return count > 0;
+    } catch (error) {
+      logger.error('Error checking term existence:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Return the IDs from the list that do not exist in the taxonomy
+   */
+  async findMissingTermIds(ids: number[], taxonomy: Taxonomy): Promise<number[]> {
+    try {
+      const found = await prisma().termTaxonomy.findMany({
+        where: { taxonomy, termId: { in: ids } },
+        select: { termId: true },
+      });
+      const foundIds = found.map((tt) => tt.termId);
+
+      return ids.filter((id) => !foundIds.includes(id));
+    } catch (error) {
+      logger.error('Error checking term existence:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Check whether assigning parentId to termId would create a cycle
+   * (i.e. parentId is termId itself or one of its descendants)
+   */
+  async wouldCreateCycle(termId: number, parentId: number): Promise<boolean> {
+    try {
+      let currentId = parentId;
+      const visited = new Set<number>();
+
+      while (currentId && !visited.has(currentId)) {
+        if (currentId === termId) {
+          return true;
+        }
+
+        visited.add(currentId);
+
+        const parent = await prisma().termTaxonomy.findFirst({
+          where: { termId: currentId },
+          select: { parent: true },
+        });
+
+        currentId = parent?.parent ?? 0;
+      }
+
+      return false;
+    } catch (error) {
+      logger.error('Error checking term hierarchy:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Recalculate the count column for the given term taxonomies
+   */
+  async updateTermCounts(termTaxonomyIds: number[], client: DbClient = prisma()): Promise<void> {
+    try {
+      const uniqueIds = [...new Set(termTaxonomyIds)];
+
+      for (const termTaxonomyId of uniqueIds) {
+        const count = await client.termRelationship.count({
+          where: { term_taxonomy_id: termTaxonomyId },
+        });
+
+        await client.termTaxonomy.update({
+          where: { termTaxonomyId },
+          data: { count },
+        });
+      }
+    } catch (error) {
+      logger.error('Error updating term counts:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Replace the terms of one taxonomy assigned to an object (post)
+   * and keep the affected term counts accurate
+   * Runs in its own transaction unless a transaction client is given.
+   */
+  async setObjectTerms(
+    objectId: number,
+    taxonomy: Taxonomy,
+    termIds: number[],
+    client?: DbClient
+  ): Promise<void> {
+    try {
+      const apply = async (tx: DbClient) => {
+        const termTaxonomies = await tx.termTaxonomy.findMany({
+          where: { taxonomy, termId: { in: termIds } },
+          select: { termTaxonomyId: true },
+        });
+        const existing = await tx.termRelationship.findMany({
+          where: { object_id: objectId, termTaxonomy: { taxonomy } },
+          select: { term_taxonomy_id: true },
+        });
+
+        const nextIds = termTaxonomies.map((tt) => tt.termTaxonomyId);
+        const currentIds = existing.map((rel) => rel.term_taxonomy_id);
+        const toRemove = currentIds.filter((id) => !nextIds.includes(id));
+        const toAdd = nextIds.filter((id) => !currentIds.includes(id));
+
+        if (toRemove.length > 0) {
+          await tx.termRelationship.deleteMany({
+            where: { object_id: objectId, term_taxonomy_id: { in: toRemove } },
+          });
+        }
+
+        if (toAdd.length > 0) {
+          await tx.termRelationship.createMany({
+            data: toAdd.map((termTaxonomyId) => ({
+              object_id: objectId,
+              term_taxonomy_id: termTaxonomyId,
+            })),
+          });
+        }
+
+        await this.updateTermCounts([...toRemove, ...toAdd], tx);
+      };
+
+      await (client ? apply(client) : prisma().$transaction(apply));
+    } catch (error) {
+      logger.error('Error setting object terms:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Remove every term relationship of an object (post) and refresh counts
+   */
+  async removeObjectTerms(objectId: number, client?: DbClient): Promise<void> {
+    try {
+      const apply = async (tx: DbClient) => {
+        const existing = await tx.termRelationship.findMany({
+          where: { object_id: objectId },
+          select: { term_taxonomy_id: true },
+        });
+
+        if (existing.length === 0) {
+          return;
+        }
+
+        await tx.termRelationship.deleteMany({
+          where: { object_id: objectId },
+        });
+
+        await this.updateTermCounts(
+          existing.map((rel) => rel.term_taxonomy_id),
+          tx
+        );
+      };
+
+      await (client ? apply(client) : prisma().$transaction(apply));
+    } catch (error) {
+      logger.error('Error removing object terms:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Get the terms assigned to each of the given objects (posts), keyed by object ID
+   */
+  async getObjectTerms(objectIds: number[]): Promise<Map<number, Term[]>> {
+    const termsByObject = new Map<number, Term[]>();
+
+    if (objectIds.length === 0) {
+      return termsByObject;
+    }
+
+    try {
+      const relationships = await prisma().termRelationship.findMany({
+        where: { object_id: { in: objectIds } },
+        include: { termTaxonomy: { include: { term: true } } },
+        orderBy: { term_order: 'asc' },
+      });
+
+      for (const relationship of relationships) {
+        const terms = termsByObject.get(relationship.object_id) ?? [];
+        terms.push(this.mapPrismaTermToTerm(relationship.termTaxonomy));
+        termsByObject.set(relationship.object_id, terms);
+      }
+
+      return termsByObject;
+    } catch (error) {
+      logger.error('Error fetching object terms:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Get the IDs of objects (posts) assigned to a term, looked up by slug.
+   * For hierarchical taxonomies, objects assigned to descendant terms are
+   * included as well, matching WordPress category archives.
+   */
+  async getObjectIdsByTermSlug(slug: string, taxonomy: Taxonomy): Promise<number[]> {
+    try {
+      const term = await prisma().termTaxonomy.findFirst({
+        where: { taxonomy, term: { slug } },
+        select: { termTaxonomyId: true, termId: true },
+      });
+
+      if (!term) {
+        return [];
+      }
+
+      const termTaxonomyIds = [term.termTaxonomyId];
+
+      if (this.isHierarchical(taxonomy)) {
+        const all = await prisma().termTaxonomy.findMany({
+          where: { taxonomy },
+          select: { termTaxonomyId: true, termId: true, parent: true },
+        });
+
+        const parentIds = [term.termId];
+        while (parentIds.length > 0) {
+          const parentId = parentIds.shift();
+          for (const child of all.filter((tt) => tt.parent === parentId)) {
+            if (!termTaxonomyIds.includes(child.termTaxonomyId)) {
+              termTaxonomyIds.push(child.termTaxonomyId);
+              parentIds.push(child.termId);
+            }
+          }
+        }
+      }
+
+      const relationships = await prisma().termRelationship.findMany({
+        where: { term_taxonomy_id: { in: termTaxonomyIds } },
+        select: { object_id: true },
+      });
+
+      return [...new Set(relationships.map((rel) => rel.object_id))];
+    } catch (error) {
+      logger.error('Error fetching objects by term slug:', error);
+      throw error;
+    }
+  }
+}
+
+export const termService = new TermService();
@@ -0,0 +1,87 @@
+import { config } from '../../config/index.js';
+
+import { databaseService } from './database.js';
+import { logger } from './logger.js';
+import { postService } from './post.js';
+
+const prisma = () => databaseService.getClient();
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Posts deleted per query, so a large backlog is purged over several passes
+const PURGE_BATCH_SIZE = 100;
+
+/**
+ * Deletes posts for good once they have been in the trash for longer than
+ * config.trash.retentionDays
+ */
+class TrashPurgeService {
+  private timer: ReturnType<typeof setInterval> | null = null;
+  private isRunning: boolean = false;
+
+  start(): void {
+    if (this.timer) return;
+
+    this.timer = setInterval(() => {
+      void this.purgeExpired();
+    }, config.trash.purgeIntervalMs);
+
+    logger.info('Trash purge started', {
+      retentionDays: config.trash.retentionDays,
+      intervalMs: config.trash.purgeIntervalMs,
+    });
+  }
+
+  stop(): void {
+    if (!this.timer) return;
+
+    clearInterval(this.timer);
+    this.timer = null;
+
+    logger.info('Trash purge stopped');
+  }
+
+  /**
+   * Permanently delete every post trashed before the retention period
+   * Returns the number of posts deleted.
+   */
+  async purgeExpired(now: Date = new Date()): Promise<number> {
+    // Skip the tick if the previous one is still running
+    if (this.isRunning) return 0;
+    this.isRunning = true;
+
+    try {
+      const cutoff = new Date(now.getTime() - config.trash.retentionDays * DAY_MS);
+      let purged = 0;
+      let expired: { id: number }[];
+
+      do {
+        expired = await prisma().post.findMany({
+          where: { post_status: 'trash', trashed_at: { lte: cutoff } },
+          select: { id: true },
+          orderBy: { trashed_at: 'asc' },
+          take: PURGE_BATCH_SIZE,
+        });
+
+        for (const post of expired) {
+          if (await postService.deletePost(post.id)) {
+            purged++;
+          }
+        }
+      } while (expired.length === PURGE_BATCH_SIZE);
+
+      if (purged > 0) {
+        logger.info('Expired trash purged', { count: purged });
+      }
+
+      return purged;
+    } catch (error) {
+      logger.error('Error purging trash:', error);
+      return 0;
+    } finally {
+      this.isRunning = false;
+    }
+  }
+}
+
+export const trashPurgeService = new TrashPurgeService();
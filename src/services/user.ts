@@ -3,7 +3,14 @@ import bcrypt from 'bcrypt';
 import { databaseService } from './database.js';
 import { logger } from './logger.js';
 
-import type { CreateUserDto, UpdateUserDto, User } from '@/types';
+import type {
+  CreateUserDto,
+  CursorPage,
+  CursorPaginationParams,
+  UpdateUserDto,
+  User,
+} from '@/types';
+import { buildKeysetArgs, decodeCursor, toCursorPage } from '@/utils/cursor';
 
 const prisma = () => databaseService.getClient();
 
@@ -130,6 +137,41 @@ class UserService {
     }
   }
 
+  /**
+   * Get a page of users after or before a cursor, newest first
+   * The total is only counted when asked for. Returns null when the cursor
+   * was issued for another listing.
+   */
+  async getUsersByCursor(params: CursorPaginationParams): Promise<CursorPage<User> | null> {
+    try {
+      const { cursor, limit, includeTotal } = params;
+      const sort = 'created_at:desc';
+      const position = cursor ? decodeCursor(cursor, sort) : undefined;
+
+      if (position === null) {
+        return null;
+      }
+
+      const [users, total] = await Promise.all([
+        prisma().user.findMany(
+          buildKeysetArgs({ field: 'created_at', order: 'desc', limit }, position)
+        ),
+        includeTotal ? prisma().user.count() : undefined,
+      ]);
+
+      const page = toCursorPage(users, { field: 'created_at', sort, limit }, position);
+
+      return {
+        ...page,
+        items: page.items.map((user) => this.mapPrismaUserToUser(user)),
+        ...(total !== undefined && { total }),
+      };
+    } catch (error) {
+      logger.error('Error fetching users by cursor:', error);
+      throw error;
+    }
+  }
+
   /**
    * Update user
    */
@@ -0,0 +1,369 @@
+import { config } from '../../config/index.js';
+
+import { databaseService } from './database.js';
+import { logger } from './logger.js';
+import { postMetaService } from './post-meta.js';
+import { postPasswordService } from './post-password.js';
+import { postService } from './post.js';
+import { sitemapService } from './sitemap.js';
+import { termService } from './term.js';
+
+import type { WxrImportReport } from '@/types';
+import { localizePath } from '@/utils/permalink';
+import type { WxrAuthor, WxrDocument, WxrItem, WxrTerm } from '@/utils/wxr';
+
+const prisma = () => databaseService.getClient();
+
+const IMPORTABLE_TYPES = ['post', 'page'];
+const IMPORTABLE_STATUSES = ['publish', 'draft', 'private', 'pending', 'future'];
+
+// Post meta recording the <guid> of the item a post was imported from
+const WXR_GUID_META_KEY = '_wxr_guid';
+
+export interface WxrImportOptions {
+  /** Report what would change without writing anything */
+  dryRun: boolean;
+  /** Author of items whose creator is not listed in the export */
+  defaultAuthorId: string;
+}
+
+function termKey(term: Pick<WxrTerm, 'taxonomy' | 'slug'>): string {
+  return `${term.taxonomy}:${term.slug}`;
+}
+
+function slugify(value: string): string {
+  return value
+    .toLowerCase()
+    .replaceAll(/[^a-z0-9]+/g, '-')
+    .replaceAll(/(^-|-$)/g, '');
+}
+
+/**
+ * Imports WordPress eXtended RSS (WXR) exports
+ *
+ * Users are matched by username or email, terms by taxonomy and slug and
+ * posts by the <guid> of the item they were imported from, so importing the
+ * same export twice only creates what is missing. Posts whose slug is taken get
+ * a numbered one instead of being merged. In a dry run the same matching
+ * happens, but nothing is written and the report lists what would be created.
+ */
+class WxrImportService {
+  /**
+   * Create missing authors, returning user IDs keyed by login
+   * Imported users get no password and have to reset it before signing in.
+   */
+  private async importUsers(
+    authors: WxrAuthor[],
+    report: WxrImportReport
+  ): Promise<Map<string, string>> {
+    const userIds = new Map<string, string>();
+
+    for (const author of authors) {
+      if (!author.login || !author.email) {
+        report.skipped.push({ item: `user:${author.login}`, reason: 'Missing login or email' });
+        continue;
+      }
+
+      const existing = await prisma().user.findFirst({
+        where: { OR: [{ username: author.login }, { email: author.email }] },
+        select: { id: true },
+      });
+
+      if (existing) {
+        userIds.set(author.login, existing.id);
+        report.users.existing.push(author.login);
+        continue;
+      }
+
+      report.users.created.push(author.login);
+
+      if (!report.dryRun) {
+        const user = await prisma().user.create({
+          data: { username: author.login, email: author.email },
+        });
+        userIds.set(author.login, user.id);
+      }
+    }
+
+    return userIds;
+  }
+
+  /**
+   * Create missing categories and tags, returning term taxonomy IDs keyed by "taxonomy:slug"
+   */
+  private async importTerms(
+    terms: WxrTerm[],
+    report: WxrImportReport
+  ): Promise<Map<string, number>> {
+    const termTaxonomyIds = new Map<string, number>();
+    const termIds = new Map<string, number>();
+    const created: WxrTerm[] = [];
+
+    for (const term of terms) {
+      const key = termKey(term);
+      if (termTaxonomyIds.has(key) || report.terms.created.includes(key)) continue;
+
+      const existing = await prisma().termTaxonomy.findFirst({
+        where: { taxonomy: term.taxonomy, term: { slug: term.slug } },
+        select: { termTaxonomyId: true, termId: true },
+      });
+
+      if (existing) {
+        termTaxonomyIds.set(key, existing.termTaxonomyId);
+        termIds.set(key, existing.termId);
+        report.terms.existing.push(key);
+        continue;
+      }
+
+      report.terms.created.push(key);
+      created.push(term);
+
+      if (!report.dryRun) {
+        const termTaxonomy = await prisma().termTaxonomy.create({
+          data: {
+            taxonomy: term.taxonomy,
+            description: term.description,
+            term: { create: { name: term.name || term.slug, slug: term.slug } },
+          },
+        });
+        termTaxonomyIds.set(key, termTaxonomy.termTaxonomyId);
+        termIds.set(key, termTaxonomy.termId);
+      }
+    }
+
+    // Parents are linked once every category exists, whatever the export order
+    for (const term of created) {
+      if (!term.parentSlug || report.dryRun) continue;
+
+      const parentId = termIds.get(termKey({ taxonomy: term.taxonomy, slug: term.parentSlug }));
+
+      if (!parentId) {
+        report.skipped.push({
+          item: `${termKey(term)} parent`,
+          reason: `Parent '${term.parentSlug}' not found`,
+        });
+        continue;
+      }
+
+      await prisma().termTaxonomy.update({
+        where: { termTaxonomyId: termTaxonomyIds.get(termKey(term)) },
+        data: { parent: parentId },
+      });
+    }
+
+    return termTaxonomyIds;
+  }
+
+  /**
+   * Reason an item cannot be imported, or null when it can
+   */
+  private getSkipReason(item: WxrItem): string | null {
+    if (!IMPORTABLE_TYPES.includes(item.type)) {
+      return `Unsupported post type '${item.type}'`;
+    }
+
+    if (!IMPORTABLE_STATUSES.includes(item.status)) {
+      return `Unsupported status '${item.status}'`;
+    }
+
+    if (item.locale && !config.locales.supported.includes(item.locale)) {
+      return `Unsupported locale '${item.locale}'`;
+    }
+
+    return null;
+  }
+
+  /**
+   * The post an earlier import created from the item with this guid
+   */
+  private async findImportedPost(guid: string): Promise<{ uuid: string } | null> {
+    const entry = await prisma().postMeta.findFirst({
+      where: { meta_key: WXR_GUID_META_KEY, meta_value: guid },
+      select: { post_id: true },
+    });
+
+    return entry
+      ? prisma().post.findUnique({ where: { id: entry.post_id }, select: { uuid: true } })
+      : null;
+  }
+
+  /**
+   * A slug no post of the locale uses, counting the ones this import has
+   * already handed out so dry runs report the slugs a real run would use
+   */
+  private async getUniqueSlug(
+    baseSlug: string,
+    locale: string,
+    reserved: Set<string>
+  ): Promise<string> {
+    let slug = baseSlug;
+    let counter = 1;
+
+    while (reserved.has(`${locale}:${slug}`) || (await postService.slugExists(slug, locale))) {
+      slug = `${baseSlug}-${counter++}`;
+    }
+
+    reserved.add(`${locale}:${slug}`);
+    return slug;
+  }
+
+  /**
+   * Create missing posts and pages with their terms and parents
+   */
+  private async importPosts(
+    items: WxrItem[],
+    userIds: Map<string, string>,
+    termTaxonomyIds: Map<string, number>,
+    options: WxrImportOptions,
+    report: WxrImportReport
+  ): Promise<void> {
+    // Post UUIDs keyed by WordPress post ID, used to resolve page parents
+    const uuids = new Map<number, string>();
+    const children: { id: number; item: WxrItem }[] = [];
+    const touchedTermTaxonomyIds: number[] = [];
+    const seenGuids = new Set<string>();
+    const reservedSlugs = new Set<string>();
+
+    for (const item of items) {
+      const baseSlug = item.slug || slugify(item.title) || `${item.type}-${item.wpId}`;
+      const locale = item.locale ?? config.locales.default;
+      const label = `${item.type}:${localizePath(baseSlug, locale)}`;
+
+      const skipReason = this.getSkipReason(item);
+      if (skipReason) {
+        report.skipped.push({ item: label, reason: skipReason });
+        continue;
+      }
+
+      if (item.guid) {
+        if (seenGuids.has(item.guid)) {
+          report.skipped.push({ item: label, reason: `Duplicate guid '${item.guid}'` });
+          continue;
+        }
+        seenGuids.add(item.guid);
+      }
+
+      const existing = item.guid ? await this.findImportedPost(item.guid) : null;
+
+      if (existing) {
+        uuids.set(item.wpId, existing.uuid);
+        report.posts.existing.push(label);
+        continue;
+      }
+
+      const slug = await this.getUniqueSlug(baseSlug, locale, reservedSlugs);
+      report.posts.created.push(`${item.type}:${localizePath(slug, locale)}`);
+
+      if (options.dryRun) continue;
+
+      const post = await prisma().post.create({
+        data: {
+          post_title: item.title,
+          post_content: item.content,
+          post_excerpt: item.excerpt,
+          post_status: item.status,
+          post_type: item.type,
+          post_author: userIds.get(item.author) ?? options.defaultAuthorId,
+          post_name: slug,
+          locale,
+          translation_group: item.translationGroup,
+          post_password: item.password ? await postPasswordService.hashPassword(item.password) : '',
+          comment_status: item.commentStatus,
+          ping_status: item.pingStatus,
+          menu_order: item.menuOrder,
+          post_date: item.publishedAt,
+          post_date_gmt: item.publishedAt,
+        },
+      });
+
+      uuids.set(item.wpId, post.uuid);
+
+      if (item.guid) {
+        await postMetaService.setMeta(post.id, WXR_GUID_META_KEY, item.guid);
+      }
+
+      if (item.parentWpId) {
+        children.push({ id: post.id, item });
+      }
+
+      const ids = item.terms
+        .map((term) => termTaxonomyIds.get(termKey(term)))
+        .filter((id): id is number => id !== undefined);
+
+      if (ids.length > 0) {
+        await prisma().termRelationship.createMany({
+          data: ids.map((termTaxonomyId) => ({
+            object_id: post.id,
+            term_taxonomy_id: termTaxonomyId,
+          })),
+          skipDuplicates: true,
+        });
+        touchedTermTaxonomyIds.push(...ids);
+      }
+    }
+
+    // Parents may appear after their children in the export
+    for (const { id, item } of children) {
+      const parentUuid = uuids.get(item.parentWpId);
+
+      if (!parentUuid) {
+        report.skipped.push({
+          item: `${item.type}:${item.slug} parent`,
+          reason: `Parent post ${item.parentWpId} not found`,
+        });
+        continue;
+      }
+
+      await prisma().post.update({
+        where: { id },
+        data: { post_parent: parentUuid },
+      });
+    }
+
+    if (touchedTermTaxonomyIds.length > 0) {
+      await termService.updateTermCounts(touchedTermTaxonomyIds);
+    }
+  }
+
+  /**
+   * Import a parsed WXR document
+   */
+  async importDocument(document: WxrDocument, options: WxrImportOptions): Promise<WxrImportReport> {
+    const report: WxrImportReport = {
+      dryRun: options.dryRun,
+      users: { created: [], existing: [] },
+      terms: { created: [], existing: [] },
+      posts: { created: [], existing: [] },
+      skipped: [],
+    };
+
+    try {
+      const userIds = await this.importUsers(document.authors, report);
+      const termTaxonomyIds = await this.importTerms(
+        [...document.terms, ...document.items.flatMap((item) => item.terms)],
+        report
+      );
+
+      await this.importPosts(document.items, userIds, termTaxonomyIds, options, report);
+
+      if (!options.dryRun && report.posts.created.length > 0) {
+        await sitemapService.invalidate();
+      }
+
+      logger.info('WXR import finished', {
+        dryRun: options.dryRun,
+        users: report.users.created.length,
+        terms: report.terms.created.length,
+        posts: report.posts.created.length,
+        skipped: report.skipped.length,
+      });
+
+      return report;
+    } catch (error) {
+      logger.error('Error importing WXR document:', error);
+      throw error;
+    }
+  }
+}
+
+export const wxrImportService = new WxrImportService();
@@ -1,4 +1,4 @@
-import type { HTTP_STATUS, USER_ROLES, PERMISSIONS } from '@/constants';
+import type { HTTP_STATUS, USER_ROLES, PERMISSIONS, TAXONOMIES } from '@/constants';
 
 // HTTP Status type
 export type HttpStatus = (typeof HTTP_STATUS)[keyof typeof HTTP_STATUS];
@@ -9,6 +9,9 @@ export type UserRole = (typeof USER_ROLES)[keyof typeof USER_ROLES];
 // Permission types
 export type Permission = (typeof PERMISSIONS)[keyof typeof PERMISSIONS];
 
+// Taxonomy types
+export type Taxonomy = (typeof TAXONOMIES)[keyof typeof TAXONOMIES];
+
 // API Response types
 export interface ApiResponse<T = unknown> {
   success: boolean;
@@ -26,7 +29,7 @@ export interface ApiError {
 export interface ResponseMeta {
   timestamp: string;
   requestId?: string;
-  pagination?: PaginationMeta;
+  pagination?: PaginationMeta | CursorPaginationMeta;
 }
 
 export interface PaginationMeta {
@@ -41,6 +44,29 @@ export interface PaginationParams {
   limit: number;
 }
 
+// Cursor (keyset) pagination: pages are addressed by the row they start after
+export interface CursorPaginationMeta {
+  limit: number;
+  nextCursor: string | null;
+  prevCursor: string | null;
+  total?: number;
+}
+
+export interface CursorPaginationParams {
+  /** Opaque cursor from a previous page; empty for the first page */
+  cursor: string;
+  limit: number;
+  /** Count matching rows, which the cursor mode skips by default */
+  includeTotal?: boolean;
+}
+
+export interface CursorPage<T> {
+  items: T[];
+  nextCursor: string | null;
+  prevCursor: string | null;
+  total?: number;
+}
+
 // User types
 export interface User {
   id: string;
@@ -188,11 +214,30 @@ export interface UpdateVaultEntryDto {
 }
 
 // Post types (WordPress-style)
-export type PostStatus = 'publish' | 'draft' | 'private' | 'pending' | 'future';
-export type PostType = 'post' | 'page' | 'attachment';
+export type PostStatus = 'publish' | 'draft' | 'private' | 'pending' | 'future' | 'trash';
+export type BuiltInPostType = 'post' | 'page' | 'attachment';
+// Custom post types are declared in config/post-types.ts
+export type PostType = BuiltInPostType | (string & {});
 export type CommentStatus = 'open' | 'closed';
 export type PingStatus = 'open' | 'closed';
 
+/**
+ * A post type as declared in the post type registry
+ */
+export interface PostTypeDefinition {
+  /** Value stored in post_type: lowercase letters, digits, '-' and '_' */
+  name: string;
+  label: string;
+  /** Statuses posts of the type may take; any of them can still be trashed */
+  statuses: Exclude<PostStatus, 'trash'>[];
+  /** Meta keys every post of the type must carry, set when it is created */
+  requiredMeta: string[];
+  /** Prefix of the permissions guarding the type, e.g. "event" for "event:create" */
+  permissionPrefix: string;
+  /** Posts can be nested under posts of the same type */
+  hierarchical: boolean;
+}
+
 export interface Post {
   id: number;
   uuid: string;
@@ -203,15 +248,67 @@ export interface Post {
   type: PostType;
   authorId: string;
   slug: string;
+  locale: string;
+  /** Shared by a post and its translations; null until the post is translated */
+  translationGroup: string | null;
   commentStatus: CommentStatus;
   pingStatus: PingStatus;
   featuredMedia: string | null;
   parentId: string | null;
   menuOrder: number;
   commentCount: number;
+  viewCount: number;
+  isProtected: boolean;
+  categories: Term[];
+  tags: Term[];
   publishedAt: Date | null;
+  trashedAt: Date | null;
   createdAt: Date;
   updatedAt: Date;
+  snippet?: string;
+  meta?: PostMetaMap;
+  lock?: PostEditLock | null;
+  translations?: PostTranslation[];
+}
+
+/**
+ * Another language version of a post
+ */
+export interface PostTranslation {
+  id: number;
+  uuid: string;
+  locale: string;
+  title: string;
+  slug: string;
+  status: PostStatus;
+}
+
+/**
+ * What readers see of a password-protected post until they unlock it
+ */
+export type ProtectedPostPreview = Pick<
+  Post,
+  | 'id'
+  | 'uuid'
+  | 'title'
+  | 'excerpt'
+  | 'status'
+  | 'type'
+  | 'authorId'
+  | 'slug'
+  | 'locale'
+  | 'isProtected'
+  | 'publishedAt'
+  | 'translations'
+>;
+
+/**
+ * The caller reading a post
+ */
+export interface PostViewer {
+  userId?: string;
+  permissions: readonly string[];
+  unlockToken?: string;
 }
 
 export interface CreatePostDto {
@@ -222,12 +319,19 @@ export interface CreatePostDto {
   type?: PostType;
   authorId: string;
   slug?: string;
+  locale?: string;
+  /** ID of a post this one translates; the two join the same translation group */
+  translationOf?: number;
   commentStatus?: CommentStatus;
   pingStatus?: PingStatus;
   featuredMedia?: string | null;
   parentId?: string | null;
   menuOrder?: number;
   publishedAt?: Date | null;
+  password?: string | null;
+  categories?: number[];
+  tags?: number[];
+  meta?: PostMetaMap;
 }
 
 export interface UpdatePostDto {
@@ -237,12 +341,18 @@ export interface UpdatePostDto {
   status?: PostStatus;
   type?: PostType;
   slug?: string;
+  locale?: string;
+  /** Join the translation group of another post, or leave the group with null */
+  translationOf?: number | null;
   commentStatus?: CommentStatus;
   pingStatus?: PingStatus;
   featuredMedia?: string | null;
   parentId?: string | null;
   menuOrder?: number;
   publishedAt?: Date | null;
+  password?: string | null;
+  categories?: number[];
+  tags?: number[];
 }
 
 export interface PostQueryParams {
@@ -251,7 +361,313 @@ export interface PostQueryParams {
   status?: PostStatus;
   type?: PostType;
   authorId?: string;
+  locale?: string;
   search?: string;
-  orderBy?: 'date' | 'title' | 'modified' | 'comment_count';
+  category?: string;
+  tag?: string;
+  metaKey?: string;
+  metaValue?: string;
+  meta?: string[];
+  orderBy?: 'date' | 'title' | 'modified' | 'views' | 'comment_count' | 'relevance';
   order?: 'asc' | 'desc';
 }
+
+// Popular posts
+export type PopularPostPeriod = '1d' | '7d' | '30d' | 'all';
+
+/**
+ * A post ranked by its views over a period
+ */
+export type PopularPost = Post & { periodViews: number };
+
+// Bulk post operations
+export type BulkPostAction =
+  | { action: 'publish' }
+  | { action: 'unpublish' }
+  | { action: 'set_categories'; categories: number[] }
+  | { action: 'set_author'; authorId: string }
+  | { action: 'trash' };
+
+export interface BulkPostResult {
+  id: number;
+  success: boolean;
+  post?: Post;
+  error?: {
+    code: string;
+    message: string;
+  };
+}
+
+// Post meta types (custom fields)
+export type PostMetaType = 'string' | 'number' | 'boolean' | 'json';
+
+export type PostMetaValue =
+  | string
+  | number
+  | boolean
+  | null
+  | PostMetaValue[]
+  | { [key: string]: PostMetaValue };
+
+export type PostMetaMap = Record<string, PostMetaValue>;
+
+export interface PostMeta {
+  key: string;
+  value: PostMetaValue;
+  type: PostMetaType;
+  updatedAt: Date;
+}
+
+// Term types (WordPress-style taxonomy)
+export interface Term {
+  id: number;
+  taxonomyId: number;
+  name: string;
+  slug: string;
+  taxonomy: Taxonomy;
+  description: string | null;
+  parentId: number | null;
+  count: number;
+}
+
+export interface CreateTermDto {
+  name: string;
+  taxonomy: Taxonomy;
+  slug?: string;
+  description?: string | null;
+  parentId?: number | null;
+}
+
+export interface UpdateTermDto {
+  name?: string;
+  slug?: string;
+  description?: string | null;
+  parentId?: number | null;
+}
+
+export interface TermQueryParams {
+  page?: number;
+  limit?: number;
+  taxonomy?: Taxonomy;
+  parentId?: number;
+  search?: string;
+  hideEmpty?: boolean;
+  orderBy?: 'name' | 'slug' | 'count';
+  order?: 'asc' | 'desc';
+}
+
+// Comment types (WordPress-style)
+export type CommentModerationStatus = 'pending' | 'approved' | 'spam' | 'trash';
+
+export interface Comment {
+  id: number;
+  postId: number;
+  parentId: number | null;
+  authorId: string | null;
+  authorName: string;
+  authorEmail: string;
+  authorUrl: string | null;
+  content: string;
+  status: CommentModerationStatus;
+  createdAt: Date;
+  updatedAt: Date;
+  replies?: Comment[];
+}
+
+// Comment as shown to readers; the commenter's email stays with moderators
+export type PublicComment = Omit<Comment, 'authorEmail' | 'replies'> & {
+  replies?: PublicComment[];
+};
+
+export interface CreateCommentDto {
+  postId: number;
+  content: string;
+  parentId?: number | null;
+  authorId?: string | null;
+  authorName: string;
+  authorEmail: string;
+  authorUrl?: string | null;
+  authorIp?: string | null;
+  userAgent?: string | null;
+  status?: CommentModerationStatus;
+}
+
+export interface CommentQueryParams {
+  page?: number;
+  limit?: number;
+  postId?: number;
+  status?: CommentModerationStatus;
+  order?: 'asc' | 'desc';
+}
+
+// Revision types
+export interface PostRevision {
+  id: number;
+  postId: number;
+  title: string;
+  content: string;
+  excerpt: string | null;
+  revisedBy: string | null;
+  createdAt: Date;
+}
+
+/**
+ * Edit lock of a post: its holder is the only one who may save changes
+ * until the lock expires or someone takes it over
+ */
+export interface PostEditLock {
+  postId: number;
+  userId: string;
+  acquiredAt: Date;
+  expiresAt: Date;
+}
+
+// Draft preview links
+export interface PostPreviewLink {
+  id: string;
+  postId: number;
+  revisionId: number;
+  createdBy: string;
+  expiresAt: Date;
+  revokedAt: Date | null;
+  createdAt: Date;
+}
+
+/**
+ * A post as captured for a preview link, served to anyone holding the link
+ */
+export type PostPreview = Post & {
+  preview: {
+    revisionId: number;
+    expiresAt: Date;
+  };
+};
+
+export interface DiffLine {
+  type: 'equal' | 'added' | 'removed';
+  value: string;
+}
+
+export interface RevisionFieldDiff {
+  changed: boolean;
+  from: string | null;
+  to: string | null;
+  lines?: DiffLine[];
+}
+
+export interface RevisionDiff {
+  from: number | 'current';
+  to: number | 'current';
+  fields: {
+    title: RevisionFieldDiff;
+    content: RevisionFieldDiff;
+    excerpt: RevisionFieldDiff;
+  };
+}
+
+// Editorial workflow types
+export interface PostTransition {
+  id: number;
+  postId: number;
+  fromStatus: PostStatus;
+  toStatus: PostStatus;
+  actorId: string | null;
+  note: string | null;
+  createdAt: Date;
+}
+
+// Page hierarchy types
+export interface PageSummary {
+  id: number;
+  uuid: string;
+  title: string;
+  slug: string;
+  status: PostStatus;
+  parentId: string | null;
+  menuOrder: number;
+}
+
+export interface PageTreeNode extends PageSummary {
+  children: PageTreeNode[];
+}
+
+export interface PageOrderItem {
+  id: number;
+  menuOrder: number;
+}
+
+// Navigation menus: nav_menu terms grouping nav_menu_item posts
+export type NavMenuItemType = 'post' | 'page' | 'term' | 'custom';
+
+export interface NavMenuItem {
+  id: number;
+  menuId: number;
+  /** Label; when empty, menu trees show the title of what the item points to */
+  title: string;
+  type: NavMenuItemType;
+  /** Post, page or term the item points to; null for custom links */
+  objectId: number | null;
+  /** Address of a custom link; null for other items */
+  url: string | null;
+  parentId: number | null;
+  menuOrder: number;
+}
+
+export interface CreateNavMenuItemDto {
+  type: NavMenuItemType;
+  objectId?: number;
+  url?: string;
+  title?: string;
+  parentId?: number | null;
+  menuOrder?: number;
+}
+
+export type UpdateNavMenuItemDto = Partial<Omit<CreateNavMenuItemDto, 'type'>>;
+
+export interface NavMenuItemOrder {
+  id: number;
+  parentId: number | null;
+  menuOrder: number;
+}
+
+/**
+ * A menu item resolved for display: its title and URL filled in from what it
+ * points to
+ */
+export interface NavMenuItemNode extends NavMenuItem {
+  url: string;
+  children: NavMenuItemNode[];
+}
+
+export interface NavMenuTree extends Term {
+  items: NavMenuItemNode[];
+}
+
+// Import types
+export interface ImportSection {
+  created: string[];
+  existing: string[];
+}
+
+export interface ImportSkippedItem {
+  item: string;
+  reason: string;
+}
+
+export interface WxrImportReport {
+  dryRun: boolean;
+  users: ImportSection;
+  terms: ImportSection;
+  posts: ImportSection;
+  skipped: ImportSkippedItem[];
+}
+
+// Export types
+export type ExportFormat = 'wxr' | 'json';
+
+export interface ExportFilters {
+  from?: Date;
+  to?: Date;
+  authorId?: string;
+  status?: PostStatus;
+}
@@ -0,0 +1,158 @@
+import type { CursorPage } from '@/types';
+
+export type CursorValue = string | number | Date | null;
+
+/**
+ * Decoded cursor: the row a page starts after, in the sort it was issued for
+ */
+export interface CursorPosition {
+  /** Sort the cursor belongs to, e.g. "post_date:desc" */
+  sort: string;
+  /** Sort column value of the boundary row */
+  value: CursorValue;
+  /** ID of the boundary row, which breaks ties between equal values */
+  id: string | number;
+  /** Whether the page follows the boundary row or precedes it */
+  direction: 'next' | 'prev';
+}
+
+/**
+ * Keyset query arguments: spread into a Prisma findMany call
+ */
+export interface KeysetArgs {
+  where?: Record<string, unknown>;
+  orderBy: Record<string, 'asc' | 'desc'>[];
+  take: number;
+}
+
+interface KeysetOptions {
+  field: string;
+  order: 'asc' | 'desc';
+  limit: number;
+  /** The column can hold NULL, which MySQL sorts before any value */
+  nullable?: boolean;
+}
+
+/**
+ * Encode a cursor as an opaque URL-safe string
+ */
+export function encodeCursor(position: CursorPosition): string {
+  const { sort, value, id, direction } = position;
+  const payload = {
+    s: sort,
+    v: value instanceof Date ? value.toISOString() : value,
+    i: id,
+    ...(value instanceof Date && { d: 1 }),
+    ...(direction === 'prev' && { p: 1 }),
+  };
+
+  return Buffer.from(JSON.stringify(payload)).toString('base64url');
+}
+
+/**
+ * Decode a cursor issued for `sort`
+ * Returns null when the cursor is malformed or belongs to another sort.
+ */
+export function decodeCursor(cursor: string, sort: string): CursorPosition | null {
+  try {
+    const payload = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8')) as Record<
+      string,
+      unknown
+    >;
+    const { s, v, i, d, p } = payload;
+
+    if (s !== sort || (typeof i !== 'string' && typeof i !== 'number')) {
+      return null;
+    }
+
+    if (v !== null && typeof v !== 'string' && typeof v !== 'number') {
+      return null;
+    }
+
+    const value = d && typeof v === 'string' ? new Date(v) : v;
+
+    if (value instanceof Date && isNaN(value.getTime())) {
+      return null;
+    }
+
+    return { sort, value, id: i, direction: p ? 'prev' : 'next' };
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Condition matching the rows that come after (value, id) in the given order
+ */
+function getAfterCondition(
+  field: string,
+  order: 'asc' | 'desc',
+  value: CursorValue,
+  id: string | number,
+  nullable: boolean
+): Record<string, unknown> {
+  const op = order === 'asc' ? 'gt' : 'lt';
+
+  if (value === null) {
+    // NULLs sort first: ascending, every value follows them; descending, nothing does
+    return order === 'asc'
+      ? { OR: [{ [field]: { not: null } }, { [field]: null, id: { gt: id } }] }
+      : { [field]: null, id: { lt: id } };
+  }
+
+  return {
+    OR: [
+      { [field]: { [op]: value } },
+      ...(nullable && order === 'desc' ? [{ [field]: null }] : []),
+      { [field]: value, id: { [op]: id } },
+    ],
+  };
+}
+
+/**
+ * Build the findMany arguments of a keyset page
+ * One row more than the limit is fetched to tell whether another page follows.
+ * Previous pages are read in reverse order; toCursorPage() puts them back.
+ */
+export function buildKeysetArgs(options: KeysetOptions, position?: CursorPosition): KeysetArgs {
+  const { field, limit, nullable = false } = options;
+  const reversed = position?.direction === 'prev';
+  const order = reversed ? (options.order === 'asc' ? 'desc' : 'asc') : options.order;
+
+  return {
+    ...(position && {
+      where: getAfterCondition(field, order, position.value, position.id, nullable),
+    }),
+    orderBy: [{ [field]: order }, { id: order }],
+    take: limit + 1,
+  };
+}
+
+/**
+ * Trim the rows of a keyset query to a page and issue its cursors
+ */
+export function toCursorPage<T extends { id: string | number }>(
+  rows: T[],
+  options: { field: keyof T & string; sort: string; limit: number },
+  position?: CursorPosition
+): CursorPage<T> {
+  const { field, sort, limit } = options;
+  const hasMore = rows.length > limit;
+  const reversed = position?.direction === 'prev';
+  const items = rows.slice(0, limit);
+
+  if (reversed) {
+    items.reverse();
+  }
+
+  const cursorFor = (row: T | undefined, direction: CursorPosition['direction']) =>
+    row ? encodeCursor({ sort, value: row[field] as CursorValue, id: row.id, direction }) : null;
+
+  // Going forward there is a previous page whenever we came from a cursor,
+  // and going back there is always a next page
+  return {
+    items,
+    nextCursor: hasMore || reversed ? cursorFor(items[items.length - 1], 'next') : null,
+    prevCursor: position && (hasMore || !reversed) ? cursorFor(items[0], 'prev') : null,
+  };
+}
@@ -0,0 +1,151 @@
+import type { DiffLine, RevisionFieldDiff } from '@/types';
+
+/**
+ * Lengths of the longest common subsequences of a[aStart..aEnd) and every
+ * prefix of b[bStart..bEnd), or every suffix when `reverse` is set
+ * Only two rows are kept, so memory grows with the length of b alone.
+ */
+function lcsLengths(
+  a: string[],
+  aStart: number,
+  aEnd: number,
+  b: string[],
+  bStart: number,
+  bEnd: number,
+  reverse: boolean
+): Uint32Array {
+  const width = bEnd - bStart;
+  let previous = new Uint32Array(width + 1);
+  let current = new Uint32Array(width + 1);
+
+  for (let i = 0; i < aEnd - aStart; i++) {
+    const line = a[reverse ? aEnd - 1 - i : aStart + i];
+
+    for (let j = 0; j < width; j++) {
+      current[j + 1] =
+        line === b[reverse ? bEnd - 1 - j : bStart + j]
+          ? (previous[j] ?? 0) + 1
+          : Math.max(previous[j + 1] ?? 0, current[j] ?? 0);
+    }
+
+    [previous, current] = [current, previous];
+  }
+
+  return previous;
+}
+
+/**
+ * Diff a[aStart..aEnd) against b[bStart..bEnd) with Hirschberg's algorithm:
+ * split a in half, find where b splits along a longest common subsequence,
+ * and diff both halves the same way
+ */
+function diffRange(
+  a: string[],
+  aStart: number,
+  aEnd: number,
+  b: string[],
+  bStart: number,
+  bEnd: number,
+  result: DiffLine[]
+): void {
+  const added = (from: number, to: number) => {
+    for (let j = from; j < to; j++) {
+      result.push({ type: 'added', value: b[j] as string });
+    }
+  };
+
+  if (aStart === aEnd) {
+    added(bStart, bEnd);
+    return;
+  }
+
+  if (bStart === bEnd) {
+    for (let i = aStart; i < aEnd; i++) {
+      result.push({ type: 'removed', value: a[i] as string });
+    }
+    return;
+  }
+
+  if (aEnd - aStart === 1) {
+    const value = a[aStart] as string;
+    const match = b.slice(bStart, bEnd).indexOf(value);
+
+    if (match === -1) {
+      result.push({ type: 'removed', value });
+      added(bStart, bEnd);
+    } else {
+      added(bStart, bStart + match);
+      result.push({ type: 'equal', value });
+      added(bStart + match + 1, bEnd);
+    }
+    return;
+  }
+
+  const aMid = aStart + Math.floor((aEnd - aStart) / 2);
+  const head = lcsLengths(a, aStart, aMid, b, bStart, bEnd, false);
+  const tail = lcsLengths(a, aMid, aEnd, b, bStart, bEnd, true);
+  const width = bEnd - bStart;
+
+  let split = 0;
+  let best = -1;
+  for (let j = 0; j <= width; j++) {
+    const length = (head[j] ?? 0) + (tail[width - j] ?? 0);
+    if (length > best) {
+      best = length;
+      split = j;
+    }
+  }
+
+  diffRange(a, aStart, aMid, b, bStart, bStart + split, result);
+  diffRange(a, aMid, aEnd, b, bStart + split, bEnd, result);
+}
+
+/**
+ * Compute a line-based diff between two texts
+ * Common leading and trailing lines are skipped before comparing the
+ * differing middle part in linear space.
+ */
+export function diffLines(from: string, to: string): DiffLine[] {
+  const a = from.split('\n');
+  const b = to.split('\n');
+
+  let start = 0;
+  while (start < a.length && start < b.length && a[start] === b[start]) {
+    start++;
+  }
+
+  let endA = a.length;
+  let endB = b.length;
+  while (endA > start && endB > start && a[endA - 1] === b[endB - 1]) {
+    endA--;
+    endB--;
+  }
+
+  const result: DiffLine[] = a.slice(0, start).map((value) => ({ type: 'equal', value }));
+
+  diffRange(a, start, endA, b, start, endB, result);
+
+  for (const value of a.slice(endA)) {
+    result.push({ type: 'equal', value });
+  }
+
+  return result;
+}
+
+/**
+ * Compare a single field between two versions
+ */
+export function diffField(
+  from: string | null,
+  to: string | null,
+  includeLines = false
+): RevisionFieldDiff {
+  const changed = from !== to;
+
+  return {
+    changed,
+    from,
+    to,
+    ...(includeLines && changed && { lines: diffLines(from ?? '', to ?? '') }),
+  };
+}
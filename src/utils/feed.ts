@@ -0,0 +1,118 @@
+/**
+ * Channel-level information shared by RSS and Atom feeds
+ */
+export interface FeedChannel {
+  title: string;
+  description: string;
+  siteUrl: string;
+  selfUrl: string;
+  updatedAt: Date;
+}
+
+/**
+ * A single entry of a feed
+ */
+export interface FeedItem {
+  id: string;
+  title: string;
+  link: string;
+  summary: string;
+  content: string | null;
+  author: string;
+  categories: string[];
+  publishedAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * Escape text for use in XML element content and attribute values
+ */
+export function escapeXml(value: string): string {
+  return value
+    .replaceAll('&', '&amp;')
+    .replaceAll('<', '&lt;')
+    .replaceAll('>', '&gt;')
+    .replaceAll('"', '&quot;')
+    .replaceAll("'", '&apos;');
+}
+
+/**
+ * Wrap HTML in a CDATA section, splitting any `]]>` it contains
+ */
+export function cdata(value: string): string {
+  return `<![CDATA[${value.replaceAll(']]>', ']]]]><![CDATA[>')}]]>`;
+}
+
+/**
+ * Render an RSS 2.0 document
+ */
+export function buildRssFeed(channel: FeedChannel, items: FeedItem[]): string {
+  const entries = items.map((item) =>
+    [
+      '    <item>',
+      `      <title>${escapeXml(item.title)}</title>`,
+      `      <link>${escapeXml(item.link)}</link>`,
+      `      <guid isPermaLink="false">${escapeXml(item.id)}</guid>`,
+      `      <dc:creator>${escapeXml(item.author)}</dc:creator>`,
+      `      <pubDate>${item.publishedAt.toUTCString()}</pubDate>`,
+      ...item.categories.map((category) => `      <category>${escapeXml(category)}</category>`),
+      `      <description>${cdata(item.summary)}</description>`,
+      ...(item.content !== null
+        ? [`      <content:encoded>${cdata(item.content)}</content:encoded>`]
+        : []),
+      '    </item>',
+    ].join('\n')
+  );
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<rss version="2.0" xmlns:atom="http://www.w3.org/2005/Atom" xmlns:content="http://purl.org/rss/1.0/modules/content/" xmlns:dc="http://purl.org/dc/elements/1.1/">',
+    '  <channel>',
+    `    <title>${escapeXml(channel.title)}</title>`,
+    `    <link>${escapeXml(channel.siteUrl)}</link>`,
+    `    <description>${escapeXml(channel.description)}</description>`,
+    `    <atom:link href="${escapeXml(channel.selfUrl)}" rel="self" type="application/rss+xml"/>`,
+    `    <lastBuildDate>${channel.updatedAt.toUTCString()}</lastBuildDate>`,
+    ...entries,
+    '  </channel>',
+    '</rss>',
+    '',
+  ].join('\n');
+}
+
+/**
+ * Render an Atom 1.0 document
+ */
+export function buildAtomFeed(channel: FeedChannel, items: FeedItem[]): string {
+  const entries = items.map((item) =>
+    [
+      '  <entry>',
+      `    <id>${escapeXml(item.id)}</id>`,
+      `    <title>${escapeXml(item.title)}</title>`,
+      `    <link rel="alternate" type="text/html" href="${escapeXml(item.link)}"/>`,
+      `    <author><name>${escapeXml(item.author)}</name></author>`,
+      `    <published>${item.publishedAt.toISOString()}</published>`,
+      `    <updated>${item.updatedAt.toISOString()}</updated>`,
+      ...item.categories.map((category) => `    <category term="${escapeXml(category)}"/>`),
+      `    <summary type="html">${escapeXml(item.summary)}</summary>`,
+      ...(item.content !== null
+        ? [`    <content type="html">${escapeXml(item.content)}</content>`]
+        : []),
+      '  </entry>',
+    ].join('\n')
+  );
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<feed xmlns="http://www.w3.org/2005/Atom">',
+    `  <id>${escapeXml(channel.selfUrl)}</id>`,
+    `  <title>${escapeXml(channel.title)}</title>`,
+    `  <subtitle>${escapeXml(channel.description)}</subtitle>`,
+    `  <link rel="alternate" type="text/html" href="${escapeXml(channel.siteUrl)}"/>`,
+    `  <link rel="self" type="application/atom+xml" href="${escapeXml(channel.selfUrl)}"/>`,
+    `  <updated>${channel.updatedAt.toISOString()}</updated>`,
+    ...entries,
+    '</feed>',
+    '',
+  ].join('\n');
+}
@@ -0,0 +1,10 @@
+import { config } from '../../config/index.js';
+
+/**
+ * Site path of a post in its locale
+ * Posts in the default locale keep the bare path; others are prefixed with
+ * their locale, e.g. "fr/bonjour", since translations may share a slug.
+ */
+export function localizePath(path: string, locale: string): string {
+  return locale === config.locales.default ? path : `${encodeURIComponent(locale)}/${path}`;
+}
@@ -2,6 +2,9 @@ import { HTTP_STATUS } from '@/constants';
 import type {
   ApiResponse,
   ApiError,
+  CursorPage,
+  CursorPaginationMeta,
+  CursorPaginationParams,
   ResponseMeta,
   PaginationMeta,
   PaginationParams,
@@ -49,7 +52,7 @@ export function createErrorResponse(
  */
 export function createPaginatedResponse<T>(
   data: T[],
-  pagination: PaginationMeta,
+  pagination: PaginationMeta | CursorPaginationMeta,
   meta?: Partial<ResponseMeta>
 ): ApiResponse<T[]> {
   return {
@@ -94,6 +97,39 @@ export function calculatePaginationMeta(
   };
 }
 
+/**
+ * Parse cursor pagination parameters from query string
+ * Returns null unless the query has a `cursor` parameter, which is left
+ * empty to get the first page.
+ */
+export function parseCursorParams(
+  query: Record<string, unknown>,
+  defaults = { limit: 10 }
+): CursorPaginationParams | null {
+  if (typeof query.cursor !== 'string') {
+    return null;
+  }
+
+  const limit = Math.max(1, Math.min(100, parseInt(String(query.limit || defaults.limit), 10)));
+
+  return { cursor: query.cursor, limit, includeTotal: query.includeTotal === true };
+}
+
+/**
+ * Calculate cursor pagination metadata
+ */
+export function calculateCursorPaginationMeta(
+  page: Omit<CursorPage<unknown>, 'items'>,
+  limit: number
+): CursorPaginationMeta {
+  return {
+    limit,
+    nextCursor: page.nextCursor,
+    prevCursor: page.prevCursor,
+    ...(page.total !== undefined && { total: page.total }),
+  };
+}
+
 /**
  * Get HTTP status text
  */
@@ -1,6 +1,9 @@
 import { z } from 'zod';
 
-import { USER_ROLES } from '@/constants';
+import { config } from '../../config/index.js';
+
+import { BULK_MAX_POSTS, TAXONOMIES, USER_ROLES } from '@/constants';
+import { postTypeRegistry } from '@/services/post-type-registry';
 
 // User schemas
 export const createUserSchema = z.object({
@@ -20,7 +23,13 @@ export const createUserSchema = z.object({
     .regex(/[a-z]/, 'Password must contain at least one lowercase letter')
     .regex(/[0-9]/, 'Password must contain at least one number'),
   role: z
-    .enum([USER_ROLES.ADMIN, USER_ROLES.USER, USER_ROLES.GUEST])
+    .enum([
+      USER_ROLES.ADMIN,
+      USER_ROLES.EDITOR,
+      USER_ROLES.USER,
+      USER_ROLES.CONTRIBUTOR,
+      USER_ROLES.GUEST,
+    ])
     .optional()
     .default(USER_ROLES.USER),
 });
@@ -36,7 +45,15 @@ export const updateUserSchema = z.object({
       'Username can only contain letters, numbers, underscores, and hyphens'
     )
     .optional(),
-  role: z.enum([USER_ROLES.ADMIN, USER_ROLES.USER, USER_ROLES.GUEST]).optional(),
+  role: z
+    .enum([
+      USER_ROLES.ADMIN,
+      USER_ROLES.EDITOR,
+      USER_ROLES.USER,
+      USER_ROLES.CONTRIBUTOR,
+      USER_ROLES.GUEST,
+    ])
+    .optional(),
   isActive: z.boolean().optional(),
 });
 
@@ -51,32 +68,77 @@ export const paginationSchema = z.object({
   limit: z.coerce.number().int().positive().max(100).default(10),
 });
 
+// Cursor pagination schema; an empty cursor asks for the first page
+export const cursorPaginationSchema = z.object({
+  cursor: z.string().max(512, 'Invalid cursor').optional(),
+  includeTotal: z
+    .enum(['true', 'false'])
+    .transform((value) => value === 'true')
+    .optional(),
+});
+
 // ID parameter schema
 export const idParamSchema = z.object({
   id: z.string().uuid('Invalid ID format'),
 });
 
+// Numeric ID parameter schema (WordPress-style auto-increment IDs)
+export const numericIdParamSchema = z.object({
+  id: z.string().regex(/^\d+$/, 'Invalid ID format'),
+});
+
 // File upload schema
 export const fileUploadSchema = z.object({
   filename: z.string().min(1, 'Filename is required'),
   mimetype: z.string().min(1, 'MIME type is required'),
 });
 
+// Post meta keys and values, also accepted when creating a post
+const metaKeySchema = z
+  .string()
+  .min(1, 'Meta key is required')
+  .max(191, 'Meta key must not exceed 191 characters')
+  .regex(/^[\w.:-]+$/, 'Meta key may only contain letters, digits, _ . : and -');
+
+const postMetaValueSchema = z
+  .unknown()
+  .refine((value) => value !== undefined, 'Value is required')
+  .refine(
+    (value) => (JSON.stringify(value) ?? '').length <= 65535,
+    'Value must not exceed 65535 characters'
+  );
+
 // Post schemas
+// Checked against the registry when validating, so every registered type is accepted
+const postTypeSchema = z
+  .string()
+  .refine((type) => postTypeRegistry.has(type), { message: 'Unknown post type' });
+
+// Posts may only be written in the configured locales
+const localeSchema = z.string().refine((locale) => config.locales.supported.includes(locale), {
+  message: 'Unsupported locale',
+});
+
 export const createPostSchema = z.object({
   title: z.string().min(1, 'Title is required').max(200, 'Title must not exceed 200 characters'),
   content: z.string().min(1, 'Content is required'),
   excerpt: z.string().max(500, 'Excerpt must not exceed 500 characters').nullish(),
   status: z.enum(['publish', 'draft', 'private', 'pending', 'future']).default('draft'),
-  type: z.enum(['post', 'page', 'attachment']).default('post'),
-  authorId: z.string().uuid('Invalid author ID format'),
+  type: postTypeSchema.default('post'),
+  authorId: z.string().uuid('Invalid author ID format').optional(),
   slug: z.string().max(200, 'Slug must not exceed 200 characters').optional(),
+  locale: localeSchema.default(config.locales.default),
+  translationOf: z.coerce.number().int().positive('Invalid post ID').optional(),
   commentStatus: z.enum(['open', 'closed']).default('closed'),
   pingStatus: z.enum(['open', 'closed']).default('closed'),
   featuredMedia: z.string().uuid('Invalid featured media ID format').nullish(),
   parentId: z.string().uuid('Invalid parent ID format').nullish(),
   menuOrder: z.coerce.number().int().default(0),
   publishedAt: z.coerce.date().nullish(),
+  password: z.string().max(255, 'Password must not exceed 255 characters').nullish(),
+  categories: z.array(z.coerce.number().int().positive('Invalid category ID')).optional(),
+  tags: z.array(z.coerce.number().int().positive('Invalid tag ID')).optional(),
+  meta: z.record(metaKeySchema, postMetaValueSchema).optional(),
 });
 
 export const updatePostSchema = z.object({
@@ -84,23 +146,333 @@ export const updatePostSchema = z.object({
   content: z.string().min(1, 'Content is required').optional(),
   excerpt: z.string().max(500, 'Excerpt must not exceed 500 characters').nullish(),
   status: z.enum(['publish', 'draft', 'private', 'pending', 'future']).optional(),
-  type: z.enum(['post', 'page', 'attachment']).optional(),
+  type: postTypeSchema.optional(),
   slug: z.string().max(200, 'Slug must not exceed 200 characters').optional(),
+  locale: localeSchema.optional(),
+  translationOf: z.coerce.number().int().positive('Invalid post ID').nullish(),
   commentStatus: z.enum(['open', 'closed']).optional(),
   pingStatus: z.enum(['open', 'closed']).optional(),
   featuredMedia: z.string().uuid('Invalid featured media ID format').nullish(),
   parentId: z.string().uuid('Invalid parent ID format').nullish(),
   menuOrder: z.coerce.number().int().optional(),
   publishedAt: z.coerce.date().nullish(),
+  password: z.string().max(255, 'Password must not exceed 255 characters').nullish(),
+  categories: z.array(z.coerce.number().int().positive('Invalid category ID')).optional(),
+  tags: z.array(z.coerce.number().int().positive('Invalid tag ID')).optional(),
+});
+
+// Post meta schemas
+
+// Comma-separated list of meta keys to include in post responses
+const metaKeyListSchema = z
+  .string()
+  .transform((value) =>
+    value
+      .split(',')
+      .map((key) => key.trim())
+      .filter(Boolean)
+  )
+  .pipe(z.array(metaKeySchema).max(20, 'Cannot include more than 20 meta keys'));
+
+export const postMetaParamSchema = z.object({
+  id: z.string().regex(/^\d+$/, 'Invalid ID format'),
+  key: metaKeySchema,
+});
+
+export const setPostMetaSchema = z.object({
+  value: postMetaValueSchema,
+});
+
+export const postMetaIncludeSchema = z.object({
+  meta: metaKeyListSchema.optional(),
+});
+
+export const postSlugQuerySchema = postMetaIncludeSchema.extend({
+  locale: localeSchema.optional(),
+});
+
+export const pageQuerySchema = z.object({
+  locale: localeSchema.optional(),
 });
 
 export const postQuerySchema = z.object({
   page: z.coerce.number().int().positive().default(1),
   limit: z.coerce.number().int().positive().max(100).default(10),
-  status: z.enum(['publish', 'draft', 'private', 'pending', 'future']).optional(),
-  type: z.enum(['post', 'page', 'attachment']).optional(),
+  status: z.enum(['publish', 'draft', 'private', 'pending', 'future', 'trash']).optional(),
+  type: postTypeSchema.optional(),
   authorId: z.string().uuid('Invalid author ID format').optional(),
+  locale: localeSchema.optional(),
   search: z.string().optional(),
-  orderBy: z.enum(['date', 'title', 'modified', 'views', 'comment_count']).default('date'),
+  category: z.string().max(200, 'Category slug must not exceed 200 characters').optional(),
+  tag: z.string().max(200, 'Tag slug must not exceed 200 characters').optional(),
+  metaKey: metaKeySchema.optional(),
+  metaValue: z.string().max(65535, 'Meta value must not exceed 65535 characters').optional(),
+  meta: metaKeyListSchema.optional(),
+  orderBy: z
+    .enum(['date', 'title', 'modified', 'views', 'comment_count', 'relevance'])
+    .default('date'),
   order: z.enum(['asc', 'desc']).default('desc'),
+  ...cursorPaginationSchema.shape,
 });
+
+export const popularPostsQuerySchema = z.object({
+  period: z.enum(['1d', '7d', '30d', 'all']).default('7d'),
+  limit: z.coerce.number().int().positive().max(100).default(10),
+  type: postTypeSchema.optional(),
+});
+
+export const reorderPagesSchema = z.object({
+  items: z
+    .array(
+      z.object({
+        id: z.coerce.number().int().positive('Invalid page ID'),
+        menuOrder: z.coerce.number().int(),
+      })
+    )
+    .min(1, 'At least one page is required')
+    .max(500, 'Cannot reorder more than 500 pages at once'),
+});
+
+const bulkPostIdsSchema = z
+  .array(z.coerce.number().int().positive('Invalid post ID'))
+  .min(1, 'At least one post is required')
+  .max(BULK_MAX_POSTS, `Cannot update more than ${BULK_MAX_POSTS} posts at once`)
+  .transform((ids) => [...new Set(ids)]);
+
+export const bulkPostSchema = z.discriminatedUnion('action', [
+  z.object({ action: z.literal('publish'), ids: bulkPostIdsSchema }),
+  z.object({ action: z.literal('unpublish'), ids: bulkPostIdsSchema }),
+  z.object({
+    action: z.literal('set_categories'),
+    ids: bulkPostIdsSchema,
+    categories: z.array(z.coerce.number().int().positive('Invalid category ID')),
+  }),
+  z.object({
+    action: z.literal('set_author'),
+    ids: bulkPostIdsSchema,
+    authorId: z.string().uuid('Invalid author ID format'),
+  }),
+  z.object({ action: z.literal('trash'), ids: bulkPostIdsSchema }),
+]);
+
+export const createPreviewLinkSchema = z.object({
+  expiresInHours: z.coerce
+    .number()
+    .int()
+    .positive()
+    .max(
+      config.preview.maxExpiresInHours,
+      `Preview links cannot last more than ${config.preview.maxExpiresInHours} hours`
+    )
+    .optional(),
+});
+
+export const previewLinkParamSchema = z.object({
+  id: z.string().regex(/^\d+$/, 'Invalid ID format'),
+  linkId: z.string().uuid('Invalid preview link ID format'),
+});
+
+export const previewTokenParamSchema = z.object({
+  token: z.string().min(1).max(2048, 'Invalid preview token'),
+});
+
+// Edit lock schemas
+export const acquirePostLockSchema = z.object({
+  takeover: z.boolean().optional(),
+});
+
+export const postLockTakeoverSchema = z.object({
+  takeover: z
+    .enum(['true', 'false'])
+    .transform((value) => value === 'true')
+    .optional(),
+});
+
+export const unlockPostSchema = z.object({
+  password: z.string().min(1, 'Password is required'),
+});
+
+// Editorial review schemas
+export const approvePostSchema = z.object({
+  publishedAt: z.coerce.date().nullish(),
+  note: z.string().max(1000, 'Note must not exceed 1000 characters').optional(),
+});
+
+export const rejectPostSchema = z.object({
+  note: z
+    .string()
+    .min(1, 'A note explaining the rejection is required')
+    .max(1000, 'Note must not exceed 1000 characters'),
+});
+
+// Term schemas
+// Slugs are normalized by the term service, but must leave something to keep
+const termSlugSchema = z
+  .string()
+  .max(200, 'Slug must not exceed 200 characters')
+  .regex(/[a-z0-9]/i, 'Slug must contain a letter or digit');
+
+export const createTermSchema = z.object({
+  name: z.string().min(1, 'Name is required').max(200, 'Name must not exceed 200 characters'),
+  taxonomy: z.enum([TAXONOMIES.CATEGORY, TAXONOMIES.POST_TAG]),
+  slug: termSlugSchema.optional(),
+  description: z.string().max(1000, 'Description must not exceed 1000 characters').nullish(),
+  parentId: z.coerce.number().int().positive('Invalid parent ID').nullish(),
+});
+
+export const updateTermSchema = z.object({
+  name: z
+    .string()
+    .min(1, 'Name is required')
+    .max(200, 'Name must not exceed 200 characters')
+    .optional(),
+  slug: termSlugSchema.optional(),
+  description: z.string().max(1000, 'Description must not exceed 1000 characters').nullish(),
+  parentId: z.coerce.number().int().positive('Invalid parent ID').nullish(),
+});
+
+export const termQuerySchema = z.object({
+  page: z.coerce.number().int().positive().default(1),
+  limit: z.coerce.number().int().positive().max(100).default(10),
+  taxonomy: z.enum([TAXONOMIES.CATEGORY, TAXONOMIES.POST_TAG]).optional(),
+  parentId: z.coerce.number().int().nonnegative().optional(),
+  search: z.string().optional(),
+  hideEmpty: z
+    .enum(['true', 'false'])
+    .transform((value) => value === 'true')
+    .optional(),
+  orderBy: z.enum(['name', 'slug', 'count']).default('name'),
+  order: z.enum(['asc', 'desc']).default('asc'),
+});
+
+// Menu schemas
+export const createMenuSchema = z.object({
+  name: z.string().min(1, 'Name is required').max(200, 'Name must not exceed 200 characters'),
+  slug: z.string().max(200, 'Slug must not exceed 200 characters').optional(),
+  description: z.string().max(1000, 'Description must not exceed 1000 characters').nullish(),
+});
+
+export const updateMenuSchema = createMenuSchema.partial();
+
+export const menuSlugParamSchema = z.object({
+  slug: z.string().min(1).max(200, 'Slug must not exceed 200 characters'),
+});
+
+export const menuItemParamSchema = z.object({
+  id: z.string().regex(/^\d+$/, 'Invalid ID format'),
+  itemId: z.string().regex(/^\d+$/, 'Invalid menu item ID format'),
+});
+
+const menuItemTitleSchema = z.string().max(200, 'Title must not exceed 200 characters');
+const menuItemUrlSchema = z
+  .string()
+  .url('Invalid URL')
+  .max(2000, 'URL must not exceed 2000 characters');
+const menuItemObjectIdSchema = z.coerce.number().int().positive('Invalid object ID');
+
+const menuItemPlacementShape = {
+  parentId: z.coerce.number().int().positive('Invalid parent item ID').nullish(),
+  menuOrder: z.coerce.number().int().optional(),
+};
+
+// Items linking to content take their title from it unless one is given
+export const createMenuItemSchema = z.discriminatedUnion('type', [
+  z.object({
+    type: z.enum(['post', 'page', 'term']),
+    objectId: menuItemObjectIdSchema,
+    title: menuItemTitleSchema.optional(),
+    ...menuItemPlacementShape,
+  }),
+  z.object({
+    type: z.literal('custom'),
+    url: menuItemUrlSchema,
+    title: menuItemTitleSchema.min(1, 'Title is required'),
+    ...menuItemPlacementShape,
+  }),
+]);
+
+export const updateMenuItemSchema = z.object({
+  title: menuItemTitleSchema.optional(),
+  objectId: menuItemObjectIdSchema.optional(),
+  url: menuItemUrlSchema.optional(),
+  ...menuItemPlacementShape,
+});
+
+export const reorderMenuItemsSchema = z.object({
+  items: z
+    .array(
+      z.object({
+        id: z.coerce.number().int().positive('Invalid menu item ID'),
+        parentId: z.coerce.number().int().positive('Invalid parent item ID').nullable(),
+        menuOrder: z.coerce.number().int(),
+      })
+    )
+    .min(1, 'At least one item is required')
+    .max(500, 'Cannot reorder more than 500 items at once'),
+});
+
+// Comment schemas
+export const createCommentSchema = z.object({
+  content: z
+    .string()
+    .min(1, 'Content is required')
+    .max(5000, 'Content must not exceed 5000 characters'),
+  parentId: z.coerce.number().int().positive('Invalid parent ID').nullish(),
+  authorName: z.string().min(1).max(100, 'Name must not exceed 100 characters').optional(),
+  authorEmail: z.string().email('Invalid email address').optional(),
+  authorUrl: z.string().url('Invalid URL').max(200, 'URL must not exceed 200 characters').nullish(),
+});
+
+export const updateCommentStatusSchema = z.object({
+  status: z.enum(['pending', 'approved', 'spam', 'trash']),
+});
+
+export const postCommentsQuerySchema = z.object({
+  page: z.coerce.number().int().positive().default(1),
+  limit: z.coerce.number().int().positive().max(100).default(10),
+  order: z.enum(['asc', 'desc']).default('asc'),
+});
+
+export const commentQuerySchema = z.object({
+  page: z.coerce.number().int().positive().default(1),
+  limit: z.coerce.number().int().positive().max(100).default(10),
+  postId: z.coerce.number().int().positive('Invalid post ID').optional(),
+  status: z.enum(['pending', 'approved', 'spam', 'trash']).optional(),
+  order: z.enum(['asc', 'desc']).default('desc'),
+});
+
+// Revision schemas
+export const revisionParamSchema = z.object({
+  id: z.string().regex(/^\d+$/, 'Invalid ID format'),
+  rev: z.string().regex(/^\d+$/, 'Invalid revision ID format'),
+});
+
+export const revisionDiffQuerySchema = z.object({
+  from: z.string().regex(/^\d+$/, 'Invalid revision ID format'),
+  to: z
+    .string()
+    .regex(/^(\d+|current)$/, 'Revision ID or "current" expected')
+    .default('current'),
+});
+
+// Import schemas
+export const wxrImportQuerySchema = z.object({
+  dryRun: z
+    .enum(['true', 'false'])
+    .transform((value) => value === 'true')
+    .default('false'),
+});
+
+// Export schemas
+export const exportQuerySchema = z
+  .object({
+    format: z.enum(['wxr', 'json']).default('wxr'),
+    from: z.coerce.date().optional(),
+    to: z.coerce.date().optional(),
+    authorId: z.string().uuid('Invalid author ID').optional(),
+    status: z.enum(['publish', 'draft', 'private', 'pending', 'future']).optional(),
+  })
+  .refine((query) => !query.from || !query.to || query.from <= query.to, {
+    message: "'from' must not be after 'to'",
+    path: ['from'],
+  });
@@ -0,0 +1,63 @@
+/**
+ * Split user search input into plain words
+ * Characters with a meaning in MySQL boolean-mode queries are dropped.
+ */
+export function getSearchTerms(search: string): string[] {
+  return search
+    .split(/\s+/)
+    .map((term) => term.replaceAll(/[+\-<>()~*"@]/g, ''))
+    .filter((term) => term.length > 0);
+}
+
+/**
+ * Build a boolean-mode FULLTEXT query from user input
+ * Every word matches as a prefix and any word may match; posts matching
+ * more words rank higher.
+ */
+export function toFullTextQuery(search: string): string {
+  return getSearchTerms(search)
+    .map((term) => `${term}*`)
+    .join(' ');
+}
+
+function escapeHtml(text: string): string {
+  return text.replaceAll('&', '&amp;').replaceAll('<', '&lt;').replaceAll('>', '&gt;');
+}
+
+function escapeRegExp(text: string): string {
+  return text.replaceAll(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Excerpt of `text` around the first search match, with matches wrapped in <mark>
+ * HTML in the source text is stripped and the snippet is HTML-escaped.
+ */
+export function buildSnippet(text: string, search: string, radius: number = 80): string {
+  const plain = text
+    .replaceAll(/<[^>]*>/g, ' ')
+    .replaceAll(/\s+/g, ' ')
+    .trim();
+  const terms = getSearchTerms(search);
+
+  if (terms.length === 0) {
+    return escapeHtml(plain.slice(0, radius * 2));
+  }
+
+  const pattern = new RegExp(`(${terms.map(escapeRegExp).join('|')})`, 'i');
+  const matchIndex = plain.search(pattern);
+  const center = matchIndex === -1 ? 0 : matchIndex;
+
+  const start = Math.max(0, center - radius);
+  const end = Math.min(plain.length, center + radius);
+
+  const prefix = start > 0 ? '…' : '';
+  const suffix = end < plain.length ? '…' : '';
+  const highlightPattern = new RegExp(
+    `(${terms.map((term) => escapeRegExp(escapeHtml(term))).join('|')})`,
+    'gi'
+  );
+
+  const snippet = escapeHtml(plain.slice(start, end)).replace(highlightPattern, '<mark>$1</mark>');
+
+  return `${prefix}${snippet}${suffix}`;
+}
@@ -0,0 +1,44 @@
+import { escapeXml } from './feed';
+
+/**
+ * A URL in a sitemap, or a sitemap in a sitemap index
+ */
+export interface SitemapEntry {
+  loc: string;
+  lastmod: Date | null;
+}
+
+function renderEntry(tag: 'url' | 'sitemap', entry: SitemapEntry): string {
+  return [
+    `  <${tag}>`,
+    `    <loc>${escapeXml(entry.loc)}</loc>`,
+    ...(entry.lastmod ? [`    <lastmod>${entry.lastmod.toISOString()}</lastmod>`] : []),
+    `  </${tag}>`,
+  ].join('\n');
+}
+
+/**
+ * Render a <urlset> sitemap
+ */
+export function buildUrlSet(entries: SitemapEntry[]): string {
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<urlset xmlns="http://www.sitemaps.org/schemas/sitemap/0.9">',
+    ...entries.map((entry) => renderEntry('url', entry)),
+    '</urlset>',
+    '',
+  ].join('\n');
+}
+
+/**
+ * Render a <sitemapindex> pointing at sitemap chunks
+ */
+export function buildSitemapIndex(entries: SitemapEntry[]): string {
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<sitemapindex xmlns="http://www.sitemaps.org/schemas/sitemap/0.9">',
+    ...entries.map((entry) => renderEntry('sitemap', entry)),
+    '</sitemapindex>',
+    '',
+  ].join('\n');
+}
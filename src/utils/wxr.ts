@@ -0,0 +1,303 @@
+import { XMLParser } from 'fast-xml-parser';
+
+import { cdata, escapeXml } from './feed';
+
+/**
+ * An author listed in a WordPress eXtended RSS (WXR) export
+ */
+export interface WxrAuthor {
+  login: string;
+  email: string;
+}
+
+/**
+ * A category or tag, either declared in the channel or referenced by an item
+ */
+export interface WxrTerm {
+  taxonomy: 'category' | 'post_tag';
+  slug: string;
+  name: string;
+  description: string | null;
+  parentSlug: string | null;
+}
+
+/**
+ * A post, page or other object exported as an <item>
+ */
+export interface WxrItem {
+  wpId: number;
+  /** Identifies the item across exports; empty when the export has none */
+  guid: string;
+  title: string;
+  content: string;
+  excerpt: string | null;
+  slug: string;
+  status: string;
+  type: string;
+  author: string;
+  password: string;
+  commentStatus: string;
+  pingStatus: string;
+  parentWpId: number;
+  menuOrder: number;
+  publishedAt: Date | null;
+  terms: WxrTerm[];
+  /** Language of the post; null for exports that do not record one */
+  locale: string | null;
+  /** Posts sharing this value are translations of each other */
+  translationGroup: string | null;
+}
+
+export interface WxrDocument {
+  authors: WxrAuthor[];
+  terms: WxrTerm[];
+  items: WxrItem[];
+}
+
+type XmlNode = Record<string, unknown>;
+
+const ARRAY_TAGS = ['wp:author', 'wp:category', 'wp:tag', 'item', 'category', 'wp:postmeta'];
+
+// WordPress has no notion of locales, so they travel as post meta
+const LOCALE_META_KEY = '_locale';
+const TRANSLATION_GROUP_META_KEY = '_translation_group';
+
+const TAXONOMY_DOMAINS: Record<string, WxrTerm['taxonomy']> = {
+  category: 'category',
+  post_tag: 'post_tag',
+};
+
+const parser = new XMLParser({
+  ignoreAttributes: false,
+  attributeNamePrefix: '',
+  // Keep slugs such as "2024" as strings
+  parseTagValue: false,
+  isArray: (name) => ARRAY_TAGS.includes(name),
+});
+
+function text(node: XmlNode, key: string): string {
+  const value = node[key];
+
+  if (typeof value === 'string') return value;
+  if (value && typeof value === 'object' && '#text' in value) return String(value['#text']);
+  return '';
+}
+
+function list(node: XmlNode, key: string): XmlNode[] {
+  const value = node[key];
+  return Array.isArray(value) ? (value as XmlNode[]) : [];
+}
+
+/**
+ * Parse a WXR "YYYY-MM-DD HH:MM:SS" timestamp, read as UTC
+ * WordPress writes zeros for posts that were never dated.
+ */
+function parseDate(value: string): Date | null {
+  if (!value || value.startsWith('0000')) return null;
+
+  const date = new Date(`${value.replace(' ', 'T')}Z`);
+  return Number.isNaN(date.getTime()) ? null : date;
+}
+
+function parseItem(node: XmlNode): WxrItem {
+  const terms = list(node, 'category')
+    .filter((category) => text(category, 'domain') in TAXONOMY_DOMAINS)
+    .map((category) => ({
+      taxonomy: TAXONOMY_DOMAINS[text(category, 'domain')],
+      slug: text(category, 'nicename'),
+      name: text(category, '#text'),
+      description: null,
+      parentSlug: null,
+    }))
+    .filter((term) => term.slug);
+
+  const meta = new Map(
+    list(node, 'wp:postmeta').map((entry) => [
+      text(entry, 'wp:meta_key'),
+      text(entry, 'wp:meta_value'),
+    ])
+  );
+
+  return {
+    wpId: parseInt(text(node, 'wp:post_id'), 10) || 0,
+    guid: text(node, 'guid'),
+    title: text(node, 'title'),
+    content: text(node, 'content:encoded'),
+    excerpt: text(node, 'excerpt:encoded') || null,
+    slug: text(node, 'wp:post_name'),
+    status: text(node, 'wp:status'),
+    type: text(node, 'wp:post_type'),
+    author: text(node, 'dc:creator'),
+    password: text(node, 'wp:post_password'),
+    commentStatus: text(node, 'wp:comment_status') || 'closed',
+    pingStatus: text(node, 'wp:ping_status') || 'closed',
+    parentWpId: parseInt(text(node, 'wp:post_parent'), 10) || 0,
+    menuOrder: parseInt(text(node, 'wp:menu_order'), 10) || 0,
+    publishedAt: parseDate(text(node, 'wp:post_date_gmt')) ?? parseDate(text(node, 'wp:post_date')),
+    terms,
+    locale: meta.get(LOCALE_META_KEY) || null,
+    translationGroup: meta.get(TRANSLATION_GROUP_META_KEY) || null,
+  };
+}
+
+/**
+ * Parse a WordPress eXtended RSS export
+ * Throws when the document is not a WXR export.
+ */
+export function parseWxr(xml: string): WxrDocument {
+  const document = parser.parse(xml) as XmlNode;
+  const channel = (document.rss as XmlNode | undefined)?.channel as XmlNode | undefined;
+
+  if (!channel || typeof channel !== 'object' || !('wp:wxr_version' in channel)) {
+    throw new Error('Document is not a WordPress WXR export');
+  }
+
+  const categories = list(channel, 'wp:category').map((category) => ({
+    taxonomy: 'category' as const,
+    slug: text(category, 'wp:category_nicename'),
+    name: text(category, 'wp:cat_name'),
+    description: text(category, 'wp:category_description') || null,
+    parentSlug: text(category, 'wp:category_parent') || null,
+  }));
+
+  const tags = list(channel, 'wp:tag').map((tag) => ({
+    taxonomy: 'post_tag' as const,
+    slug: text(tag, 'wp:tag_slug'),
+    name: text(tag, 'wp:tag_name'),
+    description: text(tag, 'wp:tag_description') || null,
+    parentSlug: null,
+  }));
+
+  return {
+    authors: list(channel, 'wp:author').map((author) => ({
+      login: text(author, 'wp:author_login'),
+      email: text(author, 'wp:author_email'),
+    })),
+    terms: [...categories, ...tags].filter((term) => term.slug),
+    items: list(channel, 'item').map(parseItem),
+  };
+}
+
+/**
+ * Channel-level information written at the top of a WXR export
+ */
+export interface WxrChannel {
+  title: string;
+  link: string;
+  description: string;
+}
+
+/**
+ * Closes the channel opened by buildWxrHeader()
+ */
+export const WXR_FOOTER = '</channel>\n</rss>\n';
+
+/**
+ * Format a date the way WXR does ("YYYY-MM-DD HH:MM:SS", UTC)
+ */
+function formatDate(date: Date | null): string {
+  return date ? date.toISOString().slice(0, 19).replace('T', ' ') : '0000-00-00 00:00:00';
+}
+
+/**
+ * Render the start of a WXR export: the channel, its authors and its terms
+ * Items are appended with buildWxrItem() and the document is closed with WXR_FOOTER.
+ */
+export function buildWxrHeader(
+  channel: WxrChannel,
+  authors: WxrAuthor[],
+  terms: WxrTerm[]
+): string {
+  const authorTags = authors.map((author) =>
+    [
+      '  <wp:author>',
+      `    <wp:author_login>${cdata(author.login)}</wp:author_login>`,
+      `    <wp:author_email>${cdata(author.email)}</wp:author_email>`,
+      '  </wp:author>',
+    ].join('\n')
+  );
+
+  const termTags = terms.map((term) =>
+    term.taxonomy === 'category'
+      ? [
+          '  <wp:category>',
+          `    <wp:category_nicename>${cdata(term.slug)}</wp:category_nicename>`,
+          `    <wp:category_parent>${cdata(term.parentSlug ?? '')}</wp:category_parent>`,
+          `    <wp:cat_name>${cdata(term.name)}</wp:cat_name>`,
+          ...(term.description
+            ? [`    <wp:category_description>${cdata(term.description)}</wp:category_description>`]
+            : []),
+          '  </wp:category>',
+        ].join('\n')
+      : [
+          '  <wp:tag>',
+          `    <wp:tag_slug>${cdata(term.slug)}</wp:tag_slug>`,
+          `    <wp:tag_name>${cdata(term.name)}</wp:tag_name>`,
+          ...(term.description
+            ? [`    <wp:tag_description>${cdata(term.description)}</wp:tag_description>`]
+            : []),
+          '  </wp:tag>',
+        ].join('\n')
+  );
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<rss version="2.0"',
+    '  xmlns:excerpt="http://wordpress.org/export/1.2/excerpt/"',
+    '  xmlns:content="http://purl.org/rss/1.0/modules/content/"',
+    '  xmlns:dc="http://purl.org/dc/elements/1.1/"',
+    '  xmlns:wp="http://wordpress.org/export/1.2/">',
+    '<channel>',
+    `  <title>${escapeXml(channel.title)}</title>`,
+    `  <link>${escapeXml(channel.link)}</link>`,
+    `  <description>${escapeXml(channel.description)}</description>`,
+    '  <wp:wxr_version>1.2</wp:wxr_version>',
+    ...authorTags,
+    ...termTags,
+    '',
+  ].join('\n');
+}
+
+function buildPostMeta(key: string, value: string | null): string[] {
+  return value
+    ? [
+        '    <wp:postmeta>',
+        `      <wp:meta_key>${cdata(key)}</wp:meta_key>`,
+        `      <wp:meta_value>${cdata(value)}</wp:meta_value>`,
+        '    </wp:postmeta>',
+      ]
+    : [];
+}
+
+/**
+ * Render a single <item> of a WXR export
+ */
+export function buildWxrItem(item: WxrItem): string {
+  return [
+    '  <item>',
+    `    <title>${cdata(item.title)}</title>`,
+    ...(item.guid ? [`    <guid isPermaLink="false">${escapeXml(item.guid)}</guid>`] : []),
+    `    <dc:creator>${cdata(item.author)}</dc:creator>`,
+    `    <content:encoded>${cdata(item.content)}</content:encoded>`,
+    `    <excerpt:encoded>${cdata(item.excerpt ?? '')}</excerpt:encoded>`,
+    `    <wp:post_id>${item.wpId}</wp:post_id>`,
+    `    <wp:post_date>${cdata(formatDate(item.publishedAt))}</wp:post_date>`,
+    `    <wp:post_date_gmt>${cdata(formatDate(item.publishedAt))}</wp:post_date_gmt>`,
+    `    <wp:comment_status>${cdata(item.commentStatus)}</wp:comment_status>`,
+    `    <wp:ping_status>${cdata(item.pingStatus)}</wp:ping_status>`,
+    `    <wp:post_name>${cdata(item.slug)}</wp:post_name>`,
+    `    <wp:status>${cdata(item.status)}</wp:status>`,
+    `    <wp:post_parent>${item.parentWpId}</wp:post_parent>`,
+    `    <wp:menu_order>${item.menuOrder}</wp:menu_order>`,
+    `    <wp:post_type>${cdata(item.type)}</wp:post_type>`,
+    `    <wp:post_password>${cdata(item.password)}</wp:post_password>`,
+    ...buildPostMeta(LOCALE_META_KEY, item.locale),
+    ...buildPostMeta(TRANSLATION_GROUP_META_KEY, item.translationGroup),
+    ...item.terms.map(
+      (term) =>
+        `    <category domain="${term.taxonomy}" nicename="${escapeXml(term.slug)}">${cdata(term.name)}</category>`
+    ),
+    '  </item>',
+    '',
+  ].join('\n');
+}
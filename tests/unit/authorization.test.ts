@@ -0,0 +1,105 @@
+import type { NextFunction, Response } from 'express';
+import { describe, it, expect, vi } from 'vitest';
+
+import type { AuthRequest, UserRole } from '../../src/middleware/authorization';
+import { requireOwnershipOrAdmin } from '../../src/middleware/authorization';
+
+// Mock the authentication middleware
+vi.mock('../../src/middleware/authentication', () => ({
+  authenticateToken: vi.fn(),
+  optionalAuth: vi.fn(),
+}));
+
+function createRequest(userId: string, role: UserRole): AuthRequest {
+  return {
+    params: { id: '1' },
+    user: { userId, email: `${userId}@example.com`, role },
+  } as unknown as AuthRequest;
+}
+
+function createResponse() {
+  const res = {
+    status: vi.fn(),
+    json: vi.fn(),
+  };
+  res.status.mockReturnValue(res);
+  return res;
+}
+
+async function run(
+  middleware: ReturnType<typeof requireOwnershipOrAdmin>,
+  req: AuthRequest
+): Promise<{ res: ReturnType<typeof createResponse>; next: NextFunction }> {
+  const res = createResponse();
+  const next = vi.fn();
+  await middleware(req, res as unknown as Response, next);
+  return { res, next };
+}
+
+describe('Authorization Middleware', () => {
+  describe('requireOwnershipOrAdmin', () => {
+    it('should allow the owner of the resource', async () => {
+      const middleware = requireOwnershipOrAdmin(async () => 'author-1', 'post:update_others');
+
+      const { res, next } = await run(middleware, createRequest('author-1', 'user'));
+
+      expect(next).toHaveBeenCalledWith();
+      expect(res.status).not.toHaveBeenCalled();
+    });
+
+    it('should reject users who do not own the resource', async () => {
+      const middleware = requireOwnershipOrAdmin(async () => 'author-1', 'post:update_others');
+
+      const { res, next } = await run(middleware, createRequest('author-2', 'user'));
+
+      expect(next).not.toHaveBeenCalled();
+      expect(res.status).toHaveBeenCalledWith(403);
+    });
+
+    it('should allow users holding the override permission', async () => {
+      const middleware = requireOwnershipOrAdmin(async () => 'author-1', 'post:update_others');
+
+      const { next } = await run(middleware, createRequest('editor-1', 'editor'));
+
+      expect(next).toHaveBeenCalledWith();
+    });
+
+    it('should reject editors when no override permission is given', async () => {
+      const middleware = requireOwnershipOrAdmin(async () => 'author-1');
+
+      const { res } = await run(middleware, createRequest('editor-1', 'editor'));
+
+      expect(res.status).toHaveBeenCalledWith(403);
+    });
+
+    it('should allow admins without looking up the owner', async () => {
+      const lookup = vi.fn();
+      const middleware = requireOwnershipOrAdmin(lookup);
+
+      const { next } = await run(middleware, createRequest('admin-1', 'admin'));
+
+      expect(next).toHaveBeenCalledWith();
+      expect(lookup).not.toHaveBeenCalled();
+    });
+
+    it('should respond 404 when the resource does not exist', async () => {
+      const middleware = requireOwnershipOrAdmin(async () => null);
+
+      const { res, next } = await run(middleware, createRequest('author-1', 'user'));
+
+      expect(next).not.toHaveBeenCalled();
+      expect(res.status).toHaveBeenCalledWith(404);
+    });
+
+    it('should forward lookup errors', async () => {
+      const error = new Error('Database unavailable');
+      const middleware = requireOwnershipOrAdmin(async () => {
+        throw error;
+      });
+
+      const { next } = await run(middleware, createRequest('author-1', 'user'));
+
+      expect(next).toHaveBeenCalledWith(error);
+    });
+  });
+});
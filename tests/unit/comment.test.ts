@@ -0,0 +1,148 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+
+import { commentService } from '../../src/services/comment';
+import { databaseService } from '../../src/services/database';
+import { postService } from '../../src/services/post';
+
+// Mock the database service
+vi.mock('../../src/services/database', () => ({
+  databaseService: {
+    getClient: vi.fn(),
+  },
+}));
+
+// Mock the post service
+vi.mock('../../src/services/post', () => ({
+  postService: {
+    updateCommentCount: vi.fn().mockResolvedValue(undefined),
+  },
+}));
+
+function createPrismaComment(overrides: Record<string, unknown> = {}) {
+  return {
+    id: 1,
+    comment_post_id: 10,
+    comment_parent: 0,
+    user_id: null,
+    comment_author: 'Jane',
+    comment_author_email: 'jane@example.com',
+    comment_author_url: null,
+    comment_content: 'Nice post',
+    comment_approved: 'pending',
+    comment_date: new Date('2026-01-01T00:00:00Z'),
+    updated_at: new Date('2026-01-01T00:00:00Z'),
+    ...overrides,
+  };
+}
+
+describe('CommentService', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  describe('updateCommentStatus', () => {
+    it('should increment the comment count when a comment is approved', async () => {
+      const mockPrismaClient = {
+        comment: {
+          findUnique: vi.fn().mockResolvedValue({ comment_approved: 'pending' }),
+          update: vi.fn().mockResolvedValue(createPrismaComment({ comment_approved: 'approved' })),
+        },
+      };
+
+      vi.mocked(databaseService.getClient).mockReturnValue(mockPrismaClient as never);
+
+      const result = await commentService.updateCommentStatus(1, 'approved');
+
+      expect(result?.status).toBe('approved');
+      expect(postService.updateCommentCount).toHaveBeenCalledWith(10, true);
+    });
+
+    it('should decrement the comment count when an approved comment is marked as spam', async () => {
+      const mockPrismaClient = {
+        comment: {
+          findUnique: vi.fn().mockResolvedValue({ comment_approved: 'approved' }),
+          update: vi.fn().mockResolvedValue(createPrismaComment({ comment_approved: 'spam' })),
+        },
+      };
+
+      vi.mocked(databaseService.getClient).mockReturnValue(mockPrismaClient as never);
+
+      await commentService.updateCommentStatus(1, 'spam');
+
+      expect(postService.updateCommentCount).toHaveBeenCalledWith(10, false);
+    });
+
+    it('should leave the comment count alone between unapproved states', async () => {
+      const mockPrismaClient = {
+        comment: {
+          findUnique: vi.fn().mockResolvedValue({ comment_approved: 'pending' }),
+          update: vi.fn().mockResolvedValue(createPrismaComment({ comment_approved: 'trash' })),
+        },
+      };
+
+      vi.mocked(databaseService.getClient).mockReturnValue(mockPrismaClient as never);
+
+      await commentService.updateCommentStatus(1, 'trash');
+
+      expect(postService.updateCommentCount).not.toHaveBeenCalled();
+    });
+
+    it('should return null when comment not found', async () => {
+      const mockPrismaClient = {
+        comment: {
+          findUnique: vi.fn().mockResolvedValue(null),
+        },
+      };
+
+      vi.mocked(databaseService.getClient).mockReturnValue(mockPrismaClient as never);
+
+      const result = await commentService.updateCommentStatus(99, 'approved');
+
+      expect(result).toBeNull();
+    });
+  });
+
+  describe('getPostComments', () => {
+    it('should nest approved replies under their parents', async () => {
+      const topLevel = [createPrismaComment({ id: 1, comment_approved: 'approved' })];
+      const replies = [
+        createPrismaComment({ id: 2, comment_parent: 1, comment_approved: 'approved' }),
+      ];
+      const nestedReplies = [
+        createPrismaComment({ id: 3, comment_parent: 2, comment_approved: 'approved' }),
+      ];
+
+      const mockPrismaClient = {
+        comment: {
+          count: vi.fn().mockResolvedValue(1),
+          findMany: vi
+            .fn()
+            .mockResolvedValueOnce(topLevel)
+            .mockResolvedValueOnce(replies)
+            .mockResolvedValueOnce(nestedReplies)
+            .mockResolvedValueOnce([]),
+        },
+      };
+
+      vi.mocked(databaseService.getClient).mockReturnValue(mockPrismaClient as never);
+
+      const result = await commentService.getPostComments(10, { page: 1, limit: 10 });
+
+      expect(result.total).toBe(1);
+      expect(result.comments).toHaveLength(1);
+      expect(result.comments[0]?.replies?.map((reply) => reply.id)).toEqual([2]);
+      expect(result.comments[0]?.replies?.[0]?.replies?.map((reply) => reply.id)).toEqual([3]);
+      expect(result.comments[0]).not.toHaveProperty('authorEmail');
+      expect(result.comments[0]?.replies?.[0]).not.toHaveProperty('authorEmail');
+
+      // Only replies under the comments of this page are read, one level per query
+      expect(mockPrismaClient.comment.findMany).toHaveBeenCalledTimes(4);
+      expect(mockPrismaClient.comment.findMany).toHaveBeenNthCalledWith(
+        2,
+        expect.objectContaining({
+          where: expect.objectContaining({ comment_parent: { in: [1] } }),
+        })
+      );
+    });
+  });
+});
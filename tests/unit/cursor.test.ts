@@ -0,0 +1,99 @@
+import { describe, it, expect } from 'vitest';
+
+import { buildKeysetArgs, decodeCursor, encodeCursor, toCursorPage } from '../../src/utils/cursor';
+
+const rows = (ids: number[]) =>
+  ids.map((id) => ({ id, post_date: new Date(Date.UTC(2026, 0, id)) }));
+
+describe('Cursor Utils', () => {
+  describe('encodeCursor / decodeCursor', () => {
+    it('should round-trip a position, keeping dates as dates', () => {
+      const position = {
+        sort: 'post_date:desc',
+        value: new Date('2026-01-01T00:00:00Z'),
+        id: 42,
+        direction: 'prev' as const,
+      };
+
+      expect(decodeCursor(encodeCursor(position), 'post_date:desc')).toEqual(position);
+    });
+
+    it('should reject cursors issued for another sort', () => {
+      const cursor = encodeCursor({ sort: 'post_title:asc', value: 'a', id: 1, direction: 'next' });
+
+      expect(decodeCursor(cursor, 'post_date:desc')).toBeNull();
+    });
+
+    it('should reject malformed cursors', () => {
+      expect(decodeCursor('not-a-cursor', 'post_date:desc')).toBeNull();
+      expect(decodeCursor(Buffer.from('{"s":"x"}').toString('base64url'), 'x')).toBeNull();
+    });
+  });
+
+  describe('buildKeysetArgs', () => {
+    it('should fetch one extra row and break ties by ID', () => {
+      const args = buildKeysetArgs({ field: 'created_at', order: 'desc', limit: 10 });
+
+      expect(args).toEqual({ orderBy: [{ created_at: 'desc' }, { id: 'desc' }], take: 11 });
+    });
+
+    it('should continue after the cursor row', () => {
+      const args = buildKeysetArgs(
+        { field: 'post_title', order: 'asc', limit: 5 },
+        { sort: 'post_title:asc', value: 'b', id: 7, direction: 'next' }
+      );
+
+      expect(args.where).toEqual({
+        OR: [{ post_title: { gt: 'b' } }, { post_title: 'b', id: { gt: 7 } }],
+      });
+    });
+
+    it('should read backwards for previous pages', () => {
+      const args = buildKeysetArgs(
+        { field: 'post_date', order: 'desc', limit: 5, nullable: true },
+        { sort: 'post_date:desc', value: null, id: 7, direction: 'prev' }
+      );
+
+      expect(args.orderBy).toEqual([{ post_date: 'asc' }, { id: 'asc' }]);
+      expect(args.where).toEqual({
+        OR: [{ post_date: { not: null } }, { post_date: null, id: { gt: 7 } }],
+      });
+    });
+  });
+
+  describe('toCursorPage', () => {
+    const options = { field: 'post_date' as const, sort: 'post_date:desc', limit: 2 };
+
+    it('should only issue a next cursor on the first page', () => {
+      const page = toCursorPage(rows([3, 2, 1]), options);
+
+      expect(page.items.map((row) => row.id)).toEqual([3, 2]);
+      expect(decodeCursor(page.nextCursor ?? '', options.sort)).toMatchObject({
+        id: 2,
+        direction: 'next',
+      });
+      expect(page.prevCursor).toBeNull();
+    });
+
+    it('should not issue a next cursor on the last page', () => {
+      const position = { sort: options.sort, value: rows([2])[0].post_date, id: 2 };
+      const page = toCursorPage(rows([1]), options, { ...position, direction: 'next' });
+
+      expect(page.items.map((row) => row.id)).toEqual([1]);
+      expect(page.nextCursor).toBeNull();
+      expect(decodeCursor(page.prevCursor ?? '', options.sort)).toMatchObject({
+        id: 1,
+        direction: 'prev',
+      });
+    });
+
+    it('should put previous pages back in order', () => {
+      const position = { sort: options.sort, value: null, id: 1, direction: 'prev' as const };
+      const page = toCursorPage(rows([2, 3]), options, position);
+
+      expect(page.items.map((row) => row.id)).toEqual([3, 2]);
+      expect(page.prevCursor).toBeNull();
+      expect(page.nextCursor).not.toBeNull();
+    });
+  });
+});
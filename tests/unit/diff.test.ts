@@ -0,0 +1,92 @@
+import { describe, it, expect } from 'vitest';
+
+import { diffField, diffLines } from '../../src/utils/diff';
+
+describe('Diff Utils', () => {
+  describe('diffLines', () => {
+    it('should mark every line as equal for identical text', () => {
+      const result = diffLines('a\nb\nc', 'a\nb\nc');
+
+      expect(result.every((line) => line.type === 'equal')).toBe(true);
+      expect(result).toHaveLength(3);
+    });
+
+    it('should report added and removed lines', () => {
+      const result = diffLines('intro\nold line\noutro', 'intro\nnew line\nextra\noutro');
+
+      expect(result).toEqual([
+        { type: 'equal', value: 'intro' },
+        { type: 'removed', value: 'old line' },
+        { type: 'added', value: 'new line' },
+        { type: 'added', value: 'extra' },
+        { type: 'equal', value: 'outro' },
+      ]);
+    });
+
+    it('should keep lines shared in the middle of a change', () => {
+      const result = diffLines('a\nb\nc\nd', 'x\nb\nc\ny');
+
+      expect(result.filter((line) => line.type === 'equal').map((line) => line.value)).toEqual([
+        'b',
+        'c',
+      ]);
+      expect(result.filter((line) => line.type === 'removed').map((line) => line.value)).toEqual([
+        'a',
+        'd',
+      ]);
+      expect(result.filter((line) => line.type === 'added').map((line) => line.value)).toEqual([
+        'x',
+        'y',
+      ]);
+    });
+
+    it('should rebuild both texts from a diff of long inputs', () => {
+      const from = Array.from({ length: 3000 }, (_, i) => `line ${i % 7}`).join('\n');
+      const to = Array.from({ length: 2500 }, (_, i) => `line ${i % 5}`).join('\n');
+
+      const result = diffLines(from, to);
+      const rebuild = (skipped: string) =>
+        result
+          .filter((line) => line.type !== skipped)
+          .map((line) => line.value)
+          .join('\n');
+
+      expect(rebuild('added')).toBe(from);
+      expect(rebuild('removed')).toBe(to);
+    });
+
+    it('should keep a longest common subsequence of lines', () => {
+      const result = diffLines('a\nb\nc\na\nb\nb\na', 'c\nb\na\nb\na\nc');
+
+      expect(result.filter((line) => line.type === 'equal')).toHaveLength(4);
+    });
+  });
+
+  describe('diffField', () => {
+    it('should report unchanged fields without line details', () => {
+      expect(diffField('Title', 'Title', true)).toEqual({
+        changed: false,
+        from: 'Title',
+        to: 'Title',
+      });
+    });
+
+    it('should include line details only when requested', () => {
+      expect(diffField('a', 'b').lines).toBeUndefined();
+      expect(diffField('a', 'b', true).lines).toEqual([
+        { type: 'removed', value: 'a' },
+        { type: 'added', value: 'b' },
+      ]);
+    });
+
+    it('should treat null as an empty value', () => {
+      const result = diffField(null, 'excerpt', true);
+
+      expect(result.changed).toBe(true);
+      expect(result.lines).toEqual([
+        { type: 'removed', value: '' },
+        { type: 'added', value: 'excerpt' },
+      ]);
+    });
+  });
+});
@@ -0,0 +1,142 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+
+import { databaseService } from '../../src/services/database';
+import { exportService } from '../../src/services/export';
+import { termService } from '../../src/services/term';
+import { parseWxr } from '../../src/utils/wxr';
+
+// Mock the database service
+vi.mock('../../src/services/database', () => ({
+  databaseService: {
+    getClient: vi.fn(),
+  },
+}));
+
+// Mock the term service
+vi.mock('../../src/services/term', () => ({
+  termService: {
+    getObjectTerms: vi.fn(),
+  },
+}));
+
+function createPrismaPost(overrides: Record<string, unknown> = {}) {
+  return {
+    id: 1,
+    uuid: 'post-uuid',
+    post_title: 'Title',
+    post_content: 'Content',
+    post_excerpt: null,
+    post_status: 'publish',
+    post_type: 'post',
+    post_author: 'author-uuid',
+    post_name: 'title',
+    post_password: '',
+    comment_status: 'closed',
+    ping_status: 'closed',
+    post_parent: '',
+    menu_order: 0,
+    post_date: new Date('2026-01-01T00:00:00Z'),
+    ...overrides,
+  };
+}
+
+async function collect(chunks: AsyncGenerator<string>): Promise<string> {
+  let output = '';
+  for await (const chunk of chunks) {
+    output += chunk;
+  }
+  return output;
+}
+
+describe('Export Service', () => {
+  const mockPrisma = {
+    post: { findMany: vi.fn() },
+    user: { findMany: vi.fn() },
+    termTaxonomy: { findMany: vi.fn() },
+  };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(databaseService.getClient).mockReturnValue(mockPrisma as never);
+
+    mockPrisma.user.findMany.mockResolvedValue([
+      { id: 'author-uuid', username: 'jane', email: 'jane@example.com' },
+    ]);
+    mockPrisma.termTaxonomy.findMany.mockResolvedValue([
+      {
+        termId: 1,
+        taxonomy: 'category',
+        description: null,
+        parent: 0,
+        term: { slug: 'news', name: 'News' },
+      },
+      {
+        termId: 2,
+        taxonomy: 'category',
+        description: null,
+        parent: 1,
+        term: { slug: 'local', name: 'Local' },
+      },
+    ]);
+    vi.mocked(termService.getObjectTerms).mockResolvedValue(new Map());
+
+    mockPrisma.post.findMany.mockImplementation((args) => {
+      if (args.distinct) return Promise.resolve([{ post_author: 'author-uuid' }]);
+      if (args.where.uuid) return Promise.resolve([{ id: 1, uuid: 'post-uuid' }]);
+      if (args.where.id.gt > 0) return Promise.resolve([]);
+
+      return Promise.resolve([
+        createPrismaPost({ post_type: 'page', post_name: 'company' }),
+        createPrismaPost({
+          id: 2,
+          uuid: 'child-uuid',
+          post_type: 'page',
+          post_parent: 'post-uuid',
+        }),
+      ]);
+    });
+  });
+
+  it('should stream a WXR export the importer can read', async () => {
+    const document = parseWxr(await collect(exportService.streamExport('wxr', {})));
+
+    expect(document.authors).toEqual([{ login: 'jane', email: 'jane@example.com' }]);
+    expect(document.terms.map((term) => [term.slug, term.parentSlug])).toEqual([
+      ['news', null],
+      ['local', 'news'],
+    ]);
+    expect(document.items.map((item) => [item.wpId, item.author, item.parentWpId])).toEqual([
+      [1, 'jane', 0],
+      [2, 'jane', 1],
+    ]);
+  });
+
+  it('should stream a valid JSON bundle', async () => {
+    const bundle = JSON.parse(await collect(exportService.streamExport('json', {})));
+
+    expect(bundle.authors).toEqual([{ login: 'jane', email: 'jane@example.com' }]);
+    expect(bundle.items).toHaveLength(2);
+    expect(bundle.items[1]).toMatchObject({ wpId: 2, slug: 'title', parentWpId: 1 });
+  });
+
+  it('should apply the date, author and status filters', async () => {
+    const from = new Date('2026-01-01T00:00:00Z');
+    const to = new Date('2026-02-01T00:00:00Z');
+
+    await collect(
+      exportService.streamExport('json', { from, to, authorId: 'author-uuid', status: 'draft' })
+    );
+
+    expect(mockPrisma.post.findMany).toHaveBeenCalledWith(
+      expect.objectContaining({
+        where: {
+          post_type: { in: ['post', 'page'] },
+          post_status: 'draft',
+          post_author: 'author-uuid',
+          post_date: { gte: from, lte: to },
+          id: { gt: 0 },
+        },
+      })
+    );
+  });
+});
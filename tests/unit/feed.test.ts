@@ -0,0 +1,74 @@
+import { describe, it, expect } from 'vitest';
+
+import type { FeedChannel, FeedItem } from '../../src/utils/feed';
+import { buildAtomFeed, buildRssFeed, escapeXml } from '../../src/utils/feed';
+
+const channel: FeedChannel = {
+  title: 'Blog & News',
+  description: 'Latest posts',
+  siteUrl: 'https://example.com',
+  selfUrl: 'https://example.com/api/v1/feed/rss',
+  updatedAt: new Date('2026-01-02T00:00:00Z'),
+};
+
+function createItem(overrides: Partial<FeedItem> = {}): FeedItem {
+  return {
+    id: 'urn:uuid:post-uuid',
+    title: 'Hello <World>',
+    link: 'https://example.com/hello-world',
+    summary: 'Summary',
+    content: '<p>Body</p>',
+    author: 'jane',
+    categories: ['News'],
+    publishedAt: new Date('2026-01-01T00:00:00Z'),
+    updatedAt: new Date('2026-01-02T00:00:00Z'),
+    ...overrides,
+  };
+}
+
+describe('Feed Utils', () => {
+  describe('escapeXml', () => {
+    it('should escape XML special characters', () => {
+      expect(escapeXml(`<a href="x">Tom & 'Jerry'</a>`)).toBe(
+        '&lt;a href=&quot;x&quot;&gt;Tom &amp; &apos;Jerry&apos;&lt;/a&gt;'
+      );
+    });
+  });
+
+  describe('buildRssFeed', () => {
+    it('should render channel and items', () => {
+      const xml = buildRssFeed(channel, [createItem()]);
+
+      expect(xml).toContain('<rss version="2.0"');
+      expect(xml).toContain('<title>Blog &amp; News</title>');
+      expect(xml).toContain('<title>Hello &lt;World&gt;</title>');
+      expect(xml).toContain('<pubDate>Thu, 01 Jan 2026 00:00:00 GMT</pubDate>');
+      expect(xml).toContain('<content:encoded><![CDATA[<p>Body</p>]]></content:encoded>');
+      expect(xml).toContain('<category>News</category>');
+    });
+
+    it('should keep CDATA sections well-formed', () => {
+      const xml = buildRssFeed(channel, [createItem({ content: 'a]]>b' })]);
+
+      expect(xml).toContain('<![CDATA[a]]]]><![CDATA[>b]]>');
+    });
+
+    it('should leave out content for protected posts', () => {
+      const xml = buildRssFeed(channel, [createItem({ content: null })]);
+
+      expect(xml).not.toContain('content:encoded>');
+    });
+  });
+
+  describe('buildAtomFeed', () => {
+    it('should render feed and entries', () => {
+      const xml = buildAtomFeed(channel, [createItem()]);
+
+      expect(xml).toContain('<feed xmlns="http://www.w3.org/2005/Atom">');
+      expect(xml).toContain('<updated>2026-01-02T00:00:00.000Z</updated>');
+      expect(xml).toContain('<id>urn:uuid:post-uuid</id>');
+      expect(xml).toContain('<content type="html">&lt;p&gt;Body&lt;/p&gt;</content>');
+      expect(xml).toContain('<category term="News"/>');
+    });
+  });
+});
@@ -0,0 +1,271 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+
+import { databaseService } from '../../src/services/database';
+import { menuService } from '../../src/services/menu';
+import { pageService } from '../../src/services/page';
+import { postService } from '../../src/services/post';
+import { postMetaService } from '../../src/services/post-meta';
+import { termService } from '../../src/services/term';
+import type { NavMenuItem, PostMetaMap, Term } from '../../src/types';
+
+// Mock the database service
+vi.mock('../../src/services/database', () => ({
+  databaseService: {
+    getClient: vi.fn(),
+  },
+}));
+
+// Mock the services menus are built on
+vi.mock('../../src/services/term', () => ({
+  termService: {
+    getObjectIdsByTermSlug: vi.fn(),
+    getTermsByIds: vi.fn(),
+    setObjectTerms: vi.fn(),
+  },
+}));
+
+vi.mock('../../src/services/post', () => ({
+  postService: {
+    deletePost: vi.fn(),
+    getPostType: vi.fn(),
+  },
+}));
+
+vi.mock('../../src/services/page', () => ({
+  pageService: {
+    getPagePaths: vi.fn(),
+  },
+}));
+
+vi.mock('../../src/services/post-meta', () => ({
+  postMetaService: {
+    attachMeta: vi.fn(),
+    setMeta: vi.fn(),
+  },
+}));
+
+const menu: Term = {
+  id: 7,
+  taxonomyId: 7,
+  name: 'Main',
+  slug: 'main',
+  taxonomy: 'nav_menu',
+  description: null,
+  parentId: null,
+  count: 4,
+};
+
+const itemRecord = (
+  id: number,
+  parentUuid: string,
+  menuOrder: number,
+  meta: PostMetaMap,
+  title = ''
+) => ({
+  id,
+  uuid: `item-${id}`,
+  post_title: title,
+  post_parent: parentUuid,
+  menu_order: menuOrder,
+  meta,
+});
+
+const menuItem = (id: number, parentId: number | null): NavMenuItem => ({
+  id,
+  menuId: menu.id,
+  title: '',
+  type: 'custom',
+  objectId: null,
+  url: 'https://example.com',
+  parentId,
+  menuOrder: 0,
+});
+
+describe('MenuService', () => {
+  let mockPrismaClient: {
+    $transaction: ReturnType<typeof vi.fn>;
+    post: {
+      findMany: ReturnType<typeof vi.fn>;
+      create: ReturnType<typeof vi.fn>;
+      update: ReturnType<typeof vi.fn>;
+      updateMany: ReturnType<typeof vi.fn>;
+    };
+  };
+
+  // Item posts returned first, their targets second
+  const mockItems = (records: ReturnType<typeof itemRecord>[]) => {
+    vi.mocked(termService.getObjectIdsByTermSlug).mockResolvedValue(records.map((r) => r.id));
+    mockPrismaClient.post.findMany.mockResolvedValueOnce(
+      records.map(({ meta: _meta, ...record }) => record)
+    );
+    vi.mocked(postMetaService.attachMeta).mockImplementation(async (posts) => {
+      for (const post of posts) {
+        post.meta = records.find((record) => record.id === post.id)?.meta;
+      }
+    });
+  };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+
+    mockPrismaClient = {
+      $transaction: vi.fn().mockResolvedValue([]),
+      post: {
+        findMany: vi.fn(),
+        create: vi.fn(),
+        update: vi.fn(),
+        updateMany: vi.fn().mockResolvedValue({ count: 0 }),
+      },
+    };
+
+    vi.mocked(databaseService.getClient).mockReturnValue(mockPrismaClient as never);
+  });
+
+  describe('getMenuTree', () => {
+    it('should nest items in menu order and resolve their titles and URLs', async () => {
+      mockItems([
+        itemRecord(1, '', 1, { menu_item_type: 'page', menu_item_object_id: 20 }),
+        itemRecord(2, '', 0, { menu_item_type: 'post', menu_item_object_id: 10 }, 'Read this'),
+        itemRecord(3, 'item-1', 0, { menu_item_type: 'term', menu_item_object_id: 30 }),
+        itemRecord(
+          4,
+          'item-1',
+          1,
+          { menu_item_type: 'custom', menu_item_url: 'https://x.org' },
+          'X'
+        ),
+      ]);
+      mockPrismaClient.post.findMany.mockResolvedValueOnce([
+        {
+          id: 10,
+          uuid: 'p10',
+          post_title: 'Hello',
+          post_name: 'hello',
+          post_type: 'post',
+          locale: 'fr',
+        },
+        {
+          id: 20,
+          uuid: 'p20',
+          post_title: 'Team',
+          post_name: 'team',
+          post_type: 'page',
+          locale: 'en',
+        },
+      ]);
+      vi.mocked(termService.getTermsByIds).mockResolvedValue([
+        { ...menu, id: 30, name: 'News', slug: 'news', taxonomy: 'category' },
+      ]);
+      vi.mocked(pageService.getPagePaths).mockResolvedValue(new Map([['p20', 'about/team']]));
+
+      const tree = await menuService.getMenuTree(menu);
+
+      expect(tree.items.map((item) => [item.id, item.title, item.url])).toEqual([
+        [2, 'Read this', 'http://localhost:3000/fr/hello'],
+        [1, 'Team', 'http://localhost:3000/about/team'],
+      ]);
+      expect(tree.items[1].children.map((item) => [item.title, item.url])).toEqual([
+        ['News', 'http://localhost:3000/category/news'],
+        ['X', 'https://x.org'],
+      ]);
+    });
+
+    it('should leave out items whose target is not published, with their children', async () => {
+      mockItems([
+        itemRecord(1, '', 0, { menu_item_type: 'post', menu_item_object_id: 10 }),
+        itemRecord(
+          2,
+          'item-1',
+          0,
+          { menu_item_type: 'custom', menu_item_url: 'https://x.org' },
+          'X'
+        ),
+      ]);
+      mockPrismaClient.post.findMany.mockResolvedValueOnce([]);
+
+      const tree = await menuService.getMenuTree(menu);
+
+      expect(tree.items).toEqual([]);
+    });
+  });
+
+  describe('addItem', () => {
+    it('should put new items after their siblings and assign them to the menu', async () => {
+      mockPrismaClient.$transaction.mockImplementation((callback) => callback(mockPrismaClient));
+      mockItems([
+        itemRecord(1, '', 0, { menu_item_type: 'custom', menu_item_url: 'https://a.org' }, 'A'),
+        itemRecord(2, '', 3, { menu_item_type: 'custom', menu_item_url: 'https://b.org' }, 'B'),
+      ]);
+      mockPrismaClient.post.create.mockImplementation(async ({ data }) => ({
+        id: 5,
+        uuid: 'item-5',
+        post_title: data.post_title,
+        post_parent: data.post_parent,
+        menu_order: data.menu_order,
+      }));
+
+      const item = await menuService.addItem(menu, { type: 'post', objectId: 10 }, 'editor-a');
+
+      expect(mockPrismaClient.post.create).toHaveBeenCalledWith(
+        expect.objectContaining({
+          data: expect.objectContaining({ post_type: 'nav_menu_item', menu_order: 4 }),
+        })
+      );
+      // The item, its menu and its meta are written in one transaction
+      expect(mockPrismaClient.$transaction).toHaveBeenCalledTimes(1);
+      expect(termService.setObjectTerms).toHaveBeenCalledWith(5, 'nav_menu', [7], mockPrismaClient);
+      expect(postMetaService.setMeta).toHaveBeenCalledWith(
+        5,
+        'menu_item_object_id',
+        10,
+        mockPrismaClient
+      );
+      expect(item).toMatchObject({ id: 5, type: 'post', objectId: 10, parentId: null });
+    });
+  });
+
+  describe('deleteItem', () => {
+    it('should move the children of a removed item up to its parent', async () => {
+      mockItems([
+        itemRecord(1, '', 0, { menu_item_type: 'custom', menu_item_url: 'https://a.org' }, 'A'),
+        itemRecord(
+          2,
+          'item-1',
+          0,
+          { menu_item_type: 'custom', menu_item_url: 'https://b.org' },
+          'B'
+        ),
+      ]);
+
+      const deleted = await menuService.deleteItem(menu, 2);
+
+      expect(deleted).toBe(true);
+      expect(mockPrismaClient.post.updateMany).toHaveBeenCalledWith({
+        where: { post_type: 'nav_menu_item', post_parent: 'item-2' },
+        data: { post_parent: 'item-1' },
+      });
+      expect(postService.deletePost).toHaveBeenCalledWith(2);
+    });
+  });
+
+  describe('getReorderError', () => {
+    it('should reject nesting an item under one of its descendants', () => {
+      const items = [menuItem(1, null), menuItem(2, 1), menuItem(3, 2)];
+
+      expect(menuService.getReorderError(items, [{ id: 1, parentId: 3, menuOrder: 0 }])).toBe(
+        'An item cannot be nested under itself or one of its descendants'
+      );
+      expect(menuService.getReorderError(items, [{ id: 3, parentId: null, menuOrder: 0 }])).toBe(
+        null
+      );
+    });
+
+    it('should reject items of other menus', () => {
+      const items = [menuItem(1, null)];
+
+      expect(menuService.getReorderError(items, [{ id: 9, parentId: null, menuOrder: 0 }])).toBe(
+        'One or more items do not belong to this menu'
+      );
+    });
+  });
+});
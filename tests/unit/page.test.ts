@@ -0,0 +1,173 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+
+import { databaseService } from '../../src/services/database';
+import { pageService } from '../../src/services/page';
+
+// Mock the database service
+vi.mock('../../src/services/database', () => ({
+  databaseService: {
+    getClient: vi.fn(),
+  },
+}));
+
+function createPrismaPage(overrides: Record<string, unknown> = {}) {
+  return {
+    id: 1,
+    uuid: 'page-1',
+    post_title: 'Page',
+    post_name: 'page',
+    post_status: 'publish',
+    post_parent: '',
+    menu_order: 0,
+    ...overrides,
+  };
+}
+
+describe('PageService', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  describe('getPageTree', () => {
+    it('should nest children under their parents ordered by menu order', async () => {
+      const mockPrismaClient = {
+        post: {
+          findMany: vi.fn().mockResolvedValue([
+            createPrismaPage({ id: 1, uuid: 'about', post_title: 'About', menu_order: 2 }),
+            createPrismaPage({ id: 2, uuid: 'home', post_title: 'Home', menu_order: 1 }),
+            createPrismaPage({
+              id: 3,
+              uuid: 'team',
+              post_title: 'Team',
+              post_parent: 'about',
+              menu_order: 2,
+            }),
+            createPrismaPage({
+              id: 4,
+              uuid: 'history',
+              post_title: 'History',
+              post_parent: 'about',
+              menu_order: 1,
+            }),
+            createPrismaPage({ id: 5, uuid: 'orphan', post_parent: 'missing' }),
+          ]),
+        },
+      };
+
+      vi.mocked(databaseService.getClient).mockReturnValue(mockPrismaClient as never);
+
+      const tree = await pageService.getPageTree();
+
+      expect(tree.map((node) => node.title)).toEqual(['Home', 'About']);
+      expect(tree[1].children.map((node) => node.title)).toEqual(['History', 'Team']);
+      expect(tree[0].parentId).toBeNull();
+    });
+  });
+
+  describe('getAncestors', () => {
+    it('should return ancestors from the top-level page down', async () => {
+      const pages: Record<string, ReturnType<typeof createPrismaPage>> = {
+        root: createPrismaPage({ id: 1, uuid: 'root', post_title: 'About' }),
+        middle: createPrismaPage({ id: 2, uuid: 'middle', post_parent: 'root' }),
+      };
+      const mockPrismaClient = {
+        post: {
+          findFirst: vi
+            .fn()
+            .mockImplementation(({ where }: { where: { id?: number; uuid?: string } }) =>
+              Promise.resolve(
+                where.uuid
+                  ? (pages[where.uuid] ?? null)
+                  : createPrismaPage({ id: 3, uuid: 'leaf', post_parent: 'middle' })
+              )
+            ),
+        },
+      };
+
+      vi.mocked(databaseService.getClient).mockReturnValue(mockPrismaClient as never);
+
+      const ancestors = await pageService.getAncestors(3);
+
+      expect(ancestors?.map((page) => page.id)).toEqual([1, 2]);
+    });
+  });
+
+  describe('wouldCreateCycle', () => {
+    it('should detect a parent that descends from the page', async () => {
+      const parents: Record<string, string> = { child: 'page', grandchild: 'child' };
+      const mockPrismaClient = {
+        post: {
+          findFirst: vi
+            .fn()
+            .mockImplementation(({ where }: { where: { uuid: string } }) =>
+              Promise.resolve({ post_parent: parents[where.uuid] ?? '' })
+            ),
+        },
+      };
+
+      vi.mocked(databaseService.getClient).mockReturnValue(mockPrismaClient as never);
+
+      expect(await pageService.wouldCreateCycle('page', 'grandchild')).toBe(true);
+      expect(await pageService.wouldCreateCycle('page', 'page')).toBe(true);
+      expect(await pageService.wouldCreateCycle('other', 'grandchild')).toBe(false);
+    });
+  });
+
+  describe('getPageIdByPath', () => {
+    it('should resolve each segment under the previous page', async () => {
+      const mockPrismaClient = {
+        post: {
+          findFirst: vi
+            .fn()
+            .mockResolvedValueOnce({ id: 1, uuid: 'about' })
+            .mockResolvedValueOnce({ id: 3, uuid: 'team' }),
+        },
+      };
+
+      vi.mocked(databaseService.getClient).mockReturnValue(mockPrismaClient as never);
+
+      const pageId = await pageService.getPageIdByPath('about/team/');
+
+      expect(pageId).toBe(3);
+      expect(mockPrismaClient.post.findFirst).toHaveBeenLastCalledWith(
+        expect.objectContaining({
+          where: expect.objectContaining({
+            post_name: 'team',
+            post_parent: 'about',
+            locale: 'en',
+          }),
+        })
+      );
+    });
+
+    it('should only match pages in the requested locale', async () => {
+      const mockPrismaClient = {
+        post: {
+          findFirst: vi.fn().mockResolvedValue({ id: 5, uuid: 'a-propos' }),
+        },
+      };
+
+      vi.mocked(databaseService.getClient).mockReturnValue(mockPrismaClient as never);
+
+      expect(await pageService.getPageIdByPath('a-propos', 'fr')).toBe(5);
+      expect(mockPrismaClient.post.findFirst).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: expect.objectContaining({ post_name: 'a-propos', locale: 'fr' }),
+        })
+      );
+    });
+
+    it('should return null when a segment does not match', async () => {
+      const mockPrismaClient = {
+        post: {
+          findFirst: vi.fn().mockResolvedValue(null),
+        },
+      };
+
+      vi.mocked(databaseService.getClient).mockReturnValue(mockPrismaClient as never);
+
+      expect(await pageService.getPageIdByPath('missing/page')).toBeNull();
+      expect(mockPrismaClient.post.findFirst).toHaveBeenCalledTimes(1);
+    });
+  });
+});
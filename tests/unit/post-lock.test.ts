@@ -0,0 +1,155 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+
+import { databaseService } from '../../src/services/database';
+import { postLockService } from '../../src/services/post-lock';
+import { redisService } from '../../src/services/redis';
+
+// Mock the database service
+vi.mock('../../src/services/database', () => ({
+  databaseService: {
+    getClient: vi.fn(),
+  },
+}));
+
+// Mock the Redis service
+vi.mock('../../src/services/redis', () => ({
+  redisService: {
+    isEnabled: vi.fn(),
+    getJson: vi.fn(),
+    set: vi.fn(),
+    setIfNotExists: vi.fn(),
+    del: vi.fn(),
+  },
+}));
+
+const inOneMinute = () => new Date(Date.now() + 60 * 1000);
+
+describe('PostLockService', () => {
+  describe('with Redis', () => {
+    beforeEach(() => {
+      vi.clearAllMocks();
+      vi.mocked(redisService.isEnabled).mockReturnValue(true);
+    });
+
+    it('should acquire a free lock', async () => {
+      vi.mocked(redisService.setIfNotExists).mockResolvedValue(true);
+
+      const { acquired, lock } = await postLockService.acquireLock(1, 'editor-a');
+
+      expect(acquired).toBe(true);
+      expect(lock.userId).toBe('editor-a');
+      expect(redisService.setIfNotExists).toHaveBeenCalledWith(
+        'post:lock:1',
+        expect.any(String),
+        expect.any(Number)
+      );
+    });
+
+    it('should refuse a lock held by someone else', async () => {
+      vi.mocked(redisService.setIfNotExists).mockResolvedValue(false);
+      vi.mocked(redisService.getJson).mockResolvedValue({
+        userId: 'editor-a',
+        acquiredAt: new Date().toISOString(),
+        expiresAt: inOneMinute().toISOString(),
+      });
+
+      const { acquired, lock } = await postLockService.acquireLock(1, 'editor-b');
+
+      expect(acquired).toBe(false);
+      expect(lock.userId).toBe('editor-a');
+      expect(redisService.set).not.toHaveBeenCalled();
+    });
+
+    it('should renew a lock for its holder, keeping when it was acquired', async () => {
+      const acquiredAt = new Date('2026-01-01T00:00:00Z');
+      vi.mocked(redisService.setIfNotExists).mockResolvedValue(false);
+      vi.mocked(redisService.getJson).mockResolvedValue({
+        userId: 'editor-a',
+        acquiredAt: acquiredAt.toISOString(),
+        expiresAt: inOneMinute().toISOString(),
+      });
+
+      const { acquired, lock } = await postLockService.acquireLock(1, 'editor-a');
+
+      expect(acquired).toBe(true);
+      expect(lock.acquiredAt).toEqual(acquiredAt);
+      expect(redisService.set).toHaveBeenCalled();
+    });
+
+    it('should hand the lock over on takeover', async () => {
+      const { acquired, lock } = await postLockService.acquireLock(1, 'editor-b', true);
+
+      expect(acquired).toBe(true);
+      expect(lock.userId).toBe('editor-b');
+      expect(redisService.setIfNotExists).not.toHaveBeenCalled();
+      expect(redisService.set).toHaveBeenCalledWith(
+        'post:lock:1',
+        expect.stringContaining('editor-b'),
+        expect.any(Number)
+      );
+    });
+  });
+
+  describe('without Redis', () => {
+    let mockPrismaClient: {
+      postLock: {
+        findUnique: ReturnType<typeof vi.fn>;
+        create: ReturnType<typeof vi.fn>;
+        updateMany: ReturnType<typeof vi.fn>;
+      };
+    };
+
+    beforeEach(() => {
+      vi.clearAllMocks();
+      vi.mocked(redisService.isEnabled).mockReturnValue(false);
+
+      mockPrismaClient = {
+        postLock: {
+          findUnique: vi.fn().mockResolvedValue(null),
+          create: vi.fn().mockResolvedValue({}),
+          updateMany: vi.fn().mockResolvedValue({ count: 1 }),
+        },
+      };
+
+      vi.mocked(databaseService.getClient).mockReturnValue(mockPrismaClient as never);
+    });
+
+    it('should store a new lock in the database', async () => {
+      const { acquired } = await postLockService.acquireLock(1, 'editor-a');
+
+      expect(acquired).toBe(true);
+      expect(mockPrismaClient.postLock.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({ post_id: 1, user_id: 'editor-a' }),
+      });
+    });
+
+    it('should take over an expired lock', async () => {
+      const expiresAt = new Date(Date.now() - 1000);
+      mockPrismaClient.postLock.findUnique.mockResolvedValue({
+        post_id: 1,
+        user_id: 'editor-a',
+        acquired_at: new Date(),
+        expires_at: expiresAt,
+      });
+
+      const { acquired } = await postLockService.acquireLock(1, 'editor-b');
+
+      expect(acquired).toBe(true);
+      expect(mockPrismaClient.postLock.updateMany).toHaveBeenCalledWith({
+        where: { post_id: 1, user_id: 'editor-a', expires_at: expiresAt },
+        data: expect.objectContaining({ user_id: 'editor-b' }),
+      });
+    });
+
+    it('should ignore expired locks when reading', async () => {
+      mockPrismaClient.postLock.findUnique.mockResolvedValue({
+        post_id: 1,
+        user_id: 'editor-a',
+        acquired_at: new Date(),
+        expires_at: new Date(Date.now() - 1000),
+      });
+
+      expect(await postLockService.getLock(1)).toBeNull();
+    });
+  });
+});
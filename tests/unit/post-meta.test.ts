@@ -0,0 +1,126 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+
+import { databaseService } from '../../src/services/database';
+import { postMetaService } from '../../src/services/post-meta';
+import { postTypeRegistry } from '../../src/services/post-type-registry';
+import type { PostMetaMap } from '../../src/types';
+import { postQuerySchema, setPostMetaSchema } from '../../src/utils/schemas';
+
+// Mock the database service
+vi.mock('../../src/services/database', () => ({
+  databaseService: {
+    getClient: vi.fn(),
+  },
+}));
+
+function createPrismaMeta(overrides: Record<string, unknown> = {}) {
+  return {
+    meta_id: 1,
+    post_id: 1,
+    meta_key: 'seo_title',
+    meta_value: 'Title',
+    meta_type: 'string',
+    updated_at: new Date('2026-01-01T00:00:00Z'),
+    ...overrides,
+  };
+}
+
+describe('Post Meta Service', () => {
+  const mockPrisma = {
+    postMeta: {
+      findMany: vi.fn(),
+      findUnique: vi.fn(),
+      upsert: vi.fn(),
+    },
+  };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(databaseService.getClient).mockReturnValue(mockPrisma as never);
+    mockPrisma.postMeta.upsert.mockImplementation(({ create }) =>
+      Promise.resolve(createPrismaMeta(create))
+    );
+  });
+
+  describe('setMeta', () => {
+    it.each([
+      ['Title', 'string', 'Title'],
+      [42, 'number', '42'],
+      [false, 'boolean', 'false'],
+      [{ layout: 'wide' }, 'json', '{"layout":"wide"}'],
+      [null, 'json', 'null'],
+    ])('should store %j as %s', async (value, type, text) => {
+      const entry = await postMetaService.setMeta(1, 'key', value);
+
+      expect(mockPrisma.postMeta.upsert).toHaveBeenCalledWith({
+        where: { post_id_meta_key: { post_id: 1, meta_key: 'key' } },
+        create: { post_id: 1, meta_key: 'key', meta_value: text, meta_type: type },
+        update: { meta_value: text, meta_type: type },
+      });
+      expect(entry).toMatchObject({ key: 'key', value, type });
+    });
+  });
+
+  describe('getMissingMeta', () => {
+    it('should accept a type change when the post has the required meta', async () => {
+      postTypeRegistry.register({
+        name: 'event',
+        label: 'Events',
+        statuses: ['draft', 'publish'],
+        requiredMeta: ['starts_at'],
+        permissionPrefix: 'post',
+        hierarchical: false,
+      });
+      mockPrisma.postMeta.findMany.mockResolvedValue([
+        createPrismaMeta({ meta_key: 'seo_title' }),
+        createPrismaMeta({ meta_key: 'starts_at', meta_value: '2026-05-01' }),
+      ]);
+
+      expect(await postMetaService.getMissingMeta(1, 'event')).toEqual([]);
+    });
+  });
+
+  describe('attachMeta', () => {
+    it('should attach the requested keys to each post', async () => {
+      mockPrisma.postMeta.findMany.mockResolvedValue([
+        createPrismaMeta({
+          post_id: 1,
+          meta_key: 'noindex',
+          meta_value: 'true',
+          meta_type: 'boolean',
+        }),
+        createPrismaMeta({ post_id: 2, meta_key: 'seo_title', meta_value: 'Second' }),
+      ]);
+      const posts: { id: number; meta?: PostMetaMap }[] = [{ id: 1 }, { id: 2 }, { id: 3 }];
+
+      await postMetaService.attachMeta(posts, ['noindex', 'seo_title']);
+
+      expect(mockPrisma.postMeta.findMany).toHaveBeenCalledWith({
+        where: { post_id: { in: [1, 2, 3] }, meta_key: { in: ['noindex', 'seo_title'] } },
+      });
+      expect(posts).toEqual([
+        { id: 1, meta: { noindex: true } },
+        { id: 2, meta: { seo_title: 'Second' } },
+        { id: 3, meta: {} },
+      ]);
+    });
+  });
+
+  describe('schemas', () => {
+    it('should split the list of meta keys to include', () => {
+      const query = postQuerySchema.parse({ meta: 'seo_title, canonical_url' });
+
+      expect(query.meta).toEqual(['seo_title', 'canonical_url']);
+    });
+
+    it('should reject invalid meta keys', () => {
+      expect(postQuerySchema.safeParse({ meta: 'seo title' }).success).toBe(false);
+      expect(postQuerySchema.safeParse({ metaKey: 'a/b' }).success).toBe(false);
+    });
+
+    it('should require a value when setting meta', () => {
+      expect(setPostMetaSchema.safeParse({}).success).toBe(false);
+      expect(setPostMetaSchema.safeParse({ value: null }).success).toBe(true);
+    });
+  });
+});
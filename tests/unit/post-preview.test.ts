@@ -0,0 +1,126 @@
+import jwt from 'jsonwebtoken';
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+
+import { config } from '../../config/index.js';
+import { databaseService } from '../../src/services/database';
+import { postPreviewService } from '../../src/services/post-preview';
+import { revisionService } from '../../src/services/revision';
+
+// Mock the database service
+vi.mock('../../src/services/database', () => ({
+  databaseService: {
+    getClient: vi.fn(),
+  },
+}));
+
+// Mock the revision service
+vi.mock('../../src/services/revision', () => ({
+  revisionService: {
+    createRevision: vi.fn(),
+    getRevision: vi.fn(),
+  },
+}));
+
+const revision = {
+  id: 7,
+  postId: 1,
+  title: 'Draft title',
+  content: 'Draft content',
+  excerpt: null,
+  revisedBy: 'author-uuid',
+  createdAt: new Date('2026-01-01T00:00:00Z'),
+};
+
+function createPrismaLink(overrides: Record<string, unknown> = {}) {
+  return {
+    id: 'link-uuid',
+    post_id: 1,
+    revision_id: 7,
+    created_by: 'author-uuid',
+    expires_at: new Date(Date.now() + 60 * 60 * 1000),
+    revoked_at: null,
+    created_at: new Date(),
+    ...overrides,
+  };
+}
+
+describe('PostPreviewService', () => {
+  let mockPrismaClient: {
+    postPreviewLink: {
+      create: ReturnType<typeof vi.fn>;
+      findUnique: ReturnType<typeof vi.fn>;
+    };
+  };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+
+    mockPrismaClient = {
+      postPreviewLink: {
+        create: vi.fn().mockResolvedValue(createPrismaLink()),
+        findUnique: vi.fn().mockResolvedValue(createPrismaLink()),
+      },
+    };
+
+    vi.mocked(databaseService.getClient).mockReturnValue(mockPrismaClient as never);
+    vi.mocked(revisionService.createRevision).mockResolvedValue(revision);
+    vi.mocked(revisionService.getRevision).mockResolvedValue(revision);
+  });
+
+  it('should pin a snapshot of the post to a new link', async () => {
+    const snapshot = { title: 'Draft title', content: 'Draft content', excerpt: null };
+
+    const { link, token } = await postPreviewService.createLink(1, snapshot, 'author-uuid', 24);
+
+    expect(revisionService.createRevision).toHaveBeenCalledWith(1, snapshot, 'author-uuid');
+    expect(mockPrismaClient.postPreviewLink.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({ post_id: 1, revision_id: 7, created_by: 'author-uuid' }),
+    });
+    expect(link.revisionId).toBe(7);
+    expect(token).toEqual(expect.any(String));
+  });
+
+  it('should resolve a token to the pinned revision', async () => {
+    const { token } = await postPreviewService.createLink(
+      1,
+      { title: 'Draft title', content: 'Draft content', excerpt: null },
+      'author-uuid'
+    );
+
+    const resolved = await postPreviewService.resolveToken(token);
+
+    expect(mockPrismaClient.postPreviewLink.findUnique).toHaveBeenCalledWith({
+      where: { id: 'link-uuid' },
+    });
+    expect(revisionService.getRevision).toHaveBeenCalledWith(1, 7);
+    expect(resolved?.revision).toEqual(revision);
+  });
+
+  it('should not resolve a revoked link', async () => {
+    const { token } = await postPreviewService.createLink(
+      1,
+      { title: 'Draft title', content: 'Draft content', excerpt: null },
+      'author-uuid'
+    );
+    mockPrismaClient.postPreviewLink.findUnique.mockResolvedValue(
+      createPrismaLink({ revoked_at: new Date() })
+    );
+
+    expect(await postPreviewService.resolveToken(token)).toBeNull();
+  });
+
+  it('should not resolve a tampered token', async () => {
+    expect(await postPreviewService.resolveToken('not.a.token')).toBeNull();
+    expect(mockPrismaClient.postPreviewLink.findUnique).not.toHaveBeenCalled();
+  });
+
+  it('should not resolve a token signed for another audience', async () => {
+    const token = jwt.sign(
+      { linkId: 'link-uuid', postId: 1, scope: 'post_preview' },
+      config.jwt.secret
+    );
+
+    expect(await postPreviewService.resolveToken(token)).toBeNull();
+    expect(mockPrismaClient.postPreviewLink.findUnique).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,115 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+
+import { databaseService } from '../../src/services/database';
+import { kafkaService } from '../../src/services/kafka';
+import { postSchedulerService } from '../../src/services/post-scheduler';
+
+// Mock the database service
+vi.mock('../../src/services/database', () => ({
+  databaseService: {
+    getClient: vi.fn(),
+  },
+}));
+
+// Mock the kafka service
+vi.mock('../../src/services/kafka', () => ({
+  kafkaService: {
+    isEnabled: vi.fn().mockReturnValue(true),
+    publish: vi.fn().mockResolvedValue(undefined),
+  },
+}));
+
+function createPrismaPost(overrides: Record<string, unknown> = {}) {
+  return {
+    id: 1,
+    uuid: 'post-uuid',
+    post_title: 'Scheduled Post',
+    post_name: 'scheduled-post',
+    post_type: 'post',
+    post_author: 'author-uuid',
+    post_status: 'future',
+    post_date: new Date('2026-01-01T09:00:00Z'),
+    ...overrides,
+  };
+}
+
+describe('PostSchedulerService', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  describe('publishDuePosts', () => {
+    it('should publish due posts and emit an event for each', async () => {
+      const mockPrismaClient = {
+        post: {
+          findMany: vi.fn().mockResolvedValue([createPrismaPost()]),
+          updateMany: vi.fn().mockResolvedValue({ count: 1 }),
+        },
+        postTransition: {
+          create: vi.fn().mockResolvedValue({}),
+        },
+      };
+
+      vi.mocked(databaseService.getClient).mockReturnValue(mockPrismaClient as never);
+
+      const published = await postSchedulerService.publishDuePosts(
+        new Date('2026-01-01T10:00:00Z')
+      );
+
+      expect(published).toBe(1);
+      expect(mockPrismaClient.post.updateMany).toHaveBeenCalledWith({
+        where: { id: 1, post_status: 'future' },
+        data: { post_status: 'publish' },
+      });
+      expect(mockPrismaClient.postTransition.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({ post_id: 1, from_status: 'future', to_status: 'publish' }),
+      });
+      expect(kafkaService.publish).toHaveBeenCalledWith(
+        expect.objectContaining({
+          key: '1',
+          value: expect.objectContaining({ id: 1, scheduled: true }),
+        })
+      );
+    });
+
+    it('should skip posts already published by another instance', async () => {
+      const mockPrismaClient = {
+        post: {
+          findMany: vi.fn().mockResolvedValue([createPrismaPost()]),
+          updateMany: vi.fn().mockResolvedValue({ count: 0 }),
+        },
+        postTransition: {
+          create: vi.fn().mockResolvedValue({}),
+        },
+      };
+
+      vi.mocked(databaseService.getClient).mockReturnValue(mockPrismaClient as never);
+
+      const published = await postSchedulerService.publishDuePosts();
+
+      expect(published).toBe(0);
+      expect(mockPrismaClient.postTransition.create).not.toHaveBeenCalled();
+      expect(kafkaService.publish).not.toHaveBeenCalled();
+    });
+
+    it('should not emit events when kafka is disabled', async () => {
+      const mockPrismaClient = {
+        post: {
+          findMany: vi.fn().mockResolvedValue([createPrismaPost()]),
+          updateMany: vi.fn().mockResolvedValue({ count: 1 }),
+        },
+        postTransition: {
+          create: vi.fn().mockResolvedValue({}),
+        },
+      };
+
+      vi.mocked(databaseService.getClient).mockReturnValue(mockPrismaClient as never);
+      vi.mocked(kafkaService.isEnabled).mockReturnValueOnce(false);
+
+      const published = await postSchedulerService.publishDuePosts();
+
+      expect(published).toBe(1);
+      expect(kafkaService.publish).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,89 @@
+import { describe, it, expect, vi } from 'vitest';
+
+import { ROLE_PERMISSIONS } from '../../src/middleware/authorization';
+import { postTypeRegistry } from '../../src/services/post-type-registry';
+
+// Mock bcrypt
+vi.mock('bcrypt', () => ({
+  default: {
+    hash: vi.fn(),
+    compare: vi.fn(),
+  },
+}));
+
+// Declare a custom post type
+vi.mock('../../config/post-types', () => ({
+  customPostTypes: [
+    {
+      name: 'event',
+      label: 'Events',
+      statuses: ['draft', 'publish'],
+      requiredMeta: ['starts_at'],
+      permissionPrefix: 'event',
+      hierarchical: false,
+    },
+  ],
+}));
+
+describe('PostTypeRegistry', () => {
+  it('should list the built-in types followed by custom ones', () => {
+    expect(postTypeRegistry.list().map((type) => type.name)).toEqual([
+      'post',
+      'page',
+      'attachment',
+      'event',
+    ]);
+    expect(postTypeRegistry.isHierarchical('page')).toBe(true);
+    expect(postTypeRegistry.isHierarchical('event')).toBe(false);
+  });
+
+  it('should reject duplicate and invalid type names', () => {
+    const definition = {
+      name: 'event',
+      label: 'Events',
+      statuses: [],
+      requiredMeta: [],
+      permissionPrefix: 'event',
+      hierarchical: false,
+    };
+
+    expect(() => postTypeRegistry.register(definition)).toThrow();
+    expect(() => postTypeRegistry.register({ ...definition, name: 'Not A Type' })).toThrow();
+  });
+
+  it('should only allow the statuses a type declares', () => {
+    expect(postTypeRegistry.getStatusError('event', 'publish')).toBeNull();
+    expect(postTypeRegistry.getStatusError('event', 'trash')).toBeNull();
+    expect(postTypeRegistry.getStatusError('event', 'pending')).toEqual(expect.any(String));
+    expect(postTypeRegistry.getStatusError('post', 'pending')).toBeNull();
+  });
+
+  it('should report missing required meta', () => {
+    expect(postTypeRegistry.getMissingMeta('event', ['venue'])).toEqual(['starts_at']);
+    expect(postTypeRegistry.getMissingMeta('event', ['starts_at'])).toEqual([]);
+    expect(postTypeRegistry.getMissingMeta('post', [])).toEqual([]);
+  });
+
+  it('should name permissions after the type prefix', () => {
+    expect(postTypeRegistry.getPermission('event', 'update')).toBe('event:update');
+    expect(postTypeRegistry.getPermission('page', 'update')).toBe('post:update');
+  });
+
+  it('should restate type permissions as post permissions', () => {
+    const permissions = ['post:publish', 'event:update', 'user:read'];
+
+    expect(postTypeRegistry.toPostPermissions('event', permissions)).toEqual([
+      'post:update',
+      'user:read',
+    ]);
+    expect(postTypeRegistry.toPostPermissions('post', permissions)).toEqual(permissions);
+  });
+
+  it('should grant roles the same permissions over custom types as over posts', () => {
+    expect(ROLE_PERMISSIONS.editor).toEqual(
+      expect.arrayContaining(['event:publish', 'event:update_others'])
+    );
+    expect(ROLE_PERMISSIONS.contributor).toEqual(expect.arrayContaining(['event:create']));
+    expect(ROLE_PERMISSIONS.contributor).not.toContain('event:publish');
+  });
+});
@@ -0,0 +1,185 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+
+import { databaseService } from '../../src/services/database';
+import { postViewService } from '../../src/services/post-view';
+import { redisService } from '../../src/services/redis';
+
+// Mock the database service
+vi.mock('../../src/services/database', () => ({
+  databaseService: {
+    getClient: vi.fn(),
+  },
+}));
+
+// Mock the Redis service
+vi.mock('../../src/services/redis', () => ({
+  redisService: {
+    isEnabled: vi.fn(),
+    setIfNotExists: vi.fn(),
+    hIncrBy: vi.fn(),
+    hSetIfNotExists: vi.fn(),
+    hGetAll: vi.fn(),
+    exists: vi.fn(),
+    rename: vi.fn(),
+    del: vi.fn(),
+    delIfEquals: vi.fn(),
+  },
+}));
+
+const now = new Date('2026-03-10T15:30:00Z');
+
+describe('PostViewService', () => {
+  let mockTx: {
+    post: { updateMany: ReturnType<typeof vi.fn> };
+    postView: { upsert: ReturnType<typeof vi.fn> };
+    postViewBatch: {
+      findUnique: ReturnType<typeof vi.fn>;
+      create: ReturnType<typeof vi.fn>;
+      deleteMany: ReturnType<typeof vi.fn>;
+    };
+  };
+  let mockPrismaClient: {
+    $transaction: ReturnType<typeof vi.fn>;
+    postView: { groupBy: ReturnType<typeof vi.fn> };
+  };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+
+    mockTx = {
+      post: { updateMany: vi.fn().mockResolvedValue({ count: 1 }) },
+      postView: { upsert: vi.fn().mockResolvedValue({}) },
+      postViewBatch: {
+        findUnique: vi.fn().mockResolvedValue(null),
+        create: vi.fn().mockResolvedValue({}),
+        deleteMany: vi.fn().mockResolvedValue({ count: 0 }),
+      },
+    };
+    mockPrismaClient = {
+      $transaction: vi.fn((callback: (tx: typeof mockTx) => Promise<unknown>) => callback(mockTx)),
+      postView: { groupBy: vi.fn().mockResolvedValue([]) },
+    };
+
+    vi.mocked(databaseService.getClient).mockReturnValue(mockPrismaClient as never);
+    vi.mocked(redisService.isEnabled).mockReturnValue(true);
+  });
+
+  describe('recordView', () => {
+    it('should buffer the first view of a visitor under the day it happened', async () => {
+      vi.mocked(redisService.setIfNotExists).mockResolvedValue(true);
+
+      const counted = await postViewService.recordView(1, { ip: '10.0.0.1' }, now);
+
+      expect(counted).toBe(true);
+      expect(redisService.hIncrBy).toHaveBeenCalledWith('post:views:pending', '1:2026-03-10', 1);
+      expect(mockPrismaClient.$transaction).not.toHaveBeenCalled();
+    });
+
+    it('should not count repeat views within the window', async () => {
+      vi.mocked(redisService.setIfNotExists).mockResolvedValue(false);
+
+      const counted = await postViewService.recordView(1, { userId: 'user-uuid' }, now);
+
+      expect(counted).toBe(false);
+      expect(redisService.hIncrBy).not.toHaveBeenCalled();
+    });
+
+    it('should write views directly without Redis', async () => {
+      vi.mocked(redisService.isEnabled).mockReturnValue(false);
+
+      await postViewService.recordView(1, { ip: '10.0.0.1' }, now);
+
+      expect(mockTx.post.updateMany).toHaveBeenCalledWith({
+        where: { id: 1 },
+        data: { view_count: { increment: 1 } },
+      });
+    });
+  });
+
+  describe('flush', () => {
+    beforeEach(() => {
+      vi.mocked(redisService.setIfNotExists).mockResolvedValue(true);
+      vi.mocked(redisService.delIfEquals).mockResolvedValue(true);
+    });
+
+    it('should write the buffered counts and clear the buffer', async () => {
+      vi.mocked(redisService.exists).mockResolvedValue(false);
+      vi.mocked(redisService.rename).mockResolvedValue(true);
+      vi.mocked(redisService.hGetAll).mockResolvedValue({
+        batch: 'batch-1',
+        '1:2026-03-10': '3',
+        '2:2026-03-10': '1',
+      });
+      mockTx.post.updateMany
+        .mockResolvedValueOnce({ count: 1 })
+        .mockResolvedValueOnce({ count: 0 });
+
+      const flushed = await postViewService.flush();
+
+      expect(flushed).toBe(4);
+      expect(mockTx.postView.upsert).toHaveBeenCalledTimes(1);
+      expect(mockTx.postView.upsert).toHaveBeenCalledWith({
+        where: { post_id_day: { post_id: 1, day: new Date('2026-03-10') } },
+        create: { post_id: 1, day: new Date('2026-03-10'), views: 3 },
+        update: { views: { increment: 3 } },
+      });
+      expect(mockTx.postViewBatch.create).toHaveBeenCalledWith({ data: { id: 'batch-1' } });
+      expect(redisService.del).toHaveBeenCalledWith('post:views:flushing');
+      expect(redisService.delIfEquals).toHaveBeenCalledWith(
+        'post:views:flush-lock',
+        vi.mocked(redisService.setIfNotExists).mock.calls[0]?.[1]
+      );
+    });
+
+    it('should skip while another instance holds the flush lock', async () => {
+      vi.mocked(redisService.setIfNotExists).mockResolvedValue(false);
+
+      expect(await postViewService.flush()).toBe(0);
+      expect(redisService.rename).not.toHaveBeenCalled();
+      expect(redisService.hGetAll).not.toHaveBeenCalled();
+      expect(redisService.delIfEquals).not.toHaveBeenCalled();
+    });
+
+    it('should not count a retried buffer that was already written', async () => {
+      vi.mocked(redisService.exists).mockResolvedValue(true);
+      vi.mocked(redisService.hGetAll).mockResolvedValue({
+        batch: 'batch-1',
+        '1:2026-03-10': '3',
+      });
+      mockTx.postViewBatch.findUnique.mockResolvedValue({ id: 'batch-1' });
+
+      expect(await postViewService.flush()).toBe(0);
+      expect(mockTx.post.updateMany).not.toHaveBeenCalled();
+      expect(redisService.del).toHaveBeenCalledWith('post:views:flushing');
+    });
+
+    it('should keep the buffer when writing fails', async () => {
+      vi.mocked(redisService.exists).mockResolvedValue(true);
+      vi.mocked(redisService.hGetAll).mockResolvedValue({ '1:2026-03-10': '3' });
+      mockPrismaClient.$transaction.mockRejectedValue(new Error('connection lost'));
+
+      expect(await postViewService.flush()).toBe(0);
+      expect(redisService.rename).not.toHaveBeenCalled();
+      expect(redisService.del).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('getRankedPostIds', () => {
+    it('should sum the daily counts of the period', async () => {
+      mockPrismaClient.postView.groupBy.mockResolvedValue([
+        { post_id: 2, _sum: { views: 9 } },
+        { post_id: 1, _sum: { views: 4 } },
+      ]);
+
+      const ranked = await postViewService.getRankedPostIds('7d', 0, 10, now);
+
+      expect(mockPrismaClient.postView.groupBy).toHaveBeenCalledWith(
+        expect.objectContaining({ where: { day: { gte: new Date('2026-03-04') } } })
+      );
+      expect(ranked).toEqual([
+        { postId: 2, views: 9 },
+        { postId: 1, views: 4 },
+      ]);
+    });
+  });
+});
@@ -0,0 +1,582 @@
+import bcrypt from 'bcrypt';
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+
+import { ROLE_PERMISSIONS } from '../../src/middleware/authorization';
+import { databaseService } from '../../src/services/database';
+import { postService } from '../../src/services/post';
+import { termService } from '../../src/services/term';
+import type { Post } from '../../src/types';
+
+// Mock the database service
+vi.mock('../../src/services/database', () => ({
+  databaseService: {
+    getClient: vi.fn(),
+  },
+}));
+
+// Mock bcrypt
+vi.mock('bcrypt', () => ({
+  default: {
+    hash: vi.fn().mockResolvedValue('hashed_password'),
+    compare: vi.fn(),
+  },
+}));
+
+// Mock the term service
+vi.mock('../../src/services/term', () => ({
+  termService: {
+    getObjectTerms: vi.fn().mockResolvedValue(new Map()),
+    removeObjectTerms: vi.fn().mockResolvedValue(undefined),
+    setObjectTerms: vi.fn().mockResolvedValue(undefined),
+  },
+}));
+
+// Mock the authentication middleware
+vi.mock('../../src/middleware/authentication', () => ({
+  authenticateToken: vi.fn(),
+  optionalAuth: vi.fn(),
+}));
+
+function createPrismaPost(overrides: Record<string, unknown> = {}) {
+  return {
+    id: 1,
+    uuid: 'post-uuid',
+    post_title: 'Title',
+    post_content: 'Content',
+    post_excerpt: null,
+    post_status: 'draft',
+    post_type: 'post',
+    post_author: 'author-uuid',
+    post_name: 'title',
+    post_password: '',
+    comment_status: 'closed',
+    ping_status: 'closed',
+    guid: null,
+    post_parent: '',
+    menu_order: 0,
+    comment_count: 0,
+    view_count: 0,
+    post_date: new Date('2026-01-01T00:00:00Z'),
+    created_at: new Date('2026-01-01T00:00:00Z'),
+    post_modified: new Date('2026-01-01T00:00:00Z'),
+    locale: 'en',
+    translation_group: null,
+    ...overrides,
+  };
+}
+
+describe('PostService', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  describe('slug history', () => {
+    it('should keep the old slug when a post is renamed', async () => {
+      const tx = {
+        post: {
+          findUnique: vi.fn().mockResolvedValue(createPrismaPost({ post_name: 'old-slug' })),
+          update: vi.fn().mockResolvedValue(createPrismaPost({ post_name: 'new-slug' })),
+        },
+        postSlug: {
+          upsert: vi.fn().mockResolvedValue({}),
+          deleteMany: vi.fn().mockResolvedValue({ count: 0 }),
+        },
+      };
+      const mockPrismaClient = {
+        $transaction: vi.fn().mockImplementation((callback) => callback(tx)),
+      };
+
+      vi.mocked(databaseService.getClient).mockReturnValue(mockPrismaClient as never);
+
+      const post = await postService.updatePost(1, { slug: 'new-slug' });
+
+      expect(post?.slug).toBe('new-slug');
+      expect(tx.postSlug.upsert).toHaveBeenCalledWith(
+        expect.objectContaining({ create: { post_id: 1, slug: 'old-slug' } })
+      );
+      expect(tx.postSlug.deleteMany).toHaveBeenCalledWith({
+        where: { post_id: 1, slug: 'new-slug' },
+      });
+    });
+
+    it('should resolve an old slug to the current one', async () => {
+      const mockPrismaClient = {
+        postSlug: {
+          findMany: vi.fn().mockResolvedValue([{ post_id: 1 }]),
+        },
+        post: {
+          findMany: vi.fn().mockResolvedValue([{ id: 1, post_name: 'new-slug', locale: 'en' }]),
+        },
+      };
+
+      vi.mocked(databaseService.getClient).mockReturnValue(mockPrismaClient as never);
+
+      expect(await postService.getCanonicalSlug('old-slug')).toBe('new-slug');
+    });
+
+    it('should resolve an old slug within the requested locale', async () => {
+      const mockPrismaClient = {
+        postSlug: {
+          findMany: vi.fn().mockResolvedValue([{ post_id: 1 }, { post_id: 2 }]),
+        },
+        post: {
+          findMany: vi.fn().mockResolvedValue([{ id: 2, post_name: 'neuer-slug', locale: 'de' }]),
+        },
+      };
+
+      vi.mocked(databaseService.getClient).mockReturnValue(mockPrismaClient as never);
+
+      expect(await postService.getCanonicalSlug('old-slug', 'de')).toBe('neuer-slug');
+      expect(mockPrismaClient.post.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({ where: { id: { in: [1, 2] }, locale: 'de' } })
+      );
+    });
+
+    it('should return null for slugs that were never used', async () => {
+      const mockPrismaClient = {
+        postSlug: {
+          findMany: vi.fn().mockResolvedValue([]),
+        },
+      };
+
+      vi.mocked(databaseService.getClient).mockReturnValue(mockPrismaClient as never);
+
+      expect(await postService.getCanonicalSlug('unknown')).toBeNull();
+    });
+  });
+
+  describe('createPost', () => {
+    it('should save terms and meta in the transaction that creates the post', async () => {
+      const tx = {
+        post: { create: vi.fn().mockResolvedValue(createPrismaPost({ post_name: 'hello' })) },
+        postMeta: { upsert: vi.fn().mockResolvedValue({ meta_type: 'string' }) },
+      };
+      const mockPrismaClient = {
+        $transaction: vi.fn().mockImplementation((callback) => callback(tx)),
+      };
+
+      vi.mocked(databaseService.getClient).mockReturnValue(mockPrismaClient as never);
+
+      await postService.createPost({
+        title: 'Hello',
+        content: 'Content',
+        authorId: 'author-uuid',
+        slug: 'hello',
+        categories: [3],
+        meta: { subtitle: 'Hi' },
+      });
+
+      expect(mockPrismaClient.$transaction).toHaveBeenCalledTimes(1);
+      expect(termService.setObjectTerms).toHaveBeenCalledWith(1, 'category', [3], tx);
+      expect(tx.postMeta.upsert).toHaveBeenCalledWith(
+        expect.objectContaining({
+          create: expect.objectContaining({ post_id: 1, meta_key: 'subtitle', meta_value: 'Hi' }),
+        })
+      );
+    });
+  });
+
+  describe('updatePost', () => {
+    it('should assign terms in the transaction that updates the post', async () => {
+      const tx = {
+        post: {
+          findUnique: vi.fn().mockResolvedValue(createPrismaPost()),
+          update: vi.fn().mockResolvedValue(createPrismaPost({ menu_order: 2 })),
+        },
+      };
+      const mockPrismaClient = {
+        $transaction: vi.fn().mockImplementation((callback) => callback(tx)),
+      };
+
+      vi.mocked(databaseService.getClient).mockReturnValue(mockPrismaClient as never);
+
+      await postService.updatePost(1, { menuOrder: 2, categories: [3] });
+
+      expect(mockPrismaClient.$transaction).toHaveBeenCalledTimes(1);
+      expect(termService.setObjectTerms).toHaveBeenCalledWith(1, 'category', [3], tx);
+    });
+  });
+
+  describe('translations', () => {
+    it('should start a translation group when a post is first translated', async () => {
+      const tx = {
+        post: {
+          findUnique: vi.fn().mockResolvedValue({ uuid: 'source-uuid', translation_group: null }),
+          update: vi.fn().mockResolvedValue({}),
+          create: vi
+            .fn()
+            .mockResolvedValue(
+              createPrismaPost({ id: 2, locale: 'fr', translation_group: 'source-uuid' })
+            ),
+        },
+      };
+      const mockPrismaClient = {
+        $transaction: vi.fn().mockImplementation((callback) => callback(tx)),
+        post: {
+          count: vi.fn().mockResolvedValue(0),
+        },
+      };
+
+      vi.mocked(databaseService.getClient).mockReturnValue(mockPrismaClient as never);
+
+      const post = await postService.createPost({
+        title: 'Titre',
+        content: 'Contenu',
+        authorId: 'author-uuid',
+        locale: 'fr',
+        translationOf: 1,
+      });
+
+      expect(tx.post.update).toHaveBeenCalledWith({
+        where: { id: 1 },
+        data: { translation_group: 'source-uuid' },
+      });
+      expect(tx.post.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({ locale: 'fr', translation_group: 'source-uuid' }),
+      });
+      expect(post.translationGroup).toBe('source-uuid');
+    });
+
+    it('should only check slugs against posts of the same locale', async () => {
+      const mockPrismaClient = {
+        post: {
+          count: vi.fn().mockResolvedValue(0),
+        },
+      };
+
+      vi.mocked(databaseService.getClient).mockReturnValue(mockPrismaClient as never);
+
+      expect(await postService.slugExists('hello', 'fr', 3)).toBe(false);
+      expect(mockPrismaClient.post.count).toHaveBeenCalledWith({
+        where: { post_name: 'hello', locale: 'fr', id: { not: 3 } },
+      });
+    });
+
+    it('should prefer the default locale when looking up a slug without one', async () => {
+      const mockPrismaClient = {
+        post: {
+          findFirst: vi
+            .fn()
+            .mockResolvedValueOnce(null)
+            .mockResolvedValueOnce(createPrismaPost({ locale: 'fr' })),
+        },
+      };
+
+      vi.mocked(databaseService.getClient).mockReturnValue(mockPrismaClient as never);
+
+      const post = await postService.getPostBySlug('title');
+
+      expect(mockPrismaClient.post.findFirst).toHaveBeenNthCalledWith(1, {
+        where: { post_name: 'title', locale: 'en' },
+      });
+      expect(post?.locale).toBe('fr');
+    });
+
+    it('should find the translation of a group in a locale', async () => {
+      const mockPrismaClient = {
+        post: {
+          findUnique: vi
+            .fn()
+            .mockResolvedValue({ id: 1, locale: 'en', translation_group: 'source-uuid' }),
+          findFirst: vi.fn().mockResolvedValue({ id: 2 }),
+        },
+      };
+
+      vi.mocked(databaseService.getClient).mockReturnValue(mockPrismaClient as never);
+
+      expect(await postService.findTranslationId(1, 'en')).toBe(1);
+      expect(await postService.findTranslationId(1, 'fr', 5)).toBe(2);
+      expect(mockPrismaClient.post.findFirst).toHaveBeenCalledWith({
+        where: { translation_group: 'source-uuid', locale: 'fr', id: { notIn: [1, 5] } },
+        select: { id: true },
+      });
+    });
+  });
+
+  describe('getStatusTransitionError', () => {
+    it('should allow contributors to submit drafts for review', () => {
+      expect(
+        postService.getStatusTransitionError('draft', 'pending', ROLE_PERMISSIONS.contributor)
+      ).toBeNull();
+    });
+
+    it('should prevent contributors from publishing', () => {
+      expect(
+        postService.getStatusTransitionError('draft', 'publish', ROLE_PERMISSIONS.contributor)
+      ).toBe('You can only submit posts for review');
+    });
+
+    it('should only let reviewers approve pending posts', () => {
+      expect(
+        postService.getStatusTransitionError('pending', 'publish', ROLE_PERMISSIONS.user)
+      ).toBe('Only reviewers can approve pending posts');
+      expect(
+        postService.getStatusTransitionError('pending', 'future', ROLE_PERMISSIONS.editor)
+      ).toBeNull();
+    });
+
+    it('should let authors withdraw pending posts to draft', () => {
+      expect(
+        postService.getStatusTransitionError('pending', 'draft', ROLE_PERMISSIONS.contributor)
+      ).toBeNull();
+    });
+
+    it('should reject transitions outside the workflow', () => {
+      expect(
+        postService.getStatusTransitionError('private', 'pending', ROLE_PERMISSIONS.admin)
+      ).toBe("A post cannot move from 'private' to 'pending'");
+    });
+
+    it('should treat keeping the same status as no transition', () => {
+      expect(
+        postService.getStatusTransitionError('publish', 'publish', ROLE_PERMISSIONS.contributor)
+      ).toBeNull();
+    });
+  });
+
+  describe('password-protected posts', () => {
+    function mockStoredPassword(passwordHash: string | null) {
+      const mockPrismaClient = {
+        post: {
+          findUnique: vi.fn().mockResolvedValue({ post_password: passwordHash ?? '' }),
+        },
+      };
+      vi.mocked(databaseService.getClient).mockReturnValue(mockPrismaClient as never);
+    }
+
+    it('should issue an unlock token for the correct password', async () => {
+      mockStoredPassword('hashed_password');
+      vi.mocked(bcrypt.compare).mockResolvedValue(true as never);
+
+      const token = await postService.unlockPost(1, 'secret');
+
+      expect(token).toEqual(expect.any(String));
+      expect(await postService.isUnlocked(1, token as string)).toBe(true);
+    });
+
+    it('should not issue a token for a wrong password', async () => {
+      mockStoredPassword('hashed_password');
+      vi.mocked(bcrypt.compare).mockResolvedValue(false as never);
+
+      expect(await postService.unlockPost(1, 'wrong')).toBeNull();
+    });
+
+    it('should reject tokens once the password changes', async () => {
+      mockStoredPassword('hashed_password');
+      vi.mocked(bcrypt.compare).mockResolvedValue(true as never);
+      const token = await postService.unlockPost(1, 'secret');
+
+      mockStoredPassword('new_hashed_password');
+
+      expect(await postService.isUnlocked(1, token as string)).toBe(false);
+    });
+
+    it('should reject tokens issued for another post', async () => {
+      mockStoredPassword('hashed_password');
+      vi.mocked(bcrypt.compare).mockResolvedValue(true as never);
+      const token = await postService.unlockPost(1, 'secret');
+
+      expect(await postService.isUnlocked(2, token as string)).toBe(false);
+    });
+
+    it('should only let the author, editors and unlocked readers read the content', async () => {
+      mockStoredPassword('hashed_password');
+      vi.mocked(bcrypt.compare).mockResolvedValue(true as never);
+      const token = await postService.unlockPost(1, 'secret');
+      const post = { id: 1, authorId: 'author-uuid', isProtected: true } as Post;
+
+      expect(await postService.canRead(post, { permissions: [] })).toBe(false);
+      expect(await postService.canRead(post, { userId: 'author-uuid', permissions: [] })).toBe(
+        true
+      );
+      expect(await postService.canRead(post, { permissions: ['post:update_others'] })).toBe(true);
+      expect(
+        await postService.canRead(post, { permissions: [], unlockToken: token as string })
+      ).toBe(true);
+    });
+  });
+
+  describe('trash', () => {
+    function mockTrashClient(stored: Record<string, unknown>) {
+      const tx = {
+        postTransition: { create: vi.fn().mockResolvedValue({}) },
+        post: {
+          update: vi
+            .fn()
+            .mockImplementation(({ data }) => Promise.resolve(createPrismaPost({ ...data }))),
+        },
+      };
+      const mockPrismaClient = {
+        post: { findUnique: vi.fn().mockResolvedValue(stored) },
+        $transaction: vi.fn().mockImplementation((callback) => callback(tx)),
+      };
+
+      vi.mocked(databaseService.getClient).mockReturnValue(mockPrismaClient as never);
+      return tx;
+    }
+
+    it('should remember the status of a trashed post', async () => {
+      const tx = mockTrashClient({ post_status: 'pending' });
+
+      const post = await postService.trashPost(1, 'editor-uuid');
+
+      expect(post?.status).toBe('trash');
+      expect(post?.trashedAt).toBeInstanceOf(Date);
+      expect(tx.post.update).toHaveBeenCalledWith({
+        where: { id: 1 },
+        data: expect.objectContaining({ post_status: 'trash', pre_trash_status: 'pending' }),
+      });
+      expect(tx.postTransition.create).toHaveBeenCalledWith({
+        data: { post_id: 1, from_status: 'pending', to_status: 'trash', actor_id: 'editor-uuid' },
+      });
+    });
+
+    it('should restore the status a post had before it was trashed', async () => {
+      const tx = mockTrashClient({
+        post_status: 'trash',
+        pre_trash_status: 'private',
+        post_date: null,
+      });
+
+      const post = await postService.restorePost(1);
+
+      expect(post?.status).toBe('private');
+      expect(tx.post.update).toHaveBeenCalledWith({
+        where: { id: 1 },
+        data: { post_status: 'private', pre_trash_status: null, trashed_at: null },
+      });
+    });
+
+    it('should publish a restored scheduled post whose date has passed', async () => {
+      mockTrashClient({
+        post_status: 'trash',
+        pre_trash_status: 'future',
+        post_date: new Date('2020-01-01T00:00:00Z'),
+      });
+
+      const post = await postService.restorePost(1);
+
+      expect(post?.status).toBe('publish');
+    });
+
+    it("should leave trashed posts and menu items out of an author's posts", async () => {
+      const mockPrismaClient = {
+        post: {
+          count: vi.fn().mockResolvedValue(0),
+          findMany: vi.fn().mockResolvedValue([]),
+        },
+      };
+
+      vi.mocked(databaseService.getClient).mockReturnValue(mockPrismaClient as never);
+
+      await postService.getPostsByAuthor('author-uuid', 1, 10);
+
+      expect(mockPrismaClient.post.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: expect.objectContaining({
+            post_author: 'author-uuid',
+            post_status: { not: 'trash' },
+            post_type: { not: 'nav_menu_item' },
+          }),
+        })
+      );
+    });
+  });
+
+  describe('deletePost', () => {
+    it('should delete the post and its data in one transaction', async () => {
+      const deleteMany = () => vi.fn().mockResolvedValue({ count: 0 });
+      const tx = {
+        post: { delete: vi.fn().mockResolvedValue({}), updateMany: deleteMany() },
+        comment: { deleteMany: deleteMany() },
+        postRevision: { deleteMany: vi.fn().mockRejectedValue(new Error('connection lost')) },
+      };
+      const mockPrismaClient = {
+        post: {
+          findUnique: vi.fn().mockResolvedValue({
+            id: 1,
+            uuid: 'page-uuid',
+            post_status: 'draft',
+            post_parent: 'parent-uuid',
+          }),
+        },
+        postLock: { deleteMany: deleteMany() },
+        $transaction: vi.fn().mockImplementation((callback) => callback(tx)),
+      };
+
+      vi.mocked(databaseService.getClient).mockReturnValue(mockPrismaClient as never);
+
+      await expect(postService.deletePost(1)).rejects.toThrow('connection lost');
+      expect(tx.post.delete).toHaveBeenCalledWith({ where: { id: 1 } });
+      expect(termService.removeObjectTerms).toHaveBeenCalledWith(1, tx);
+      // Child pages are moved up to the deleted page's parent
+      expect(tx.post.updateMany).toHaveBeenCalledWith({
+        where: { post_parent: 'page-uuid' },
+        data: { post_parent: 'parent-uuid' },
+      });
+      expect(mockPrismaClient.postLock.deleteMany).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('bulkUpdate', () => {
+    function mockBulkClient(statuses: Record<number, string>) {
+      const tx = {
+        postTransition: { create: vi.fn().mockResolvedValue({}) },
+        post: {
+          findUnique: vi
+            .fn()
+            .mockImplementation(({ where }) =>
+              Promise.resolve(statuses[where.id] ? { post_status: statuses[where.id] } : null)
+            ),
+          update: vi
+            .fn()
+            .mockImplementation(({ where, data }) =>
+              Promise.resolve(createPrismaPost({ id: where.id, ...data }))
+            ),
+        },
+      };
+      const mockPrismaClient = {
+        $transaction: vi.fn().mockImplementation((callback) => callback(tx)),
+      };
+
+      vi.mocked(databaseService.getClient).mockReturnValue(mockPrismaClient as never);
+      return { tx, mockPrismaClient };
+    }
+
+    it('should update every post in one transaction and record status changes', async () => {
+      const { tx, mockPrismaClient } = mockBulkClient({ 1: 'publish', 2: 'draft' });
+
+      const posts = await postService.bulkUpdate([1, 2], { action: 'unpublish' }, 'editor-uuid');
+
+      expect(posts.map((post) => post.status)).toEqual(['draft', 'draft']);
+      expect(mockPrismaClient.$transaction).toHaveBeenCalledTimes(1);
+      expect(tx.postTransition.create).toHaveBeenCalledTimes(1);
+      expect(tx.postTransition.create).toHaveBeenCalledWith({
+        data: { post_id: 1, from_status: 'publish', to_status: 'draft', actor_id: 'editor-uuid' },
+      });
+    });
+
+    it('should skip posts that no longer exist', async () => {
+      const { tx } = mockBulkClient({ 1: 'draft' });
+
+      const posts = await postService.bulkUpdate([1, 2], {
+        action: 'set_author',
+        authorId: 'new-author-uuid',
+      });
+
+      expect(posts.map((post) => post.id)).toEqual([1]);
+      expect(tx.post.update).toHaveBeenCalledWith({
+        where: { id: 1 },
+        data: { post_author: 'new-author-uuid' },
+      });
+    });
+
+    it('should replace categories within the transaction', async () => {
+      const { tx } = mockBulkClient({ 1: 'draft' });
+
+      await postService.bulkUpdate([1], { action: 'set_categories', categories: [3, 4] });
+
+      expect(termService.setObjectTerms).toHaveBeenCalledWith(1, 'category', [3, 4], tx);
+    });
+  });
+});
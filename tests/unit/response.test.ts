@@ -4,7 +4,9 @@ import {
   createApiResponse,
   createErrorResponse,
   createPaginatedResponse,
+  parseCursorParams,
   parsePaginationParams,
+  calculateCursorPaginationMeta,
   calculatePaginationMeta,
 } from '../../src/utils/response';
 
@@ -104,4 +106,31 @@ describe('Response Utils', () => {
       expect(meta.totalPages).toBe(0);
     });
   });
+
+  describe('parseCursorParams', () => {
+    it('should return null without a cursor parameter', () => {
+      expect(parseCursorParams({ page: '2' })).toBeNull();
+    });
+
+    it('should treat an empty cursor as the first page', () => {
+      expect(parseCursorParams({ cursor: '', limit: '500' })).toEqual({
+        cursor: '',
+        limit: 100,
+        includeTotal: false,
+      });
+    });
+  });
+
+  describe('calculateCursorPaginationMeta', () => {
+    it('should only include the total when it was counted', () => {
+      const page = { nextCursor: 'next', prevCursor: null };
+
+      expect(calculateCursorPaginationMeta(page, 10)).toEqual({
+        limit: 10,
+        nextCursor: 'next',
+        prevCursor: null,
+      });
+      expect(calculateCursorPaginationMeta({ ...page, total: 3 }, 10).total).toBe(3);
+    });
+  });
 });
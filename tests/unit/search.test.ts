@@ -0,0 +1,48 @@
+import { describe, it, expect } from 'vitest';
+
+import { buildSnippet, getSearchTerms, toFullTextQuery } from '../../src/utils/search';
+
+describe('Search Utils', () => {
+  describe('getSearchTerms', () => {
+    it('should drop boolean-mode operators from the input', () => {
+      expect(getSearchTerms('+hello -world "quoted" (group)*')).toEqual([
+        'hello',
+        'world',
+        'quoted',
+        'group',
+      ]);
+    });
+  });
+
+  describe('toFullTextQuery', () => {
+    it('should match every word as a prefix', () => {
+      expect(toFullTextQuery('node  typescript')).toBe('node* typescript*');
+    });
+
+    it('should return an empty query when nothing searchable is left', () => {
+      expect(toFullTextQuery('+ - *')).toBe('');
+    });
+  });
+
+  describe('buildSnippet', () => {
+    it('should highlight matches around the first occurrence', () => {
+      const text = `${'filler '.repeat(30)}the Node runtime ${'tail '.repeat(30)}`;
+
+      const snippet = buildSnippet(text, 'node', 20);
+
+      expect(snippet).toContain('<mark>Node</mark>');
+      expect(snippet.startsWith('…')).toBe(true);
+      expect(snippet.endsWith('…')).toBe(true);
+    });
+
+    it('should strip and escape HTML from the source text', () => {
+      const snippet = buildSnippet('<p>Use <b>a & b</b> in search</p><script>x</script>', 'search');
+
+      expect(snippet).toBe('Use a &amp; b in <mark>search</mark> x');
+    });
+
+    it('should start at the beginning when nothing matches', () => {
+      expect(buildSnippet('Nothing to see here', 'missing')).toBe('Nothing to see here');
+    });
+  });
+});
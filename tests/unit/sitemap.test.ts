@@ -0,0 +1,44 @@
+import { describe, it, expect } from 'vitest';
+
+import { buildSitemapIndex, buildUrlSet } from '../../src/utils/sitemap';
+
+describe('Sitemap Utils', () => {
+  describe('buildUrlSet', () => {
+    it('should render escaped locations with their last modified date', () => {
+      const xml = buildUrlSet([
+        { loc: 'https://example.com/a&b', lastmod: new Date('2026-01-01T00:00:00Z') },
+      ]);
+
+      expect(xml).toContain('<urlset xmlns="http://www.sitemaps.org/schemas/sitemap/0.9">');
+      expect(xml).toContain('<loc>https://example.com/a&amp;b</loc>');
+      expect(xml).toContain('<lastmod>2026-01-01T00:00:00.000Z</lastmod>');
+    });
+
+    it('should leave out lastmod when the date is unknown', () => {
+      const xml = buildUrlSet([{ loc: 'https://example.com/about', lastmod: null }]);
+
+      expect(xml).toContain('<loc>https://example.com/about</loc>');
+      expect(xml).not.toContain('<lastmod>');
+    });
+
+    it('should render an empty url set', () => {
+      const xml = buildUrlSet([]);
+
+      expect(xml).not.toContain('<url>');
+      expect(xml).toContain('</urlset>');
+    });
+  });
+
+  describe('buildSitemapIndex', () => {
+    it('should list every sitemap chunk', () => {
+      const xml = buildSitemapIndex([
+        { loc: 'https://example.com/sitemap-1.xml', lastmod: null },
+        { loc: 'https://example.com/sitemap-2.xml', lastmod: null },
+      ]);
+
+      expect(xml).toContain('<sitemapindex');
+      expect(xml.match(/<sitemap>/g)).toHaveLength(2);
+      expect(xml).toContain('<loc>https://example.com/sitemap-2.xml</loc>');
+    });
+  });
+});
@@ -0,0 +1,197 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+
+import { databaseService } from '../../src/services/database';
+import { termService } from '../../src/services/term';
+
+// Mock the database service
+vi.mock('../../src/services/database', () => ({
+  databaseService: {
+    getClient: vi.fn(),
+  },
+}));
+
+describe('TermService', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  describe('createTerm', () => {
+    it('should create a term with a slug generated from its name', async () => {
+      const mockTermTaxonomy = {
+        termTaxonomyId: 7,
+        termId: 3,
+        taxonomy: 'category',
+        description: null,
+        parent: 0,
+        count: 0,
+        term: { termId: 3, name: 'Hello World', slug: 'hello-world', termGroup: 0 },
+      };
+
+      const mockPrismaClient = {
+        termTaxonomy: {
+          count: vi.fn().mockResolvedValue(0),
+          create: vi.fn().mockResolvedValue(mockTermTaxonomy),
+        },
+      };
+
+      vi.mocked(databaseService.getClient).mockReturnValue(mockPrismaClient as never);
+
+      const result = await termService.createTerm({ name: 'Hello World', taxonomy: 'category' });
+
+      expect(result).toEqual({
+        id: 3,
+        taxonomyId: 7,
+        name: 'Hello World',
+        slug: 'hello-world',
+        taxonomy: 'category',
+        description: null,
+        parentId: null,
+        count: 0,
+      });
+      expect(mockPrismaClient.termTaxonomy.create).toHaveBeenCalledWith({
+        data: {
+          taxonomy: 'category',
+          description: undefined,
+          parent: 0,
+          term: { create: { name: 'Hello World', slug: 'hello-world' } },
+        },
+        include: { term: true },
+      });
+    });
+
+    it('should suffix the slug when it already exists in the taxonomy', async () => {
+      const mockPrismaClient = {
+        termTaxonomy: {
+          count: vi.fn().mockResolvedValueOnce(1).mockResolvedValueOnce(0),
+          create: vi.fn().mockResolvedValue({
+            termTaxonomyId: 8,
+            termId: 4,
+            taxonomy: 'post_tag',
+            description: null,
+            parent: 0,
+            count: 0,
+            term: { termId: 4, name: 'News', slug: 'news-1', termGroup: 0 },
+          }),
+        },
+      };
+
+      vi.mocked(databaseService.getClient).mockReturnValue(mockPrismaClient as never);
+
+      const result = await termService.createTerm({ name: 'News', taxonomy: 'post_tag' });
+
+      expect(result.slug).toBe('news-1');
+      expect(mockPrismaClient.termTaxonomy.count).toHaveBeenCalledTimes(2);
+    });
+
+    it('should drop accents and never leave the slug empty', async () => {
+      const mockPrismaClient = {
+        termTaxonomy: {
+          count: vi.fn().mockResolvedValue(0),
+          create: vi.fn().mockResolvedValue({
+            termTaxonomyId: 9,
+            termId: 5,
+            taxonomy: 'post_tag',
+            description: null,
+            parent: 0,
+            count: 0,
+            term: { termId: 5, name: '日本', slug: 'post-tag', termGroup: 0 },
+          }),
+        },
+      };
+
+      vi.mocked(databaseService.getClient).mockReturnValue(mockPrismaClient as never);
+
+      await termService.createTerm({ name: 'Café', taxonomy: 'post_tag' });
+      await termService.createTerm({ name: '日本', taxonomy: 'post_tag' });
+
+      const slugs = mockPrismaClient.termTaxonomy.create.mock.calls.map(
+        ([args]) => args.data.term.create.slug
+      );
+      expect(slugs).toEqual(['cafe', 'post-tag']);
+    });
+  });
+
+  describe('deleteTerm', () => {
+    it('should leave terms of other taxonomies alone', async () => {
+      const mockPrismaClient = {
+        termTaxonomy: {
+          findFirst: vi.fn().mockResolvedValue(null),
+        },
+        $transaction: vi.fn(),
+      };
+
+      vi.mocked(databaseService.getClient).mockReturnValue(mockPrismaClient as never);
+
+      const deleted = await termService.deleteTerm(5, ['category', 'post_tag']);
+
+      expect(deleted).toBe(false);
+      expect(mockPrismaClient.termTaxonomy.findFirst).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: { termId: 5, taxonomy: { in: ['category', 'post_tag'] } },
+        })
+      );
+      expect(mockPrismaClient.$transaction).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('wouldCreateCycle', () => {
+    it('should detect when the new parent is a descendant of the term', async () => {
+      // 3 -> 2 -> 1 (root)
+      const parents: Record<number, number> = { 1: 0, 2: 1, 3: 2 };
+      const mockPrismaClient = {
+        termTaxonomy: {
+          findFirst: vi.fn(({ where }: { where: { termId: number } }) =>
+            Promise.resolve({ parent: parents[where.termId] ?? 0 })
+          ),
+        },
+      };
+
+      vi.mocked(databaseService.getClient).mockReturnValue(mockPrismaClient as never);
+
+      await expect(termService.wouldCreateCycle(1, 3)).resolves.toBe(true);
+      await expect(termService.wouldCreateCycle(3, 1)).resolves.toBe(false);
+      await expect(termService.wouldCreateCycle(2, 2)).resolves.toBe(true);
+    });
+  });
+
+  describe('setObjectTerms', () => {
+    it('should add and remove relationships and refresh the affected counts', async () => {
+      const tx = {
+        termTaxonomy: {
+          findMany: vi.fn().mockResolvedValue([{ termTaxonomyId: 11 }, { termTaxonomyId: 12 }]),
+          update: vi.fn().mockResolvedValue({}),
+        },
+        termRelationship: {
+          findMany: vi.fn().mockResolvedValue([{ term_taxonomy_id: 10 }, { term_taxonomy_id: 11 }]),
+          deleteMany: vi.fn().mockResolvedValue({ count: 1 }),
+          createMany: vi.fn().mockResolvedValue({ count: 1 }),
+          count: vi.fn().mockResolvedValue(5),
+        },
+      };
+
+      const mockPrismaClient = {
+        $transaction: vi.fn((fn: (client: typeof tx) => Promise<void>) => fn(tx)),
+      };
+
+      vi.mocked(databaseService.getClient).mockReturnValue(mockPrismaClient as never);
+
+      await termService.setObjectTerms(42, 'category', [1, 2]);
+
+      expect(tx.termRelationship.deleteMany).toHaveBeenCalledWith({
+        where: { object_id: 42, term_taxonomy_id: { in: [10] } },
+      });
+      expect(tx.termRelationship.createMany).toHaveBeenCalledWith({
+        data: [{ object_id: 42, term_taxonomy_id: 12 }],
+      });
+      expect(tx.termTaxonomy.update).toHaveBeenCalledTimes(2);
+      expect(tx.termTaxonomy.update).toHaveBeenCalledWith({
+        where: { termTaxonomyId: 10 },
+        data: { count: 5 },
+      });
+      expect(tx.termTaxonomy.update).toHaveBeenCalledWith({
+        where: { termTaxonomyId: 12 },
+        data: { count: 5 },
+      });
+    });
+  });
+});
@@ -0,0 +1,69 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+
+import { config } from '../../config/index.js';
+import { databaseService } from '../../src/services/database';
+import { postService } from '../../src/services/post';
+import { trashPurgeService } from '../../src/services/trash-purge';
+
+// Mock the database service
+vi.mock('../../src/services/database', () => ({
+  databaseService: {
+    getClient: vi.fn(),
+  },
+}));
+
+// Mock the post service
+vi.mock('../../src/services/post', () => ({
+  postService: {
+    deletePost: vi.fn().mockResolvedValue(true),
+  },
+}));
+
+describe('TrashPurgeService', () => {
+  const mockPrismaClient = {
+    post: { findMany: vi.fn() },
+  };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(databaseService.getClient).mockReturnValue(mockPrismaClient as never);
+  });
+
+  describe('purgeExpired', () => {
+    it('should delete posts trashed before the retention period', async () => {
+      const now = new Date('2026-03-31T00:00:00Z');
+      mockPrismaClient.post.findMany.mockResolvedValue([{ id: 4 }, { id: 9 }]);
+
+      const purged = await trashPurgeService.purgeExpired(now);
+
+      const cutoff = new Date(now.getTime() - config.trash.retentionDays * 24 * 60 * 60 * 1000);
+      expect(mockPrismaClient.post.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: { post_status: 'trash', trashed_at: { lte: cutoff } },
+        })
+      );
+      expect(postService.deletePost).toHaveBeenCalledWith(4);
+      expect(postService.deletePost).toHaveBeenCalledWith(9);
+      expect(purged).toBe(2);
+    });
+
+    it('should keep going until a batch comes back short', async () => {
+      const fullBatch = Array.from({ length: 100 }, (_, index) => ({ id: index + 1 }));
+      mockPrismaClient.post.findMany
+        .mockResolvedValueOnce(fullBatch)
+        .mockResolvedValueOnce([{ id: 101 }]);
+
+      const purged = await trashPurgeService.purgeExpired();
+
+      expect(mockPrismaClient.post.findMany).toHaveBeenCalledTimes(2);
+      expect(purged).toBe(101);
+    });
+
+    it('should report nothing purged when the lookup fails', async () => {
+      mockPrismaClient.post.findMany.mockRejectedValue(new Error('connection lost'));
+
+      expect(await trashPurgeService.purgeExpired()).toBe(0);
+      expect(postService.deletePost).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,351 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+
+import { databaseService } from '../../src/services/database';
+import { wxrImportService } from '../../src/services/wxr-import';
+import type { WxrItem } from '../../src/utils/wxr';
+import { buildWxrHeader, buildWxrItem, parseWxr, WXR_FOOTER } from '../../src/utils/wxr';
+
+// Mock the database service
+vi.mock('../../src/services/database', () => ({
+  databaseService: {
+    getClient: vi.fn(),
+  },
+}));
+
+// Mock bcrypt
+vi.mock('bcrypt', () => ({
+  default: {
+    hash: vi.fn().mockResolvedValue('hashed_password'),
+    compare: vi.fn(),
+  },
+}));
+
+// Publish in English and French
+vi.mock('../../config/index.js', async (importOriginal) => {
+  const { config } = (await importOriginal()) as { config: Record<string, unknown> };
+  return { config: { ...config, locales: { default: 'en', supported: ['en', 'fr'] } } };
+});
+
+// Mock the term service
+vi.mock('../../src/services/term', () => ({
+  termService: {
+    updateTermCounts: vi.fn(),
+  },
+}));
+
+const WXR = `<?xml version="1.0" encoding="UTF-8" ?>
+<rss version="2.0"
+  xmlns:excerpt="http://wordpress.org/export/1.2/excerpt/"
+  xmlns:content="http://purl.org/rss/1.0/modules/content/"
+  xmlns:dc="http://purl.org/dc/elements/1.1/"
+  xmlns:wp="http://wordpress.org/export/1.2/">
+<channel>
+  <title>Site</title>
+  <wp:wxr_version>1.2</wp:wxr_version>
+  <wp:author>
+    <wp:author_login><![CDATA[jane]]></wp:author_login>
+    <wp:author_email><![CDATA[jane@example.com]]></wp:author_email>
+  </wp:author>
+  <wp:category>
+    <wp:category_nicename><![CDATA[news]]></wp:category_nicename>
+    <wp:category_parent><![CDATA[]]></wp:category_parent>
+    <wp:cat_name><![CDATA[News]]></wp:cat_name>
+  </wp:category>
+  <wp:category>
+    <wp:category_nicename><![CDATA[local]]></wp:category_nicename>
+    <wp:category_parent><![CDATA[news]]></wp:category_parent>
+    <wp:cat_name><![CDATA[Local]]></wp:cat_name>
+  </wp:category>
+  <wp:tag>
+    <wp:tag_slug><![CDATA[2024]]></wp:tag_slug>
+    <wp:tag_name><![CDATA[2024]]></wp:tag_name>
+  </wp:tag>
+  <item>
+    <title><![CDATA[About]]></title>
+    <guid isPermaLink="false">https://example.com/?page_id=12</guid>
+    <dc:creator><![CDATA[jane]]></dc:creator>
+    <content:encoded><![CDATA[<p>About us</p>]]></content:encoded>
+    <excerpt:encoded><![CDATA[]]></excerpt:encoded>
+    <wp:post_id>12</wp:post_id>
+    <wp:post_date><![CDATA[2020-01-01 10:00:00]]></wp:post_date>
+    <wp:post_date_gmt><![CDATA[2020-01-01 09:00:00]]></wp:post_date_gmt>
+    <wp:post_name><![CDATA[team]]></wp:post_name>
+    <wp:status><![CDATA[publish]]></wp:status>
+    <wp:post_parent>11</wp:post_parent>
+    <wp:menu_order>2</wp:menu_order>
+    <wp:post_type><![CDATA[page]]></wp:post_type>
+  </item>
+  <item>
+    <title><![CDATA[Company]]></title>
+    <guid isPermaLink="false">https://example.com/?page_id=11</guid>
+    <dc:creator><![CDATA[jane]]></dc:creator>
+    <content:encoded><![CDATA[]]></content:encoded>
+    <wp:post_id>11</wp:post_id>
+    <wp:post_date_gmt><![CDATA[0000-00-00 00:00:00]]></wp:post_date_gmt>
+    <wp:post_name><![CDATA[company]]></wp:post_name>
+    <wp:status><![CDATA[draft]]></wp:status>
+    <wp:post_parent>0</wp:post_parent>
+    <wp:post_type><![CDATA[page]]></wp:post_type>
+  </item>
+  <item>
+    <title><![CDATA[Hello]]></title>
+    <guid isPermaLink="false">https://example.com/?p=13</guid>
+    <dc:creator><![CDATA[ghost]]></dc:creator>
+    <content:encoded><![CDATA[<p>Hi</p>]]></content:encoded>
+    <wp:post_id>13</wp:post_id>
+    <wp:post_name><![CDATA[hello]]></wp:post_name>
+    <wp:status><![CDATA[publish]]></wp:status>
+    <wp:post_type><![CDATA[post]]></wp:post_type>
+    <category domain="category" nicename="news"><![CDATA[News]]></category>
+    <category domain="post_tag" nicename="2024"><![CDATA[2024]]></category>
+    <category domain="post_format" nicename="post-format-aside"><![CDATA[Aside]]></category>
+  </item>
+  <item>
+    <title><![CDATA[logo.png]]></title>
+    <wp:post_id>14</wp:post_id>
+    <wp:post_name><![CDATA[logo]]></wp:post_name>
+    <wp:status><![CDATA[inherit]]></wp:status>
+    <wp:post_type><![CDATA[attachment]]></wp:post_type>
+  </item>
+</channel>
+</rss>`;
+
+describe('WXR Import', () => {
+  describe('parseWxr', () => {
+    it('should read authors, categories and tags', () => {
+      const document = parseWxr(WXR);
+
+      expect(document.authors).toEqual([{ login: 'jane', email: 'jane@example.com' }]);
+      expect(document.terms).toEqual([
+        { taxonomy: 'category', slug: 'news', name: 'News', description: null, parentSlug: null },
+        {
+          taxonomy: 'category',
+          slug: 'local',
+          name: 'Local',
+          description: null,
+          parentSlug: 'news',
+        },
+        { taxonomy: 'post_tag', slug: '2024', name: '2024', description: null, parentSlug: null },
+      ]);
+    });
+
+    it('should read items with their dates, parents and supported terms', () => {
+      const [team, company, hello] = parseWxr(WXR).items;
+
+      expect(team).toMatchObject({
+        wpId: 12,
+        guid: 'https://example.com/?page_id=12',
+        slug: 'team',
+        type: 'page',
+        status: 'publish',
+        parentWpId: 11,
+        menuOrder: 2,
+        excerpt: null,
+        publishedAt: new Date('2020-01-01T09:00:00Z'),
+      });
+      expect(company.publishedAt).toBeNull();
+      expect(hello.terms.map((term) => `${term.taxonomy}:${term.slug}`)).toEqual([
+        'category:news',
+        'post_tag:2024',
+      ]);
+    });
+
+    it('should reject documents that are not WXR exports', () => {
+      expect(() => parseWxr('<rss><channel><title>Feed</title></channel></rss>')).toThrow(
+        'not a WordPress WXR export'
+      );
+    });
+  });
+
+  describe('buildWxrHeader / buildWxrItem', () => {
+    it('should write exports the parser reads back unchanged', () => {
+      const original = parseWxr(WXR);
+      const items: WxrItem[] = original.items.map((item) => ({
+        ...item,
+        content: `${item.content} with ]]> inside`,
+      }));
+
+      const xml = [
+        buildWxrHeader(
+          { title: 'Site & Co', link: 'https://example.com', description: '' },
+          original.authors,
+          original.terms
+        ),
+        ...items.map(buildWxrItem),
+        WXR_FOOTER,
+      ].join('');
+
+      expect(parseWxr(xml)).toEqual({ ...original, items });
+    });
+
+    it('should carry the locale and translation group as post meta', () => {
+      const [hello] = parseWxr(WXR).items.slice(2);
+      const xml = buildWxrItem({ ...hello, locale: 'fr', translationGroup: 'group-uuid' });
+
+      expect(xml).toContain('<wp:meta_key><![CDATA[_locale]]></wp:meta_key>');
+      expect(
+        parseWxr(
+          buildWxrHeader({ title: '', link: '', description: '' }, [], []) + xml + WXR_FOOTER
+        ).items[0]
+      ).toMatchObject({ locale: 'fr', translationGroup: 'group-uuid' });
+    });
+  });
+
+  describe('importDocument', () => {
+    const mockPrisma = {
+      user: { findFirst: vi.fn(), create: vi.fn() },
+      termTaxonomy: { findFirst: vi.fn(), create: vi.fn(), update: vi.fn() },
+      termRelationship: { createMany: vi.fn() },
+      postMeta: { findFirst: vi.fn(), upsert: vi.fn() },
+      post: { findUnique: vi.fn(), count: vi.fn(), create: vi.fn(), update: vi.fn() },
+    };
+
+    beforeEach(() => {
+      vi.clearAllMocks();
+      vi.mocked(databaseService.getClient).mockReturnValue(mockPrisma as never);
+      mockPrisma.user.findFirst.mockResolvedValue(null);
+      mockPrisma.termTaxonomy.findFirst.mockResolvedValue(null);
+      mockPrisma.postMeta.findFirst.mockResolvedValue(null);
+      mockPrisma.postMeta.upsert.mockResolvedValue({ meta_type: 'string' });
+      mockPrisma.post.count.mockResolvedValue(0);
+    });
+
+    it('should report what would be created without writing in a dry run', async () => {
+      // Company was imported before from the same export
+      mockPrisma.postMeta.findFirst.mockImplementation(({ where }) =>
+        Promise.resolve(
+          where.meta_value === 'https://example.com/?page_id=11' ? { post_id: 4 } : null
+        )
+      );
+      mockPrisma.post.findUnique.mockResolvedValue({ uuid: 'company-uuid' });
+
+      const report = await wxrImportService.importDocument(parseWxr(WXR), {
+        dryRun: true,
+        defaultAuthorId: 'admin-uuid',
+      });
+
+      expect(report.users.created).toEqual(['jane']);
+      expect(report.terms.created).toEqual(['category:news', 'category:local', 'post_tag:2024']);
+      expect(report.posts).toEqual({
+        created: ['page:team', 'post:hello'],
+        existing: ['page:company'],
+      });
+      expect(report.skipped).toEqual([
+        { item: 'attachment:logo', reason: "Unsupported post type 'attachment'" },
+      ]);
+      expect(mockPrisma.user.create).not.toHaveBeenCalled();
+      expect(mockPrisma.termTaxonomy.create).not.toHaveBeenCalled();
+      expect(mockPrisma.post.create).not.toHaveBeenCalled();
+    });
+
+    it('should number the slugs of new posts instead of merging them', async () => {
+      const hello = parseWxr(WXR).items[2];
+      mockPrisma.post.count.mockImplementation(({ where }) =>
+        Promise.resolve(where.post_name === 'hello' ? 1 : 0)
+      );
+
+      const report = await wxrImportService.importDocument(
+        {
+          authors: [],
+          terms: [],
+          items: [hello, { ...hello, wpId: 20, guid: 'https://example.com/?p=20' }, hello],
+        },
+        { dryRun: true, defaultAuthorId: 'admin-uuid' }
+      );
+
+      // The taken slug and the one handed out earlier in the import are both avoided
+      expect(report.posts.created).toEqual(['post:hello-1', 'post:hello-2']);
+      expect(report.skipped).toEqual([
+        { item: 'post:hello', reason: "Duplicate guid 'https://example.com/?p=13'" },
+      ]);
+    });
+
+    it('should create posts with their authors, terms and parents', async () => {
+      mockPrisma.user.create.mockResolvedValue({ id: 'jane-uuid' });
+      let termId = 0;
+      mockPrisma.termTaxonomy.create.mockImplementation(() => {
+        termId++;
+        return Promise.resolve({ termTaxonomyId: termId * 10, termId });
+      });
+      mockPrisma.post.create.mockImplementation(({ data }) =>
+        Promise.resolve({ id: data.post_name.length, uuid: `${data.post_name}-uuid` })
+      );
+
+      const report = await wxrImportService.importDocument(parseWxr(WXR), {
+        dryRun: false,
+        defaultAuthorId: 'admin-uuid',
+      });
+
+      expect(report.posts.created).toEqual(['page:team', 'page:company', 'post:hello']);
+
+      // The child category is linked to its parent once both exist
+      expect(mockPrisma.termTaxonomy.update).toHaveBeenCalledWith({
+        where: { termTaxonomyId: 20 },
+        data: { parent: 1 },
+      });
+
+      const created = mockPrisma.post.create.mock.calls.map(([args]) => args.data);
+      expect(created[0]).toMatchObject({ post_author: 'jane-uuid', menu_order: 2 });
+      // Creators missing from the author list fall back to the importing user
+      expect(created[2]).toMatchObject({ post_author: 'admin-uuid', post_name: 'hello' });
+
+      // Posts remember the item they came from, for the next import of the export
+      expect(mockPrisma.postMeta.upsert).toHaveBeenCalledWith(
+        expect.objectContaining({
+          create: expect.objectContaining({
+            post_id: 'hello'.length,
+            meta_key: '_wxr_guid',
+            meta_value: 'https://example.com/?p=13',
+          }),
+        })
+      );
+
+      // The page is attached to a parent that came later in the export
+      expect(mockPrisma.post.update).toHaveBeenCalledWith({
+        where: { id: 'team'.length },
+        data: { post_parent: 'company-uuid' },
+      });
+
+      expect(mockPrisma.termRelationship.createMany).toHaveBeenCalledWith({
+        data: [
+          { object_id: 'hello'.length, term_taxonomy_id: 10 },
+          { object_id: 'hello'.length, term_taxonomy_id: 30 },
+        ],
+        skipDuplicates: true,
+      });
+    });
+
+    it('should import translations sharing a slug in their own locale and group', async () => {
+      const hello = parseWxr(WXR).items[2];
+      mockPrisma.post.create.mockResolvedValue({ id: 1, uuid: 'post-uuid' });
+      mockPrisma.post.count.mockImplementation(({ where }) =>
+        Promise.resolve(where.locale === 'en' && where.post_name === 'hello' ? 1 : 0)
+      );
+
+      const report = await wxrImportService.importDocument(
+        {
+          authors: [],
+          terms: [],
+          items: [
+            { ...hello, wpId: 14, guid: 'fr', locale: 'fr', translationGroup: 'group-uuid' },
+            { ...hello, wpId: 15, guid: 'de', locale: 'de', translationGroup: 'group-uuid' },
+          ],
+        },
+        { dryRun: false, defaultAuthorId: 'admin-uuid' }
+      );
+
+      // The English post keeps its slug, so the French one may share it
+      expect(report.posts).toEqual({ created: ['post:fr/hello'], existing: [] });
+      expect(report.skipped).toEqual([
+        { item: 'post:de/hello', reason: "Unsupported locale 'de'" },
+      ]);
+      expect(mockPrisma.post.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          post_name: 'hello',
+          locale: 'fr',
+          translation_group: 'group-uuid',
+        }),
+      });
+    });
+  });
+});